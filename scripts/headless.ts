@@ -0,0 +1,142 @@
+import { register } from 'node:module';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { createCanvas, DOMMatrix, ImageData, Path2D, type Canvas } from '@napi-rs/canvas';
+import { JSDOM } from 'jsdom';
+
+// p5's package entry imports CommonJS dependencies that Node can't link
+// from ESM; the bundled build has them inlined
+const P5_BUNDLE = pathToFileURL(resolve(__dirname, '../node_modules/p5/lib/p5.esm.js')).href;
+
+const EVENT_CLASSES = ['EventTarget', 'AbortController', 'AbortSignal'];
+
+/**
+ * Give Node enough of a browser for p5 to run: a jsdom document whose
+ * `<canvas>` elements draw through Skia (@napi-rs/canvas). Only 2D
+ * contexts are supported; `getContext('webgl')` returns null, so WEBGL
+ * sketches fail to start.
+ *
+ * Must be called before p5 is imported.
+ */
+export function installHeadlessDom() {
+  // p5's friendly error checker reads the page's last <script>, so give it one
+  const dom = new JSDOM('<!doctype html><html><body><script></script></body></html>', {
+    pretendToBeVisual: true,
+    url: 'http://localhost/',
+  });
+  const { window } = dom;
+
+  // Skia's canvas classes stand in for the ones jsdom leaves out
+  const globals: Record<string, unknown> = { DOMMatrix, ImageData, Path2D };
+  for (const key of Object.getOwnPropertyNames(window)) {
+    // Node's own events and abort signals are rejected by jsdom's targets
+    if (!(key in globalThis) || key.endsWith('Event') || EVENT_CLASSES.includes(key)) {
+      globals[key] = (window as unknown as Record<string, unknown>)[key];
+    }
+  }
+  for (const [key, value] of Object.entries(globals)) {
+    Object.defineProperty(globalThis, key, { value, configurable: true, writable: true });
+  }
+  Object.defineProperty(globalThis, 'window', { value: window, configurable: true });
+  Object.defineProperty(globalThis, 'document', { value: window.document, configurable: true });
+  Object.assign(window, { DOMMatrix, ImageData, Path2D });
+
+  patchCanvas(window.HTMLCanvasElement);
+  // jsdom dispatches pointer events but has no capture; nothing needs it here
+  Object.assign(window.Element.prototype, {
+    setPointerCapture() {},
+    releasePointerCapture() {},
+    hasPointerCapture: () => false,
+  });
+  const hook = `export const resolve = (specifier, context, next) =>
+    next(specifier === 'p5' ? ${JSON.stringify(P5_BUNDLE)} : specifier, context);`;
+  register(`data:text/javascript,${encodeURIComponent(hook)}`);
+  return window;
+}
+
+function patchCanvas(Element: typeof HTMLCanvasElement) {
+  const backings = new WeakMap<HTMLCanvasElement, Canvas>();
+  const contexts = new WeakMap<HTMLCanvasElement, CanvasRenderingContext2D>();
+
+  const backingOf = (element: HTMLCanvasElement) => {
+    let backing = backings.get(element);
+    if (!backing) {
+      backing = createCanvas(element.width, element.height);
+      backings.set(element, backing);
+    }
+    return backing;
+  };
+
+  // Skia only draws its own canvases, so swap elements for their backing
+  const unwrap = (value: unknown) => (value instanceof Element ? backingOf(value) : value);
+
+  // Resizing the element resizes (and, as in browsers, clears) the backing
+  for (const dimension of ['width', 'height'] as const) {
+    const descriptor = Object.getOwnPropertyDescriptor(Element.prototype, dimension)!;
+    Object.defineProperty(Element.prototype, dimension, {
+      ...descriptor,
+      set(this: HTMLCanvasElement, value: number) {
+        descriptor.set!.call(this, value);
+        const backing = backings.get(this);
+        if (backing) backing[dimension] = descriptor.get!.call(this);
+      },
+    });
+  }
+
+  // The Skia context, reporting the element as its canvas so p5 sees the DOM
+  const wrapContext = (element: HTMLCanvasElement) => {
+    const target = backingOf(element).getContext('2d');
+    const methods = new Map<PropertyKey, unknown>();
+
+    // Skia reports `alphabeticBaseline` as the font's ascent whatever the
+    // baseline; p5 centres text vertically on it, so give the distance from
+    // the current baseline up to the alphabetic one, as browsers do
+    const measureText = (text: string) => {
+      const metrics = target.measureText(text);
+      const baseline = target.textBaseline;
+      target.textBaseline = 'alphabetic';
+      const { fontBoundingBoxAscent } = target.measureText(text);
+      target.textBaseline = baseline;
+      return { ...metrics, alphabeticBaseline: metrics.fontBoundingBoxAscent - fontBoundingBoxAscent };
+    };
+
+    return new Proxy(target, {
+      get(_, key) {
+        if (key === 'canvas') return element;
+        if (key === 'measureText') return measureText;
+        const value = Reflect.get(target, key, target);
+        if (typeof value !== 'function') return value;
+
+        if (!methods.has(key)) {
+          methods.set(key, (...args: unknown[]) => value.apply(target, args.map(unwrap)));
+        }
+        return methods.get(key);
+      },
+      set(_, key, value) {
+        return Reflect.set(target, key, unwrap(value), target);
+      },
+    }) as unknown as CanvasRenderingContext2D;
+  };
+
+  Element.prototype.getContext = function (this: HTMLCanvasElement, type: string) {
+    if (type !== '2d') return null;
+
+    let context = contexts.get(this);
+    if (!context) {
+      context = wrapContext(this);
+      contexts.set(this, context);
+    }
+    return context;
+  } as HTMLCanvasElement['getContext'];
+
+  Element.prototype.toDataURL = function (this: HTMLCanvasElement, type?: string, quality?: number) {
+    // Like browsers, anything but JPEG and WebP falls back to PNG
+    if (type === 'image/jpeg' || type === 'image/webp') return backingOf(this).toDataURL(type, quality);
+    return backingOf(this).toDataURL('image/png');
+  };
+
+  Element.prototype.toBlob = function (this: HTMLCanvasElement, callback: BlobCallback) {
+    const png = backingOf(this).toBuffer('image/png');
+    setTimeout(() => callback(new Blob([new Uint8Array(png)], { type: 'image/png' })), 0);
+  };
+}
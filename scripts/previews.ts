@@ -0,0 +1,99 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { installHeadlessDom } from './headless';
+import { artworks, loadSketch } from '@/lib/artworks';
+import { mountOffscreen } from '@/lib/offscreen';
+import { PREVIEW_HEIGHT, PREVIEW_WIDTH, previewPath } from '@/lib/previews';
+import { FIXED_STEP } from '@/lib/sketchRuntime';
+import { THUMBNAIL_SEED } from '@/lib/thumbnails';
+
+const USAGE = `Render the still shown on each artwork's social card into public/previews.
+
+Usage: npm run previews -- [sketch-id...]
+
+Renders every artwork when no id is given. WEBGL sketches are skipped, as
+headless rendering has no WebGL; their cards are drawn without a still.
+`;
+
+const JPEG_QUALITY = 0.82;
+
+// Long enough for trails and simulations to fill in
+const FRAMES = 180;
+// Pieces that only draw under a pressed pointer get dragged through the last of those frames
+const DRAG_FRAMES = 90;
+// Laid out at two thirds of the card and supersampled: roomy enough for the
+// type-based pieces, small enough that the per-pixel ones finish in minutes
+const DENSITY = 1.5;
+
+async function renderPreview(window: ReturnType<typeof installHeadlessDom>, id: string) {
+  const sketch = await loadSketch(id);
+  if (!sketch) {
+    throw new Error(`Unknown sketch "${id}". Available: ${artworks.map((artwork) => artwork.id).join(', ')}`);
+  }
+  if (sketch.requires?.includes('webgl')) {
+    console.log(`Skipped ${id}: needs WebGL`);
+    return;
+  }
+
+  // The gallery thumbnail's seed keeps the card and the thumbnail the same piece
+  const width = PREVIEW_WIDTH / DENSITY;
+  const height = PREVIEW_HEIGHT / DENSITY;
+  const offscreen = await mountOffscreen(sketch, {
+    seed: THUMBNAIL_SEED,
+    width,
+    height,
+    pixelDensity: DENSITY,
+    fixedTimestep: FIXED_STEP,
+  });
+
+  try {
+    const drag = sketch.requires?.includes('pointer');
+    await offscreen.runtime.step(drag ? FRAMES - DRAG_FRAMES : FRAMES);
+    for (let frame = 0; drag && frame <= DRAG_FRAMES; frame++) {
+      // One sweep of a wave across the middle of the canvas
+      const t = frame / DRAG_FRAMES;
+      const type = frame === 0 ? 'pointerdown' : frame === DRAG_FRAMES ? 'pointerup' : 'pointermove';
+      offscreen.canvas.dispatchEvent(
+        new window.PointerEvent(type, {
+          pointerId: 1,
+          pointerType: 'mouse',
+          isPrimary: true,
+          clientX: width * (0.15 + 0.7 * t),
+          clientY: height * (0.5 + 0.25 * Math.sin(t * Math.PI * 2)),
+          buttons: type === 'pointerup' ? 0 : 1,
+          pressure: type === 'pointerup' ? 0 : 0.5,
+        }),
+      );
+      await offscreen.runtime.step(1);
+    }
+
+    const still = offscreen.canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+    const out = previewPath(id);
+    await writeFile(out, Buffer.from(still.slice(still.indexOf(',') + 1), 'base64'));
+    console.log(`Saved ${out}`);
+  } finally {
+    offscreen.remove();
+  }
+}
+
+async function main() {
+  const ids = process.argv.slice(2);
+  if (ids.includes('--help') || ids.includes('-h')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const window = installHeadlessDom();
+  await mkdir(dirname(previewPath('')), { recursive: true });
+  for (const id of ids.length > 0 ? ids : artworks.map((artwork) => artwork.id)) {
+    await renderPreview(window, id);
+  }
+}
+
+const fail = (error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+};
+
+// jsdom's animation frame timer would otherwise keep the process alive
+main().then(() => process.exit(0), fail);
@@ -0,0 +1,114 @@
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { installHeadlessDom } from './headless';
+import { artworks, loadSketch } from '@/lib/artworks';
+import { exportImage, MAX_EXPORT_SIZE, MAX_REPLAY_SECONDS } from '@/lib/exportImage';
+import { sanitizeParams } from '@/lib/params';
+import { createSeed, parseSeed } from '@/lib/seed';
+import { FIXED_STEP } from '@/lib/sketchRuntime';
+
+const USAGE = `Render a sketch to PNG without a browser.
+
+Usage: npm run render -- <sketch-id> [options]
+
+Options:
+  --seed <seed>        Random seed; words are hashed like ?seed= (default: random)
+  --frames <n>         Simulation steps to run before capturing (default: 60)
+  --size <w>x<h>       Output size in pixels (default: 1920x1080)
+  --canvas <w>x<h>     Size the sketch lays itself out at; the output is
+                       supersampled from it (default: --size, scaled to fit 1280)
+  --param <key=value>  Set a parameter; repeat for several
+  --out <file>         Output path (default: <id>-<seed>-<w>x<h>.png)
+`;
+
+// Default layout size, roughly a laptop screen, so compositions match the site
+const DEFAULT_CANVAS_SIDE = 1280;
+
+function parseSize(value: string, flag: string) {
+  const match = /^(\d+)x(\d+)$/.exec(value);
+  if (!match) throw new Error(`${flag} must look like 1920x1080`);
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      seed: { type: 'string' },
+      frames: { type: 'string', default: '60' },
+      size: { type: 'string', default: '1920x1080' },
+      canvas: { type: 'string' },
+      param: { type: 'string', multiple: true, default: [] },
+      out: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [id] = positionals;
+  if (values.help || !id) {
+    console.log(USAGE);
+    return;
+  }
+
+  const sketch = await loadSketch(id);
+  if (!sketch) {
+    throw new Error(`Unknown sketch "${id}". Available: ${artworks.map((artwork) => artwork.id).join(', ')}`);
+  }
+  if (sketch.requires?.includes('webgl')) {
+    throw new Error(`${id} needs WebGL, which headless rendering doesn't provide`);
+  }
+
+  const seed = parseSeed(values.seed) ?? createSeed();
+  const frames = Number(values.frames);
+  if (!Number.isInteger(frames) || frames < 1) throw new Error('--frames must be a positive integer');
+
+  const size = parseSize(values.size, '--size');
+  if (Math.max(size.width, size.height) > MAX_EXPORT_SIZE) {
+    throw new Error(`--size is limited to ${MAX_EXPORT_SIZE} pixels per side`);
+  }
+  const fit = Math.min(1, DEFAULT_CANVAS_SIDE / Math.max(size.width, size.height));
+  const canvas = values.canvas
+    ? parseSize(values.canvas, '--canvas')
+    : { width: Math.round(size.width * fit), height: Math.round(size.height * fit) };
+
+  const params: Record<string, string> = {};
+  for (const entry of values.param) {
+    const [key, ...rest] = entry.split('=');
+    if (!sketch.params?.[key]) throw new Error(`Unknown parameter "${key}" for ${id}`);
+    params[key] = rest.join('=');
+  }
+
+  installHeadlessDom();
+
+  const image = await exportImage(
+    sketch,
+    {
+      seed,
+      ...canvas,
+      params: sanitizeParams(sketch.params, params),
+      frameCount: frames,
+      time: frames * FIXED_STEP,
+      speed: 1,
+    },
+    {
+      ...size,
+      onProgress: (done, total) => {
+        if (total > 1) console.log(`Rendered tile ${done}/${total}`);
+      },
+    },
+  );
+
+  const out = values.out ?? `${id}-${seed}-${image.width}x${image.height}.png`;
+  await writeFile(out, new Uint8Array(await image.blob.arrayBuffer()));
+  if (!image.scaled) console.log(`${id} renders at a fixed resolution; saved at its canvas size instead.`);
+  if (image.shortened) console.log(`Replayed ${MAX_REPLAY_SECONDS} s, the export limit, instead of ${frames} frames.`);
+  console.log(`Saved ${out}`);
+}
+
+const fail = (error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+};
+
+// jsdom's animation frame timer would otherwise keep the process alive
+main().then(() => process.exit(0), fail);
@@ -0,0 +1,105 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ImageResponse } from 'next/og';
+import { artworks, getArtwork } from '@/lib/artworks';
+import { getMessages, locales, type Locale } from '@/lib/i18n';
+import { PREVIEW_HEIGHT, PREVIEW_WIDTH, readPreview } from '@/lib/previews';
+
+export const size = { width: PREVIEW_WIDTH, height: PREVIEW_HEIGHT };
+export const contentType = 'image/png';
+
+// Rendered at build time, like the page itself
+export const dynamicParams = false;
+
+// Image routes don't inherit the layout's locales, so both segments are listed here
+export function generateStaticParams() {
+  return locales.flatMap((locale) => artworks.map(({ id }) => ({ locale, id })));
+}
+
+// The font bundled with next/og only covers Latin script; this one also covers Japanese
+const FONT_PATH = join(
+  process.cwd(),
+  'node_modules/@expo-google-fonts/noto-sans-jp/400Regular/NotoSansJP_400Regular.ttf',
+);
+
+const difficultyColors = {
+  easy: '#22c55e',
+  medium: '#eab308',
+  hard: '#ef4444',
+};
+
+/**
+ * The social card for an artwork's page: a still of the sketch from
+ * `npm run previews`, with the title in the page's language. WEBGL sketches
+ * have no still, so theirs shows the title on a plain gradient.
+ */
+export default async function Image({ params }: { params: Promise<{ locale: string; id: string }> }) {
+  const { locale: segment, id } = await params;
+  const locale = segment as Locale;
+  const artwork = getArtwork(id)!;
+  const t = getMessages(locale);
+  const [still, font] = await Promise.all([readPreview(artwork.id), readFile(FONT_PATH)]);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          fontFamily: 'Noto Sans JP',
+          color: 'white',
+          backgroundColor: '#09090b',
+          backgroundImage: 'radial-gradient(circle at 85% 15%, rgba(147, 51, 234, 0.55), transparent 55%)',
+        }}
+      >
+        {still && (
+          <img src={still} alt="" width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT} style={{ position: 'absolute' }} />
+        )}
+        <div
+          style={{
+            width: '100%',
+            height: '100%',
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'space-between',
+            padding: 64,
+            backgroundImage: 'linear-gradient(to top, rgba(0, 0, 0, 0.85), transparent 45%, rgba(0, 0, 0, 0.6))',
+          }}
+        >
+          <div style={{ display: 'flex', fontSize: 28, color: '#d8b4fe' }}>{t.meta.title}</div>
+          <div style={{ display: 'flex', flexDirection: 'column' }}>
+            <div style={{ display: 'flex', fontSize: 72, lineHeight: 1.15 }}>{artwork.title[locale]}</div>
+            <div style={{ display: 'flex', alignItems: 'center', marginTop: 24, fontSize: 24 }}>
+              <div
+                style={{
+                  display: 'flex',
+                  padding: '6px 20px',
+                  borderRadius: 999,
+                  backgroundColor: difficultyColors[artwork.difficulty],
+                }}
+              >
+                {t.difficulty[artwork.difficulty]}
+              </div>
+              {artwork.tags.slice(0, 3).map((tag) => (
+                <div
+                  key={tag}
+                  style={{
+                    display: 'flex',
+                    marginLeft: 16,
+                    padding: '6px 20px',
+                    borderRadius: 999,
+                    backgroundColor: 'rgba(39, 39, 42, 0.85)',
+                  }}
+                >
+                  {tag}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    ),
+    { ...size, fonts: [{ name: 'Noto Sans JP', data: font, weight: 400, style: 'normal' }] },
+  );
+}
@@ -0,0 +1,50 @@
+import type { Metadata } from 'next';
+import { Suspense } from 'react';
+import { notFound } from 'next/navigation';
+import { artworks, getArtwork } from '@/lib/artworks';
+import { getMessages, localeAlternates, localePath, type Locale } from '@/lib/i18n';
+import ArtworkPlayer from '@/components/ArtworkPlayer';
+
+interface ArtPageProps {
+  params: Promise<{ locale: string; id: string }>;
+}
+
+// Every artwork is known at build time; anything else is a 404
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return artworks.map(({ id }) => ({ id }));
+}
+
+export async function generateMetadata({ params }: ArtPageProps): Promise<Metadata> {
+  const { locale: segment, id } = await params;
+  const locale = segment as Locale;
+  const artwork = getArtwork(id);
+  if (!artwork) return {};
+  const t = getMessages(locale);
+  const title = artwork.title[locale];
+  const description = artwork.description[locale];
+  // Seeds and snapshots all show the same piece, so the canonical URL has no query
+  const path = `/art/${artwork.id}`;
+
+  // The preview image comes from opengraph-image.tsx next to this page
+  return {
+    title: `${title} · ${t.meta.title}`,
+    description,
+    alternates: { canonical: localePath(locale, path), languages: localeAlternates(path) },
+    openGraph: { type: 'website', siteName: t.meta.title, title, description, url: localePath(locale, path), locale },
+    twitter: { card: 'summary_large_image', title, description },
+  };
+}
+
+export default async function ArtPage({ params }: ArtPageProps) {
+  const artwork = getArtwork((await params).id);
+  if (!artwork) notFound();
+
+  // The seed is in the query, which is only known in the browser
+  return (
+    <Suspense>
+      <ArtworkPlayer artwork={artwork} />
+    </Suspense>
+  );
+}
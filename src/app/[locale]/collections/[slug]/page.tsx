@@ -0,0 +1,69 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { collections, getCollection, getCollectionArtworks } from '@/lib/collections';
+import { getMessages, localePath, type Locale } from '@/lib/i18n';
+import { ArtworkGrid } from '@/components/Gallery';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+
+interface CollectionPageProps {
+  params: Promise<{ locale: string; slug: string }>;
+}
+
+// Every collection is known at build time; anything else is a 404
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return collections.map(({ id }) => ({ slug: id }));
+}
+
+export async function generateMetadata({ params }: CollectionPageProps): Promise<Metadata> {
+  const { locale, slug } = await params;
+  const collection = getCollection(slug);
+  if (!collection) return {};
+  const t = getMessages(locale as Locale);
+  return { title: `${collection.title[locale as Locale]} · ${t.meta.title}`, description: collection.intro[locale as Locale] };
+}
+
+export default async function CollectionPage({ params }: CollectionPageProps) {
+  const { locale: segment, slug } = await params;
+  const locale = segment as Locale;
+  const collection = getCollection(slug);
+  if (!collection) notFound();
+  const t = getMessages(locale);
+
+  const items = getCollectionArtworks(collection);
+
+  return (
+    <div className="min-h-screen">
+      <header className="border-b border-zinc-800 bg-gradient-to-b from-zinc-900 to-zinc-950">
+        <div className="mx-auto max-w-7xl px-4 py-16 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between gap-4">
+            <Link
+              href={localePath(locale, '/collections')}
+              className="text-sm text-purple-300 transition-colors hover:text-purple-200"
+            >
+              {t.collections.back}
+            </Link>
+            <LanguageSwitcher />
+          </div>
+          <h1 className="mt-4 text-4xl font-bold tracking-tight text-white sm:text-5xl">{collection.title[locale]}</h1>
+          <p className="mt-6 max-w-3xl text-zinc-300">{collection.intro[locale]}</p>
+          <div className="mt-6 flex items-center gap-6 text-sm">
+            <span className="text-zinc-500">{t.common.works(items.length)}</span>
+            <Link
+              href={localePath(locale, `/play?collection=${collection.id}`)}
+              className="text-purple-300 transition-colors hover:text-purple-200"
+            >
+              {t.collections.play}
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-7xl px-4 py-16 sm:px-6 lg:px-8">
+        <ArtworkGrid items={items} collection={collection.id} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { collections } from '@/lib/collections';
+import { getMessages, localePath, type Locale } from '@/lib/i18n';
+import CollectionCard from '@/components/CollectionCard';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+
+interface CollectionsPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: CollectionsPageProps): Promise<Metadata> {
+  const t = getMessages((await params).locale as Locale);
+  return { title: `${t.collections.title} · ${t.meta.title}`, description: t.collections.intro };
+}
+
+export default async function CollectionsPage({ params }: CollectionsPageProps) {
+  const locale = (await params).locale as Locale;
+  const t = getMessages(locale);
+
+  return (
+    <div className="min-h-screen">
+      <header className="border-b border-zinc-800 bg-gradient-to-b from-zinc-900 to-zinc-950">
+        <div className="mx-auto max-w-7xl px-4 py-16 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between gap-4">
+            <Link href={localePath(locale, '/')} className="text-sm text-purple-300 transition-colors hover:text-purple-200">
+              ← {t.common.gallery}
+            </Link>
+            <LanguageSwitcher />
+          </div>
+          <h1 className="mt-4 text-4xl font-bold tracking-tight text-white sm:text-5xl">{t.collections.title}</h1>
+          <p className="mt-4 max-w-2xl text-lg text-zinc-400">{t.collections.intro}</p>
+        </div>
+      </header>
+      <main className="mx-auto max-w-7xl px-4 py-16 sm:px-6 lg:px-8">
+        <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+          {collections.map((collection) => (
+            <CollectionCard key={collection.id} collection={collection} />
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { artworks, loadSketch } from '@/lib/artworks';
+import {
+  blendModes,
+  capturePreview,
+  createComposition,
+  createLayer,
+  deleteComposition,
+  drawComposite,
+  getNoCompositions,
+  getSavedCompositions,
+  MAX_LAYERS,
+  saveComposition,
+  subscribeCompositions,
+  type BlendMode,
+  type Composition,
+  type CompositeSource,
+  type CompositionLayer,
+} from '@/lib/composition';
+import { downloadBlob } from '@/lib/download';
+import { getControlLabels } from '@/lib/i18n';
+import { getDefaultParams, type ParamValue } from '@/lib/params';
+import { createSeed } from '@/lib/seed';
+import type { P5WrapperHandle, Sketch } from '@/components/P5Wrapper';
+import CompositeLayer from '@/components/CompositeLayer';
+import { useI18n } from '@/components/I18nProvider';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import ParamPanel from '@/components/ParamPanel';
+
+const chipClass =
+  'rounded-full bg-white/10 px-3 py-1 text-xs text-white backdrop-blur-sm transition-colors hover:bg-white/20 disabled:opacity-40';
+
+export default function ComposePage() {
+  return (
+    <Suspense>
+      <Composer />
+    </Suspense>
+  );
+}
+
+function Composer() {
+  const { t, href } = useI18n();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // Saved compositions live in this browser only
+  const saved = useSyncExternalStore(subscribeCompositions, getSavedCompositions, getNoCompositions);
+  const [fresh] = useState(() => createComposition(t.compose.untitled));
+  // Until something is edited or opened, `?c=` picks a saved composition; anything else starts a fresh one
+  const [edited, setEdited] = useState<Composition | null>(null);
+  const composition = edited ?? saved.find((entry) => entry.id === searchParams.get('c')) ?? fresh;
+  // The top layer is active until another is picked, or when the picked one is removed
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const outputRef = useRef<HTMLCanvasElement>(null);
+  const playersRef = useRef(new Map<string, P5WrapperHandle>());
+  const layersRef = useRef(composition.layers);
+
+  useEffect(() => {
+    layersRef.current = composition.layers;
+  });
+
+  // Composite the layers' canvases into the output once per display frame
+  useEffect(() => {
+    let frame = 0;
+    const render = () => {
+      frame = requestAnimationFrame(render);
+      const output = outputRef.current;
+      const context = output?.getContext('2d');
+      if (!output || !context) return;
+
+      const density = window.devicePixelRatio || 1;
+      const width = Math.round(output.clientWidth * density);
+      const height = Math.round(output.clientHeight * density);
+      if (output.width !== width || output.height !== height) {
+        output.width = width;
+        output.height = height;
+      }
+
+      const sources: CompositeSource[] = [];
+      for (const layer of layersRef.current) {
+        const canvas = playersRef.current.get(layer.id)?.getCanvas();
+        if (canvas) sources.push({ canvas, opacity: layer.opacity, blendMode: layer.blendMode });
+      }
+      drawComposite(context, sources);
+    };
+    frame = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const active = composition.layers.find((layer) => layer.id === activeId) ?? composition.layers[composition.layers.length - 1];
+  const [activeSketch, setActiveSketch] = useState<{ id: string; sketch: Sketch } | null>(null);
+
+  // The parameter panel needs the active layer's schema
+  useEffect(() => {
+    let cancelled = false;
+    loadSketch(active.artworkId)
+      .then((sketch) => {
+        if (!cancelled && sketch) setActiveSketch({ id: active.artworkId, sketch });
+      })
+      .catch(() => {
+        // No schema, so no parameter panel for this layer
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [active.artworkId]);
+
+  const schema = activeSketch?.id === active.artworkId ? activeSketch.sketch.params : undefined;
+
+  const setComposition = (update: (current: Composition) => Composition) => {
+    setEdited((current) => update(current ?? composition));
+  };
+
+  const setLayers = (update: (layers: CompositionLayer[]) => CompositionLayer[]) => {
+    setComposition((current) => ({ ...current, layers: update(current.layers) }));
+  };
+
+  const updateLayer = (id: string, changes: Partial<CompositionLayer>) => {
+    setLayers((layers) => layers.map((layer) => (layer.id === id ? { ...layer, ...changes } : layer)));
+  };
+
+  const setLayerParam = (id: string, key: string, value: ParamValue) => {
+    setLayers((layers) =>
+      layers.map((layer) => (layer.id === id ? { ...layer, params: { ...layer.params, [key]: value } } : layer)),
+    );
+  };
+
+  // Positive moves a layer up, towards the viewer
+  const moveLayer = (id: string, offset: number) => {
+    setLayers((layers) => {
+      const from = layers.findIndex((layer) => layer.id === id);
+      const to = from + offset;
+      if (to < 0 || to >= layers.length) return layers;
+
+      const next = [...layers];
+      const [layer] = next.splice(from, 1);
+      next.splice(to, 0, layer);
+      return next;
+    });
+  };
+
+  const removeLayer = (id: string) => {
+    // Removing the active layer hands over to the top one, see `active`
+    setLayers((layers) => layers.filter((layer) => layer.id !== id));
+  };
+
+  const addLayer = () => {
+    const unused = artworks.find((artwork) => !composition.layers.some((layer) => layer.artworkId === artwork.id));
+    const layer = { ...createLayer(unused?.id ?? artworks[0].id), blendMode: 'screen' as const };
+    setLayers((layers) => [...layers, layer]);
+    setActiveId(layer.id);
+  };
+
+  const handleSave = () => {
+    const title = composition.title.trim() || t.compose.untitled;
+    const preview = outputRef.current ? capturePreview(outputRef.current) : undefined;
+    try {
+      saveComposition({ ...composition, title, preview });
+      setComposition((current) => ({ ...current, title, preview }));
+      router.replace(href(`/compose?c=${composition.id}`), { scroll: false });
+      setMessage(t.compose.saved);
+    } catch {
+      setMessage(t.common.storageUnavailable.save);
+    }
+  };
+
+  const openComposition = (next: Composition) => {
+    setEdited(next);
+    setActiveId(null);
+    setMessage(null);
+    router.replace(href(`/compose?c=${next.id}`), { scroll: false });
+  };
+
+  const handleDownload = () => {
+    outputRef.current?.toBlob((blob) => {
+      if (blob) downloadBlob(blob, `composition-${composition.id}.png`);
+    }, 'image/png');
+  };
+
+  const handleDelete = (id: string) => {
+    try {
+      deleteComposition(id);
+    } catch {
+      setMessage(t.common.storageUnavailable.delete);
+    }
+  };
+
+  return (
+    <div className="relative min-h-screen bg-zinc-950">
+      {/* The composite, with the layers' own canvases hidden above it for pointer input */}
+      <div className="fixed inset-0 bg-black">
+        <canvas ref={outputRef} className="absolute inset-0 h-full w-full" />
+        {composition.layers.map((layer, index) => (
+          <CompositeLayer
+            key={layer.id}
+            layer={layer}
+            active={layer.id === active.id}
+            // The bottom layer keeps its own background for the rest to blend with
+            transparent={index > 0}
+            playerRef={(player) => {
+              if (player) {
+                playersRef.current.set(layer.id, player);
+              } else {
+                playersRef.current.delete(layer.id);
+              }
+            }}
+            onParamChange={(key, value) => setLayerParam(layer.id, key, value)}
+          />
+        ))}
+      </div>
+
+      <div className="pointer-events-none fixed inset-0 z-10">
+        {/* Top Bar */}
+        <div className="pointer-events-auto absolute left-0 right-0 top-0 bg-gradient-to-b from-black/80 to-transparent p-4">
+          <div className="mx-auto flex max-w-7xl items-center justify-between gap-4">
+            <Link
+              href={href('/')}
+              className="rounded-full bg-white/10 px-4 py-2 text-white backdrop-blur-sm transition-colors hover:bg-white/20"
+            >
+              {t.common.gallery}
+            </Link>
+
+            <input
+              value={composition.title}
+              onChange={(e) => setComposition((current) => ({ ...current, title: e.target.value }))}
+              aria-label={t.compose.titleLabel}
+              className="min-w-0 flex-1 bg-transparent text-center text-lg font-semibold text-white outline-none sm:text-xl"
+            />
+
+            <div className="flex items-center gap-2">
+              {message && <span className="text-xs text-zinc-400">{message}</span>}
+              <button type="button" onClick={handleSave} className={chipClass}>
+                {t.common.save}
+              </button>
+              <button type="button" onClick={handleDownload} className={chipClass}>
+                {t.exportImage.button}
+              </button>
+              <button type="button" onClick={() => openComposition(createComposition(t.compose.untitled))} className={chipClass}>
+                {t.compose.new}
+              </button>
+              <LanguageSwitcher className="hidden md:flex" />
+            </div>
+          </div>
+        </div>
+
+        {/* Layer Panel */}
+        <div className="pointer-events-auto absolute left-4 top-24 max-h-[calc(100vh-8rem)] w-72 space-y-3 overflow-y-auto rounded-xl bg-black/50 p-4 text-white backdrop-blur-sm">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-medium">{t.compose.layers}</h2>
+            <button
+              type="button"
+              onClick={addLayer}
+              disabled={composition.layers.length >= MAX_LAYERS}
+              className={chipClass}
+            >
+              {t.compose.addLayer}
+            </button>
+          </div>
+
+          {/* Top layer first, as in image editors */}
+          {[...composition.layers].reverse().map((layer, index) => (
+            <LayerControls
+              key={layer.id}
+              layer={layer}
+              active={layer.id === active.id}
+              isTop={index === 0}
+              isBottom={index === composition.layers.length - 1}
+              canRemove={composition.layers.length > 1}
+              onSelect={() => setActiveId(layer.id)}
+              onChange={(changes) => updateLayer(layer.id, changes)}
+              onMove={(offset) => moveLayer(layer.id, offset)}
+              onRemove={() => removeLayer(layer.id)}
+            />
+          ))}
+
+          {saved.length > 0 && (
+            <div className="space-y-1 border-t border-white/10 pt-3">
+              <h2 className="text-sm font-medium">{t.compose.savedCompositions}</h2>
+              {saved.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between gap-2 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => openComposition(entry)}
+                    className={`truncate text-left hover:text-purple-300 ${
+                      entry.id === composition.id ? 'text-purple-300' : 'text-zinc-300'
+                    }`}
+                  >
+                    {entry.title}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(entry.id)}
+                    aria-label={t.common.delete(entry.title)}
+                    className="text-zinc-500 hover:text-red-400"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {schema && (
+          <ParamPanel
+            schema={schema}
+            values={active.params}
+            labels={getControlLabels(t, active.artworkId)}
+            onChange={(key, value) => setLayerParam(active.id, key, value)}
+            onReset={() => updateLayer(active.id, { params: getDefaultParams(schema) })}
+          />
+        )}
+
+        <p className="absolute bottom-4 left-1/2 -translate-x-1/2 text-center text-xs text-zinc-500">
+          {t.compose.activeHint}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface LayerControlsProps {
+  layer: CompositionLayer;
+  active: boolean;
+  isTop: boolean;
+  isBottom: boolean;
+  canRemove: boolean;
+  onSelect: () => void;
+  onChange: (changes: Partial<CompositionLayer>) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+function LayerControls({
+  layer,
+  active,
+  isTop,
+  isBottom,
+  canRemove,
+  onSelect,
+  onChange,
+  onMove,
+  onRemove,
+}: LayerControlsProps) {
+  const { locale, t } = useI18n();
+
+  return (
+    <div
+      onClick={onSelect}
+      className={`space-y-2 rounded-lg p-3 transition-colors ${
+        active ? 'bg-purple-500/20 ring-1 ring-purple-500/60' : 'bg-white/5 hover:bg-white/10'
+      }`}
+    >
+      <select
+        value={layer.artworkId}
+        onChange={(e) => onChange({ artworkId: e.target.value, params: {} })}
+        aria-label={t.compose.artwork}
+        className="w-full rounded-md bg-zinc-800 px-2 py-1 text-sm text-white"
+      >
+        {artworks.map((artwork) => (
+          <option key={artwork.id} value={artwork.id}>
+            {artwork.title[locale]}
+          </option>
+        ))}
+      </select>
+
+      <label className="block">
+        <div className="mb-1 flex items-center justify-between text-xs text-zinc-300">
+          <span>{t.compose.opacity}</span>
+          <span className="font-mono text-zinc-400">{Math.round(layer.opacity * 100)}%</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={layer.opacity}
+          onChange={(e) => onChange({ opacity: Number(e.target.value) })}
+          className="w-full accent-purple-500"
+        />
+      </label>
+
+      <label className="flex items-center justify-between gap-2 text-xs text-zinc-300">
+        <span>{t.compose.blend}</span>
+        <select
+          value={layer.blendMode}
+          onChange={(e) => onChange({ blendMode: e.target.value as BlendMode })}
+          className="rounded-md bg-zinc-800 px-2 py-1 text-xs text-white"
+        >
+          {blendModes.map((mode) => (
+            <option key={mode} value={mode}>
+              {mode}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex flex-wrap gap-1">
+        <button type="button" onClick={() => onMove(1)} disabled={isTop} aria-label={t.compose.moveUp} className={chipClass}>
+          ↑
+        </button>
+        <button type="button" onClick={() => onMove(-1)} disabled={isBottom} aria-label={t.compose.moveDown} className={chipClass}>
+          ↓
+        </button>
+        <button type="button" onClick={() => onChange({ seed: createSeed() })} className={chipClass}>
+          {t.common.newSeed}
+        </button>
+        <button type="button" onClick={onRemove} disabled={!canRemove} className={chipClass}>
+          {t.compose.remove}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import type { Metadata } from 'next';
+import { Suspense } from 'react';
+import { notFound } from 'next/navigation';
+import { artworks, getArtwork } from '@/lib/artworks';
+import type { Locale } from '@/lib/i18n';
+import EmbedPlayer from '@/components/EmbedPlayer';
+
+interface EmbedPageProps {
+  params: Promise<{ locale: string; id: string }>;
+}
+
+// Every artwork is known at build time; anything else is a 404
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return artworks.map(({ id }) => ({ id }));
+}
+
+export async function generateMetadata({ params }: EmbedPageProps): Promise<Metadata> {
+  const { locale, id } = await params;
+  const artwork = getArtwork(id);
+  if (!artwork) return {};
+  // Embeds are shown on other sites; the artwork's own page is the one to index
+  return { title: artwork.title[locale as Locale], robots: { index: false } };
+}
+
+export default async function EmbedPage({ params }: EmbedPageProps) {
+  const artwork = getArtwork((await params).id);
+  if (!artwork) notFound();
+
+  // The options are in the query, which is only known in the browser
+  return (
+    <Suspense>
+      <EmbedPlayer artworkId={artwork.id} />
+    </Suspense>
+  );
+}
@@ -0,0 +1,42 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getMessages, isLocale, locales } from "@/lib/i18n";
+import { siteUrl } from "@/lib/site";
+import I18nProvider from "@/components/I18nProvider";
+import "../globals.css";
+
+interface LocaleLayoutProps {
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}
+
+// Only the locales with a message catalog get pages
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return locales.map((locale) => ({ locale }));
+}
+
+export async function generateMetadata({ params }: LocaleLayoutProps): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+  const t = getMessages(locale);
+  return {
+    metadataBase: siteUrl,
+    title: t.meta.title,
+    description: t.meta.description,
+  };
+}
+
+export default async function RootLayout({ children, params }: Readonly<LocaleLayoutProps>) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  return (
+    <html lang={locale}>
+      <body className="antialiased bg-zinc-950 text-white font-sans">
+        <I18nProvider locale={locale}>{children}</I18nProvider>
+      </body>
+    </html>
+  );
+}
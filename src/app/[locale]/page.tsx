@@ -0,0 +1,99 @@
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { artworks } from '@/lib/artworks';
+import { getMessages, localePath, type Locale } from '@/lib/i18n';
+import Gallery, { ArtworkGrid, DifficultyPills } from '@/components/Gallery';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import SavedCompositions from '@/components/SavedCompositions';
+
+interface HomeProps {
+  params: Promise<{ locale: string }>;
+}
+
+export default async function Home({ params }: HomeProps) {
+  // The layout has already rejected unknown locales
+  const locale = (await params).locale as Locale;
+  const t = getMessages(locale);
+
+  return (
+    <div className="min-h-screen">
+      {/* Hero Section */}
+      <header className="relative overflow-hidden border-b border-zinc-800 bg-gradient-to-b from-zinc-900 to-zinc-950">
+        <div className="absolute inset-0 opacity-30">
+          <div
+            className="h-full w-full"
+            style={{
+              backgroundImage: `radial-gradient(circle at 20% 50%, rgba(120, 0, 255, 0.3) 0%, transparent 50%),
+                               radial-gradient(circle at 80% 50%, rgba(0, 200, 255, 0.3) 0%, transparent 50%)`,
+            }}
+          />
+        </div>
+
+        <LanguageSwitcher className="absolute right-4 top-4 sm:right-6 lg:right-8" />
+
+        <div className="relative mx-auto max-w-7xl px-4 py-24 sm:px-6 lg:px-8">
+          <h1 className="text-center text-5xl font-bold tracking-tight sm:text-6xl lg:text-7xl">
+            <span className="bg-gradient-to-r from-purple-400 via-pink-400 to-cyan-400 bg-clip-text text-transparent">
+              {t.home.titleLead}
+            </span>
+            <br />
+            <span className="text-white">{t.home.titleTail}</span>
+          </h1>
+
+          <p className="mx-auto mt-6 max-w-2xl text-center text-lg text-zinc-400">
+            {t.home.intro}
+            <br className="hidden sm:inline" />
+            {t.home.introDetail}
+          </p>
+
+          {/* Reads the URL query, so it renders in the browser */}
+          <Suspense fallback={<div className="mt-8 h-9" />}>
+            <DifficultyPills />
+          </Suspense>
+
+          <div className="mt-6 flex flex-wrap justify-center gap-x-6 gap-y-2">
+            <Link
+              href={localePath(locale, '/collections')}
+              className="text-sm text-purple-300 transition-colors hover:text-purple-200"
+            >
+              {t.home.collectionsLink}
+            </Link>
+            <Link
+              href={localePath(locale, '/compose')}
+              className="text-sm text-purple-300 transition-colors hover:text-purple-200"
+            >
+              {t.home.composerLink}
+            </Link>
+            <Link
+              href={localePath(locale, '/playground')}
+              className="text-sm text-purple-300 transition-colors hover:text-purple-200"
+            >
+              {t.home.playgroundLink}
+            </Link>
+            <Link
+              href={localePath(locale, '/play')}
+              className="text-sm text-purple-300 transition-colors hover:text-purple-200"
+            >
+              {t.home.slideshowLink}
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Gallery Grid */}
+      <main className="mx-auto max-w-7xl px-4 py-16 sm:px-6 lg:px-8">
+        <Suspense fallback={<ArtworkGrid items={artworks} />}>
+          <Gallery />
+        </Suspense>
+        <SavedCompositions />
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t border-zinc-800 bg-zinc-900/50">
+        <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+          <p className="text-center text-sm text-zinc-500">{t.home.footer}</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
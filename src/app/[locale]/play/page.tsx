@@ -0,0 +1,338 @@
+'use client';
+
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import { loadSketch, type Artwork } from '@/lib/artworks';
+import { getMissingCapabilities } from '@/lib/capabilities';
+import { collections } from '@/lib/collections';
+import { createSeed } from '@/lib/seed';
+import {
+  buildPlaylist,
+  dwellTimes,
+  parseSlideshowSettings,
+  slideshowSettingsToQuery,
+  type SlideshowSettings,
+} from '@/lib/slideshow';
+import type { Sketch } from '@/components/P5Wrapper';
+import { useI18n } from '@/components/I18nProvider';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+
+const P5Wrapper = dynamic(() => import('@/components/P5Wrapper'), { ssr: false });
+
+// Length of the crossfade from one piece to the next
+const FADE_MS = 2000;
+// The controls and the cursor hide after this long without input
+const IDLE_MS = 3000;
+
+const chipClass =
+  'rounded-full bg-white/10 px-3 py-1 text-xs text-white backdrop-blur-sm transition-colors hover:bg-white/20 disabled:opacity-40';
+const selectClass = 'rounded-md bg-zinc-800 px-2 py-1 text-xs text-white';
+
+interface Slide {
+  /** Counts up per slide, so the same artwork twice in a row still gets a fresh player */
+  key: number;
+  artwork: Artwork;
+  sketch: Sketch;
+  seed: number;
+}
+
+// Pieces that need someone drawing or clicking to do anything are left out
+const isPlayable = (sketch: Sketch) =>
+  !sketch.requires?.includes('pointer') && getMissingCapabilities(sketch.requires).length === 0;
+
+export default function PlayPage() {
+  return (
+    <Suspense>
+      <Slideshow />
+    </Suspense>
+  );
+}
+
+/** Slideshow settings, kept in the URL so a display can be set up from a bookmark */
+function useSlideshowSettings() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const settings = useMemo(() => parseSlideshowSettings(searchParams), [searchParams]);
+
+  const setSettings = useCallback(
+    (next: SlideshowSettings) => {
+      const query = slideshowSettingsToQuery(next).toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    },
+    [pathname, router],
+  );
+  return [settings, setSettings] as const;
+}
+
+function Slideshow() {
+  const { locale, t, href } = useI18n();
+  const [settings, setSettings] = useSlideshowSettings();
+  // The piece on screen and, while it loads or fades in, the one after it
+  const [slides, setSlides] = useState<Slide[]>([]);
+  const [shownKey, setShownKey] = useState<number | null>(null);
+  const [position, setPosition] = useState({ index: 0, total: 0 });
+  const [paused, setPaused] = useState(false);
+  const [idle, setIdle] = useState(false);
+  const [fullscreen, setFullscreen] = useState(false);
+  const [empty, setEmpty] = useState(false);
+  const queueRef = useRef<{ playlist: Artwork[]; index: number }>({ playlist: [], index: -1 });
+  const nextKeyRef = useRef(0);
+  const shownKeyRef = useRef(shownKey);
+  // Bumped per request, so a slow load can't overtake a later skip
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    shownKeyRef.current = shownKey;
+  });
+
+  // Load the next piece along the playlist that can run here, skipping the rest
+  const advance = useCallback(
+    async (direction: 1 | -1) => {
+      const request = ++requestRef.current;
+      const queue = queueRef.current;
+
+      for (let attempt = 0; attempt < queue.playlist.length; attempt++) {
+        let index = queue.index + direction;
+        if (index >= queue.playlist.length) {
+          queue.playlist = buildPlaylist(settings.playlist, queue.playlist[queue.index]);
+          index = 0;
+        } else if (index < 0) {
+          index = queue.playlist.length - 1;
+        }
+        queue.index = index;
+
+        const artwork = queue.playlist[index];
+        // A piece whose code fails to download is skipped like one that can't run here
+        const sketch = await loadSketch(artwork.id).catch(() => undefined);
+        if (request !== requestRef.current) return;
+        if (!sketch || !isPlayable(sketch)) continue;
+
+        const slide = { key: ++nextKeyRef.current, artwork, sketch, seed: createSeed() };
+        // Only two players at once: a piece still loading from an earlier skip is dropped
+        setSlides((current) => [...current.filter((entry) => entry.key === shownKeyRef.current), slide]);
+        setPosition({ index: index + 1, total: queue.playlist.length });
+        setEmpty(false);
+        return;
+      }
+      setEmpty(true);
+    },
+    [settings.playlist],
+  );
+
+  useEffect(() => {
+    queueRef.current = { playlist: buildPlaylist(settings.playlist), index: -1 };
+    advance(1);
+  }, [advance, settings.playlist]);
+
+  // Once the new piece has faded in, the old one can stop
+  useEffect(() => {
+    if (shownKey === null) return;
+    const timer = setTimeout(() => setSlides((current) => current.filter((slide) => slide.key >= shownKey)), FADE_MS);
+    return () => clearTimeout(timer);
+  }, [shownKey]);
+
+  useEffect(() => {
+    if (shownKey === null || paused) return;
+    const timer = setTimeout(() => advance(1), settings.dwell * 1000);
+    return () => clearTimeout(timer);
+  }, [advance, paused, settings.dwell, shownKey]);
+
+  useEffect(() => {
+    let timer = setTimeout(() => setIdle(true), IDLE_MS);
+    const wake = () => {
+      setIdle(false);
+      clearTimeout(timer);
+      timer = setTimeout(() => setIdle(true), IDLE_MS);
+    };
+
+    window.addEventListener('pointermove', wake);
+    window.addEventListener('pointerdown', wake);
+    window.addEventListener('keydown', wake);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('pointermove', wake);
+      window.removeEventListener('pointerdown', wake);
+      window.removeEventListener('keydown', wake);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setFullscreen(document.fullscreenElement !== null);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  const toggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {
+        // Already leaving, e.g. the browser's own Escape got there first
+      });
+    } else {
+      document.documentElement.requestFullscreen().catch(() => {
+        // Refused, e.g. inside an iframe without permission; keep playing in the window
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target instanceof HTMLElement ? event.target : null;
+      if (target?.closest('input, select, textarea')) return;
+      if (event.key === ' ' && target?.closest('button')) return;
+
+      if (event.key === ' ') {
+        event.preventDefault();
+        setPaused((current) => !current);
+      } else if (event.key === 'ArrowRight') {
+        advance(1);
+      } else if (event.key === 'ArrowLeft') {
+        advance(-1);
+      } else if (event.key.toLowerCase() === 'f' && !event.ctrlKey && !event.metaKey) {
+        toggleFullscreen();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [advance, toggleFullscreen]);
+
+  const current = slides.find((slide) => slide.key === shownKey);
+  // A dwell time from a hand-written link is offered alongside the presets
+  const dwellOptions = [...new Set([...dwellTimes, settings.dwell])].sort((a, b) => a - b);
+
+  return (
+    <div className={`relative h-screen overflow-hidden bg-black ${idle ? 'cursor-none' : ''}`}>
+      {/* Newer pieces sit on top and fade in over the one they replace */}
+      {slides.map((slide) => (
+        <div
+          key={slide.key}
+          className="absolute inset-0 transition-opacity ease-in-out motion-reduce:transition-none"
+          style={{
+            opacity: shownKey !== null && slide.key <= shownKey ? 1 : 0,
+            transitionDuration: `${FADE_MS}ms`,
+          }}
+        >
+          <P5Wrapper
+            sketch={slide.sketch}
+            seed={slide.seed}
+            adaptiveQuality
+            autopilot
+            onReady={() => setShownKey(slide.key)}
+            onError={() => {
+              if (slide.key === nextKeyRef.current) advance(1);
+            }}
+            className="h-full w-full"
+          />
+        </div>
+      ))}
+
+      {empty && (
+        <div className="absolute inset-0 flex items-center justify-center p-6 text-center text-zinc-400">
+          {t.slideshow.nothingToPlay}
+        </div>
+      )}
+
+      <div
+        className={`pointer-events-none absolute inset-0 z-10 transition-opacity duration-500 ${
+          idle ? 'opacity-0' : 'opacity-100'
+        }`}
+      >
+        {/* Top Bar */}
+        <div
+          className={`absolute left-0 right-0 top-0 bg-gradient-to-b from-black/80 to-transparent p-4 ${
+            idle ? '' : 'pointer-events-auto'
+          }`}
+        >
+          <div className="mx-auto flex max-w-7xl items-center justify-between gap-4">
+            <Link
+              href={href('/')}
+              className="rounded-full bg-white/10 px-4 py-2 text-white backdrop-blur-sm transition-colors hover:bg-white/20"
+            >
+              {t.common.gallery}
+            </Link>
+
+            {current && (
+              <div className="min-w-0 text-center">
+                <h1 className="truncate text-lg font-semibold text-white sm:text-xl">{current.artwork.title[locale]}</h1>
+                <Link
+                  href={href(`/art/${current.artwork.id}?seed=${current.seed}`)}
+                  className="text-xs text-purple-300 transition-colors hover:text-purple-200"
+                >
+                  {t.slideshow.open}
+                </Link>
+              </div>
+            )}
+
+            <LanguageSwitcher className="hidden md:flex" />
+          </div>
+        </div>
+
+        {/* Bottom Bar */}
+        <div
+          className={`absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4 ${
+            idle ? '' : 'pointer-events-auto'
+          }`}
+        >
+          <div className="mx-auto flex max-w-7xl flex-col items-center gap-3">
+            <div className="flex flex-wrap items-center justify-center gap-2">
+              <button type="button" onClick={() => advance(-1)} className={chipClass}>
+                ← {t.slideshow.previous}
+              </button>
+              <button type="button" onClick={() => setPaused(!paused)} className={chipClass}>
+                {paused ? t.slideshow.resume : t.slideshow.pause}
+              </button>
+              <button type="button" onClick={() => advance(1)} className={chipClass}>
+                {t.slideshow.next} →
+              </button>
+              {position.total > 0 && (
+                <span className="font-mono text-xs text-zinc-400">
+                  {t.slideshow.position(position.index, position.total)}
+                </span>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-zinc-300">
+              <label className="flex items-center gap-2">
+                {t.slideshow.playlist}
+                <select
+                  value={settings.playlist}
+                  onChange={(e) => setSettings({ ...settings, playlist: e.target.value as SlideshowSettings['playlist'] })}
+                  className={selectClass}
+                >
+                  <option value="shuffle">{t.slideshow.shuffle}</option>
+                  {collections.map((collection) => (
+                    <option key={collection.id} value={collection.id}>
+                      {collection.title[locale]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                {t.slideshow.dwell}
+                <select
+                  value={settings.dwell}
+                  onChange={(e) => setSettings({ ...settings, dwell: Number(e.target.value) })}
+                  className={selectClass}
+                >
+                  {dwellOptions.map((seconds) => (
+                    <option key={seconds} value={seconds}>
+                      {t.slideshow.seconds(seconds)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button type="button" onClick={toggleFullscreen} className={chipClass}>
+                {fullscreen ? t.slideshow.exitFullscreen : t.slideshow.fullscreen}
+              </button>
+            </div>
+
+            <p className="text-center text-xs text-zinc-500">{t.slideshow.hint}</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { compileSketch, errorLine, type PlaygroundMessage } from '@/lib/playground';
+import type { Sketch } from '@/components/P5Wrapper';
+
+const P5Wrapper = dynamic(() => import('@/components/P5Wrapper'), { ssr: false });
+
+const post = (message: PlaygroundMessage) => window.parent.postMessage(message, '*');
+
+const report = (error: unknown) =>
+  post({ type: 'error', message: error instanceof Error ? error.message : String(error), line: errorLine(error) });
+
+/**
+ * Runs playground code sent by the editor. Only meant to be loaded in the
+ * editor's sandboxed iframe, whose opaque origin keeps the code away from
+ * the site's storage.
+ */
+export default function PlaygroundFrame() {
+  const [run, setRun] = useState<{ count: number; sketch: Sketch; seed: number } | null>(null);
+
+  useEffect(() => {
+    // Outside the sandbox, code posted by another page would run as this site
+    if (window.origin !== 'null') return;
+
+    const handleMessage = (event: MessageEvent<PlaygroundMessage>) => {
+      if (event.source !== window.parent || event.data?.type !== 'run') return;
+
+      const { code, seed } = event.data;
+      try {
+        const sketch = compileSketch(code);
+        setRun((current) => ({ count: (current?.count ?? 0) + 1, sketch, seed }));
+        post({ type: 'started' });
+      } catch (error) {
+        report(error);
+      }
+    };
+    // The runtime catches setup and draw; this covers timers and event listeners
+    const handleError = (event: ErrorEvent) => report(event.error ?? event.message);
+    const handleRejection = (event: PromiseRejectionEvent) => report(event.reason);
+
+    window.addEventListener('message', handleMessage);
+    window.addEventListener('error', handleError);
+    window.addEventListener('unhandledrejection', handleRejection);
+    post({ type: 'ready' });
+    return () => {
+      window.removeEventListener('message', handleMessage);
+      window.removeEventListener('error', handleError);
+      window.removeEventListener('unhandledrejection', handleRejection);
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-black">
+      {run && (
+        <P5Wrapper key={run.count} sketch={run.sketch} seed={run.seed} onError={report} className="h-full w-full" />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { artworks, getArtwork } from '@/lib/artworks';
+import { createId } from '@/lib/id';
+import {
+  BLANK_SKETCH,
+  deleteDraft,
+  listDrafts,
+  PLAYGROUND_IMPORTS,
+  saveDraft,
+  type PlaygroundDraft,
+  type PlaygroundMessage,
+} from '@/lib/playground';
+import { createSeed } from '@/lib/seed';
+import CodeEditor from '@/components/CodeEditor';
+import { useI18n } from '@/components/I18nProvider';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+
+const chipClass =
+  'rounded-full bg-white/10 px-3 py-1 text-xs text-white backdrop-blur-sm transition-colors hover:bg-white/20 disabled:opacity-40';
+
+interface PlaygroundError {
+  message: string;
+  line: number | null;
+}
+
+export default function PlaygroundPage() {
+  const { locale, t, href } = useI18n();
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const [code, setCode] = useState(BLANK_SKETCH);
+  const [seed, setSeed] = useState(createSeed);
+  const [error, setError] = useState<PlaygroundError | null>(null);
+  const [drafts, setDrafts] = useState<PlaygroundDraft[]>([]);
+  const [draft, setDraft] = useState({ id: createId(), name: t.playground.untitled });
+  const [message, setMessage] = useState<string | null>(null);
+  const codeRef = useRef(code);
+  const seedRef = useRef(seed);
+
+  useEffect(() => {
+    codeRef.current = code;
+    seedRef.current = seed;
+  });
+
+  const run = useCallback((nextSeed = seedRef.current) => {
+    setError(null);
+    const message: PlaygroundMessage = { type: 'run', code: codeRef.current, seed: nextSeed };
+    // The sandboxed frame has an opaque origin, which can't be named as a target
+    frameRef.current?.contentWindow?.postMessage(message, '*');
+  }, []);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent<PlaygroundMessage>) => {
+      if (event.source !== frameRef.current?.contentWindow) return;
+
+      const data = event.data;
+      if (data.type === 'ready') run();
+      if (data.type === 'error') setError({ message: data.message, line: data.line });
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [run]);
+
+  // Drafts live in this browser only
+  useEffect(() => {
+    setDrafts(listDrafts());
+  }, []);
+
+  const startFrom = async (id: string) => {
+    setMessage(null);
+    if (id === '') {
+      setCode(BLANK_SKETCH);
+      setDraft({ id: createId(), name: t.playground.untitled });
+      return;
+    }
+
+    let source: string;
+    try {
+      const response = await fetch(`/playground/source/${id}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      source = await response.text();
+    } catch {
+      // Offline, or the connection dropped mid-download
+      setMessage(t.playground.sourceFailed);
+      return;
+    }
+    setCode(source);
+    setDraft({ id: createId(), name: t.playground.copyOf(getArtwork(id)?.title[locale] ?? id) });
+  };
+
+  const handleSave = () => {
+    try {
+      setDrafts(saveDraft({ ...draft, code, savedAt: Date.now() }));
+      setMessage(t.playground.draftSaved);
+    } catch {
+      setMessage(t.common.storageUnavailable.save);
+    }
+  };
+
+  const openDraft = (saved: PlaygroundDraft) => {
+    setCode(saved.code);
+    setDraft({ id: saved.id, name: saved.name });
+    setMessage(null);
+  };
+
+  const handleDelete = (id: string) => {
+    try {
+      setDrafts(deleteDraft(id));
+    } catch {
+      setMessage(t.common.storageUnavailable.delete);
+    }
+  };
+
+  const showErrorLine = (line: number) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    const lines = code.split('\n');
+    const start = lines.slice(0, line - 1).reduce((total, text) => total + text.length + 1, 0);
+    editor.focus();
+    editor.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0));
+  };
+
+  return (
+    <div className="flex h-screen flex-col bg-zinc-950 text-white">
+      {/* Top Bar */}
+      <div className="flex flex-wrap items-center gap-3 border-b border-zinc-800 px-4 py-3">
+        <Link href={href('/')} className={chipClass}>
+          {t.common.gallery}
+        </Link>
+        <h1 className="font-semibold">{t.playground.title}</h1>
+
+        <select
+          defaultValue=""
+          onChange={(e) => startFrom(e.target.value)}
+          aria-label={t.playground.startFrom}
+          className="rounded-md bg-zinc-800 px-2 py-1 text-sm"
+        >
+          <option value="">{t.playground.blank}</option>
+          {artworks.map((artwork) => (
+            <option key={artwork.id} value={artwork.id}>
+              {artwork.title[locale]}
+            </option>
+          ))}
+        </select>
+
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          aria-label={t.playground.draftName}
+          className="min-w-0 flex-1 rounded-md bg-zinc-900 px-2 py-1 text-sm outline-none"
+        />
+
+        <button type="button" onClick={() => run()} className={chipClass} title={t.playground.runHint}>
+          {t.playground.run}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            const next = createSeed();
+            setSeed(next);
+            run(next);
+          }}
+          className={chipClass}
+        >
+          {t.common.newSeed}
+        </button>
+        <button type="button" onClick={handleSave} className={chipClass}>
+          {t.playground.saveDraft}
+        </button>
+        {message && <span className="text-xs text-zinc-400">{message}</span>}
+        <LanguageSwitcher className="ml-auto" />
+      </div>
+
+      <div className="grid min-h-0 flex-1 gap-4 p-4 lg:grid-cols-2">
+        <div className="flex min-h-0 flex-col gap-3">
+          <div className="min-h-0 flex-1">
+            <CodeEditor ref={editorRef} value={code} onChange={setCode} onRun={run} errorLine={error?.line} />
+          </div>
+
+          {error && (
+            <div role="alert" className="rounded-xl bg-red-950/60 px-4 py-3 font-mono text-xs text-red-200">
+              {error.line !== null && (
+                <button
+                  type="button"
+                  onClick={() => showErrorLine(error.line!)}
+                  className="mr-2 underline decoration-dotted"
+                >
+                  {t.playground.line(error.line)}
+                </button>
+              )}
+              {error.message}
+            </div>
+          )}
+
+          <p className="text-xs text-zinc-500">
+            {/* The catalog marks code in backticks, so odd pieces are code */}
+            {t.playground.intro(PLAYGROUND_IMPORTS.join(', '))
+              .split('`')
+              .map((piece, index) => (index % 2 === 1 ? <code key={index}>{piece}</code> : piece))}
+          </p>
+
+          {drafts.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {drafts.map((saved) => (
+                <span key={saved.id} className="flex items-center gap-1 rounded-full bg-white/5 px-3 py-1 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => openDraft(saved)}
+                    className={saved.id === draft.id ? 'text-purple-300' : 'text-zinc-300 hover:text-white'}
+                  >
+                    {saved.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(saved.id)}
+                    aria-label={t.common.delete(saved.name)}
+                    className="text-zinc-500 hover:text-red-400"
+                  >
+                    ✕
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* No allow-same-origin: the code can't reach this site's storage or cookies */}
+        <iframe
+          ref={frameRef}
+          src={href('/playground/frame')}
+          sandbox="allow-scripts"
+          title={t.playground.preview}
+          className="min-h-[50vh] w-full rounded-xl bg-black"
+        />
+      </div>
+    </div>
+  );
+}
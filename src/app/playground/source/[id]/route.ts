@@ -0,0 +1,29 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import ts from 'typescript';
+import { artworks, isArtworkId } from '@/lib/artworks';
+
+// Compiled once at build time; TypeScript never reaches the browser
+export const dynamic = 'force-static';
+
+export function generateStaticParams() {
+  return artworks.map(({ id }) => ({ id }));
+}
+
+/** A sketch's source as JavaScript, for the playground editor */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isArtworkId(id)) return new Response('Unknown artwork', { status: 404 });
+
+  // Sketch modules are named after their id in camelCase, e.g. flow-fields → flowFields.ts
+  const file = id.replace(/-(\w)/g, (_, letter: string) => letter.toUpperCase());
+  const source = await readFile(join(process.cwd(), 'src/sketches', `${file}.ts`), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext },
+  });
+
+  // The compiler prints with four-space indents; the sketches are written with two
+  const code = outputText.replace(/^(?: {4})+/gm, (indent) => indent.slice(indent.length / 2));
+
+  return new Response(code, { headers: { 'Content-Type': 'text/javascript; charset=utf-8' } });
+}
@@ -0,0 +1,27 @@
+import type { MetadataRoute } from 'next';
+import { artworks } from '@/lib/artworks';
+import { collections } from '@/lib/collections';
+import { localeAlternates, locales } from '@/lib/i18n';
+import { siteUrl } from '@/lib/site';
+
+// Embeds and the playground's frame are only meant to be shown inside other pages
+const pages = [
+  '/',
+  '/collections',
+  '/play',
+  '/compose',
+  '/playground',
+  ...collections.map(({ id }) => `/collections/${id}`),
+  ...artworks.map(({ id }) => `/art/${id}`),
+];
+
+const absolute = (path: string) => new URL(path, siteUrl).href;
+
+/** Every indexable page in every locale, each listing its translations */
+export default function sitemap(): MetadataRoute.Sitemap {
+  return pages.flatMap((page) => {
+    const alternates = localeAlternates(page);
+    const languages = Object.fromEntries(locales.map((locale) => [locale, absolute(alternates[locale])]));
+    return locales.map((locale) => ({ url: absolute(alternates[locale]), alternates: { languages } }));
+  });
+}
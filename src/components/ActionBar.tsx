@@ -0,0 +1,39 @@
+'use client';
+
+import { formatKey, type SketchAction } from '@/lib/actions';
+import { useI18n } from '@/components/I18nProvider';
+
+interface ActionBarProps {
+  actions: readonly SketchAction[];
+  onRun: (action: SketchAction) => void;
+  onShowHelp: () => void;
+}
+
+const chipClass =
+  'flex items-center gap-1.5 rounded-full bg-white/10 px-3 py-1 text-xs text-white backdrop-blur-sm transition-colors hover:bg-white/20';
+
+const keyClass = 'rounded bg-white/10 px-1 font-mono text-[10px] text-zinc-300';
+
+export default function ActionBar({ actions, onRun, onShowHelp }: ActionBarProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex max-w-2xl flex-wrap items-center justify-center gap-2">
+      {actions.map((action) => (
+        <button key={action.label} type="button" onClick={() => onRun(action)} className={chipClass}>
+          {action.label}
+          <kbd className={keyClass}>{formatKey(action.keys[0])}</kbd>
+        </button>
+      ))}
+      <button
+        type="button"
+        onClick={onShowHelp}
+        className={chipClass}
+        title={t.help.shortcut}
+        aria-label={t.help.title}
+      >
+        ?
+      </button>
+    </div>
+  );
+}
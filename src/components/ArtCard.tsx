@@ -1,11 +1,24 @@
 'use client';
 
+import { useEffect, useMemo, useRef, useState } from 'react';
 import Link from 'next/link';
-import type { Artwork } from '@/lib/artworks';
+import Image from 'next/image';
+import dynamic from 'next/dynamic';
+import { loadSketch, type Artwork } from '@/lib/artworks';
+import { getMissingCapabilities } from '@/lib/capabilities';
+import { getCollectionsFor, type CollectionId } from '@/lib/collections';
+import type { P5WrapperHandle, Sketch } from '@/components/P5Wrapper';
+import { prefersReducedMotion } from '@/lib/photosensitivity';
+import { getThumbnail, THUMBNAIL_SEED } from '@/lib/thumbnails';
+import { useI18n } from '@/components/I18nProvider';
+
+const P5Wrapper = dynamic(() => import('@/components/P5Wrapper'), { ssr: false });
 
 interface ArtCardProps {
   artwork: Artwork;
   index: number;
+  /** Open the artwork within this collection, so prev/next follow its order */
+  collection?: CollectionId;
 }
 
 const difficultyColors = {
@@ -14,39 +27,139 @@ const difficultyColors = {
   hard: 'bg-red-500',
 };
 
-const difficultyLabels = {
-  easy: 'Easy',
-  medium: 'Medium',
-  hard: 'Hard',
-};
+export default function ArtCard({ artwork, index, collection }: ArtCardProps) {
+  const { locale, t, href } = useI18n();
+  const cardRef = useRef<HTMLAnchorElement>(null);
+  const previewRef = useRef<P5WrapperHandle>(null);
+  const [thumbnail, setThumbnail] = useState<string | null>(null);
+  const [inView, setInView] = useState(false);
+  const [hovered, setHovered] = useState(false);
+  const [sketch, setSketch] = useState<Sketch | undefined>(undefined);
+  // Known once the sketch has loaded, which only happens in the browser
+  const missing = useMemo(() => (sketch ? getMissingCapabilities(sketch.requires) : []), [sketch]);
+  const supported = missing.length === 0;
+
+  useEffect(() => {
+    const card = cardRef.current;
+    if (!card) return;
+
+    const observer = new IntersectionObserver(([entry]) => setInView(entry.isIntersecting), {
+      rootMargin: '200px',
+    });
+    observer.observe(card);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fetch the sketch's code only once the card is close to being seen
+  useEffect(() => {
+    if ((!inView && !hovered) || sketch) return;
+
+    let cancelled = false;
+    loadSketch(artwork.id)
+      .then((loaded) => {
+        if (!cancelled) setSketch(() => loaded);
+      })
+      .catch(() => {
+        // Keep the gradient placeholder; hovering or scrolling back tries again
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [artwork.id, hovered, inView, sketch]);
+
+  // Render (or load the cached) still once the card scrolls near the viewport
+  useEffect(() => {
+    if (!inView || thumbnail || !sketch || !supported) return;
+
+    let cancelled = false;
+    getThumbnail(artwork.id, sketch)
+      .then((dataUrl) => {
+        if (!cancelled) setThumbnail(dataUrl);
+      })
+      .catch(() => {
+        // Keep the gradient placeholder when a sketch cannot render offscreen
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [artwork.id, inView, sketch, supported, thumbnail]);
+
+  // Don't spend frames on a hover preview that has scrolled out of view
+  useEffect(() => {
+    if (inView) {
+      previewRef.current?.play();
+    } else {
+      previewRef.current?.pause();
+    }
+  }, [inView]);
+
+  // Previews play on their own, so not for viewers who asked for less motion
+  const previewing = hovered && sketch !== undefined && supported && !prefersReducedMotion();
 
-export default function ArtCard({ artwork, index }: ArtCardProps) {
   return (
     <Link
-      href={`/art/${artwork.id}`}
+      ref={cardRef}
+      href={href(collection ? `/art/${artwork.id}?collection=${collection}` : `/art/${artwork.id}`)}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
       className="group relative block overflow-hidden rounded-xl bg-zinc-900 transition-all duration-300 hover:scale-[1.02] hover:shadow-2xl hover:shadow-purple-500/20"
     >
       {/* Gradient Background */}
       <div
-        className="aspect-video w-full"
+        className="relative aspect-video w-full overflow-hidden"
         style={{
           background: `linear-gradient(${135 + index * 36}deg,
             hsl(${(index * 36) % 360}, 70%, 30%),
             hsl(${(index * 36 + 60) % 360}, 70%, 20%))`,
         }}
       >
-        {/* Animated Pattern Overlay */}
-        <div className="absolute inset-0 opacity-30">
-          <div
-            className="h-full w-full"
-            style={{
-              backgroundImage: `radial-gradient(circle at ${30 + index * 10}% ${40 + index * 5}%, rgba(255,255,255,0.1) 0%, transparent 50%)`,
-            }}
+        {/* Rendered Still */}
+        {thumbnail && (
+          <Image
+            src={thumbnail}
+            alt={artwork.title[locale]}
+            fill
+            unoptimized
+            className="object-cover"
           />
-        </div>
+        )}
+
+        {/* Live Preview */}
+        {previewing && (
+          <P5Wrapper
+            ref={previewRef}
+            sketch={sketch}
+            seed={THUMBNAIL_SEED}
+            pixelDensity={1}
+            className="absolute inset-0"
+          />
+        )}
+
+        {/* Animated Pattern Overlay */}
+        {!thumbnail && (
+          <div className="absolute inset-0 opacity-30">
+            <div
+              className="h-full w-full"
+              style={{
+                backgroundImage: `radial-gradient(circle at ${30 + index * 10}% ${40 + index * 5}%, rgba(255,255,255,0.1) 0%, transparent 50%)`,
+              }}
+            />
+          </div>
+        )}
+
+        {/* Unsupported Notice */}
+        {!supported && (
+          <span className="absolute left-2 top-2 z-10 rounded-full bg-black/60 px-2 py-0.5 text-xs text-amber-300 backdrop-blur-sm">
+            {t.capabilities.needs(t.capabilities.list(missing.map((capability) => t.capabilities[capability])))}
+          </span>
+        )}
 
         {/* Preview Icon */}
-        <div className="absolute inset-0 flex items-center justify-center">
+        <div
+          className={`absolute inset-0 flex items-center justify-center transition-opacity duration-300 ${
+            previewing ? 'opacity-0' : thumbnail ? 'opacity-0 group-hover:opacity-100' : ''
+          }`}
+        >
           <div className="rounded-full bg-white/10 p-6 backdrop-blur-sm transition-transform duration-300 group-hover:scale-110">
             <svg
               className="h-12 w-12 text-white/80"
@@ -75,20 +188,28 @@ export default function ArtCard({ artwork, index }: ArtCardProps) {
       <div className="p-4">
         <div className="mb-2 flex items-center justify-between">
           <h3 className="text-lg font-semibold text-white group-hover:text-purple-300 transition-colors">
-            {artwork.title}
+            {artwork.title[locale]}
           </h3>
           <span
             className={`rounded-full px-2 py-0.5 text-xs font-medium text-white ${difficultyColors[artwork.difficulty]}`}
           >
-            {difficultyLabels[artwork.difficulty]}
+            {t.difficulty[artwork.difficulty]}
           </span>
         </div>
 
         <p className="mb-3 text-sm text-zinc-400 line-clamp-2">
-          {artwork.titleJa}
+          {artwork.description[locale]}
         </p>
 
         <div className="flex flex-wrap gap-1">
+          {getCollectionsFor(artwork.id).map((badge) => (
+            <span
+              key={badge.id}
+              className="rounded-full bg-purple-500/20 px-2 py-0.5 text-xs text-purple-300"
+            >
+              {badge.title[locale]}
+            </span>
+          ))}
           {artwork.tags.slice(0, 3).map((tag) => (
             <span
               key={tag}
@@ -0,0 +1,512 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import { matchAction, type SketchAction } from '@/lib/actions';
+import { artworks, loadSketch, type Artwork } from '@/lib/artworks';
+import { getCollectionsFor, getNeighbours } from '@/lib/collections';
+import { getControlLabels, getPointerHint } from '@/lib/i18n';
+import { getDefaultParams, sanitizeParams, type ParamValue } from '@/lib/params';
+import { createSeed, parseSeed } from '@/lib/seed';
+import { decodeSnapshotHash, type Snapshot } from '@/lib/snapshot';
+import type { P5WrapperHandle, Sketch } from '@/components/P5Wrapper';
+import ActionBar from '@/components/ActionBar';
+import EmbedMenu from '@/components/EmbedMenu';
+import ExportMenu from '@/components/ExportMenu';
+import HelpOverlay from '@/components/HelpOverlay';
+import { useI18n } from '@/components/I18nProvider';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import ParamPanel from '@/components/ParamPanel';
+import PerformanceHud from '@/components/PerformanceHud';
+import RecorderMenu from '@/components/RecorderMenu';
+import SnapshotMenu from '@/components/SnapshotMenu';
+import TransportControls from '@/components/TransportControls';
+
+function LoadingArtwork() {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex h-screen w-full items-center justify-center bg-zinc-950">
+      <div className="text-center">
+        <div className="mb-4 h-12 w-12 animate-spin rounded-full border-4 border-purple-500 border-t-transparent mx-auto" />
+        <p className="text-zinc-400">{t.player.loading}</p>
+      </div>
+    </div>
+  );
+}
+
+const P5Wrapper = dynamic(() => import('@/components/P5Wrapper'), {
+  ssr: false,
+  loading: LoadingArtwork,
+});
+
+const difficultyColors = {
+  easy: 'bg-green-500',
+  medium: 'bg-yellow-500',
+  hard: 'bg-red-500',
+};
+
+/** An artwork's page: the sketch full-screen with its controls around it */
+export default function ArtworkPlayer({ artwork }: { artwork: Artwork }) {
+  const { t } = useI18n();
+  // Only this artwork's sketch is downloaded, not the whole collection
+  const [loaded, setLoaded] = useState<{ id: string; sketch: Sketch } | null>(null);
+  const [failed, setFailed] = useState(false);
+  // Bumped by the retry button to download the sketch again
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSketch(artwork.id)
+      .then((sketch) => {
+        if (!cancelled && sketch) setLoaded({ id: artwork.id, sketch });
+      })
+      .catch(() => {
+        // Offline, or the site was redeployed and the old chunk is gone
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [artwork.id, attempt]);
+
+  if (failed) {
+    return (
+      <div className="flex h-screen w-full flex-col items-center justify-center gap-3 bg-zinc-950 p-6 text-center">
+        <p className="text-white">{t.player.loadFailed}</p>
+        <button
+          type="button"
+          onClick={() => {
+            setFailed(false);
+            setAttempt((count) => count + 1);
+          }}
+          className="rounded-full bg-white/10 px-4 py-2 text-sm text-white transition-colors hover:bg-white/20"
+        >
+          {t.player.retry}
+        </button>
+      </div>
+    );
+  }
+
+  if (loaded?.id !== artwork.id) return <LoadingArtwork />;
+
+  return <ArtworkView key={artwork.id} artwork={artwork} sketch={loaded.sketch} />;
+}
+
+function ArtworkView({ artwork, sketch }: { artwork: Artwork; sketch: Sketch }) {
+  const { locale, t, href } = useI18n();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const seed = parseSeed(searchParams.get('seed'));
+  const [params, setParams] = useState(() => getDefaultParams(sketch.params));
+  const [copyStatus, setCopyStatus] = useState<'copied' | 'failed' | null>(null);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [showStats, setShowStats] = useState(false);
+  const [adaptiveQuality, setAdaptiveQuality] = useState(true);
+  const [actions, setActions] = useState<readonly SketchAction[]>([]);
+  const [showHelp, setShowHelp] = useState(false);
+  const [flashDampened, setFlashDampened] = useState(false);
+  // Sketch state from a snapshot; the sketch waits until the URL has been checked for one
+  const [restoreData, setRestoreData] = useState<unknown>(undefined);
+  const [snapshotChecked, setSnapshotChecked] = useState(false);
+  const playerRef = useRef<P5WrapperHandle>(null);
+
+  // Shortcuts the page handles itself, listed in the help overlay after the sketch's own
+  const pageActions = useMemo<SketchAction[]>(
+    () => [
+      {
+        keys: [' '],
+        label: t.player.playPause,
+        run: () => {
+          const player = playerRef.current;
+          if (!player) return;
+          if (player.isPlaying()) {
+            player.pause();
+          } else {
+            player.play();
+          }
+        },
+      },
+      {
+        keys: ['?'],
+        label: t.player.shortcuts,
+        run: () => setShowHelp((open) => !open),
+      },
+    ],
+    [t],
+  );
+  const controlLabels = getControlLabels(t, artwork.id);
+
+  // The URL is the source of truth for the seed, so every view is shareable
+  useEffect(() => {
+    if (seed !== undefined) return;
+
+    const query = new URLSearchParams(searchParams.toString());
+    query.set('seed', String(createSeed()));
+    router.replace(href(`/art/${artwork.id}?${query}`), { scroll: false });
+  }, [artwork.id, href, router, searchParams, seed]);
+
+  const applySnapshot = (snapshot: Snapshot) => {
+    setParams(sanitizeParams(sketch.params, snapshot.params));
+    setRestoreData(snapshot.data);
+
+    if (snapshot.seed === seed) {
+      playerRef.current?.restart();
+    } else {
+      // Changing the seed restarts the sketch, which then restores the data
+      const query = new URLSearchParams(window.location.search);
+      query.set('seed', String(snapshot.seed));
+      router.replace(href(`/art/${artwork.id}?${query}${window.location.hash}`), { scroll: false });
+    }
+  };
+
+  // Snapshot links carry their state in the fragment, which only the browser sees
+  useEffect(() => {
+    let cancelled = false;
+    decodeSnapshotHash(window.location.hash)
+      .then((snapshot) => {
+        if (cancelled || snapshot?.id !== artwork.id) return;
+        setParams(sanitizeParams(sketch.params, snapshot.params));
+        setRestoreData(snapshot.data);
+        const query = new URLSearchParams(window.location.search);
+        query.set('seed', String(snapshot.seed));
+        router.replace(href(`/art/${artwork.id}?${query}${window.location.hash}`), { scroll: false });
+      })
+      .catch(() => {
+        // A snapshot that can't be applied is ignored; the piece starts fresh
+      })
+      .finally(() => {
+        if (!cancelled) setSnapshotChecked(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [artwork.id, href, router, sketch.params]);
+
+  // Page shortcuts first, then the sketch's, unless a form control has focus
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target instanceof HTMLElement ? event.target : null;
+      if (target?.closest('input, select, textarea')) return;
+      // A focused button keeps Space for itself
+      if (event.key === ' ' && target?.closest('button')) return;
+
+      const pageAction = matchAction(pageActions, event);
+      if (pageAction) {
+        event.preventDefault();
+        pageAction.run();
+      } else if (playerRef.current?.handleKey(event)) {
+        event.preventDefault();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [pageActions]);
+
+  const handleRunAction = (action: SketchAction) => {
+    if (pageActions.includes(action)) {
+      action.run();
+    } else {
+      playerRef.current?.runAction(action);
+    }
+  };
+
+  const closeHelp = useCallback(() => setShowHelp(false), []);
+
+  const handleParamChange = (key: string, value: ParamValue) => {
+    setParams((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleNewSeed = () => {
+    setRestoreData(undefined);
+    const query = new URLSearchParams(searchParams.toString());
+    query.set('seed', String(createSeed()));
+    router.replace(href(`/art/${artwork.id}?${query}`), { scroll: false });
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopyStatus('copied');
+    } catch {
+      // Clipboard access was denied, or the page isn't served securely
+      setCopyStatus('failed');
+    }
+    setTimeout(() => setCopyStatus(null), 2000);
+  };
+
+  // Prev/next follow the collection the viewer came from, or the artwork's first one
+  const memberships = getCollectionsFor(artwork.id);
+  const collection = memberships.find((entry) => entry.id === searchParams.get('collection')) ?? memberships[0];
+  const currentIndex = artworks.findIndex((a) => a.id === artwork.id);
+  const { index: collectionIndex, previous: prevArt, next: nextArt } = collection
+    ? getNeighbours(collection, artwork.id)
+    : {
+        index: -1,
+        previous: currentIndex > 0 ? artworks[currentIndex - 1] : null,
+        next: currentIndex < artworks.length - 1 ? artworks[currentIndex + 1] : null,
+      };
+  const artHref = (id: string) => href(collection ? `/art/${id}?collection=${collection.id}` : `/art/${id}`);
+
+  return (
+    <div className="relative min-h-screen bg-zinc-950">
+      {/* Canvas Container */}
+      <div className="fixed inset-0">
+        {seed !== undefined && snapshotChecked && (
+          <P5Wrapper
+            ref={playerRef}
+            sketch={sketch}
+            seed={seed}
+            params={params}
+            speed={speed}
+            restore={restoreData}
+            adaptiveQuality={adaptiveQuality}
+            onParamChange={handleParamChange}
+            onPlaybackChange={setPlaying}
+            onActionsChange={setActions}
+            onFlashGuardChange={setFlashDampened}
+            className="h-full w-full"
+          />
+        )}
+      </div>
+
+      {/* Overlay UI */}
+      <div className="pointer-events-none fixed inset-0 z-10">
+        {/* Top Bar */}
+        <div className="pointer-events-auto absolute left-0 right-0 top-0 bg-gradient-to-b from-black/80 to-transparent p-4">
+          <div className="mx-auto flex max-w-7xl items-center justify-between">
+            <Link
+              href={href('/')}
+              className="flex items-center gap-2 rounded-full bg-white/10 px-4 py-2 text-white backdrop-blur-sm transition-colors hover:bg-white/20"
+            >
+              <svg
+                className="h-5 w-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M10 19l-7-7m0 0l7-7m-7 7h18"
+                />
+              </svg>
+              <span className="hidden sm:inline">{t.common.gallery}</span>
+            </Link>
+
+            <div className="text-center">
+              <h1 className="text-lg font-semibold text-white sm:text-xl">
+                {artwork.title[locale]}
+              </h1>
+              {collection && (
+                <Link
+                  href={href(`/collections/${collection.id}`)}
+                  className="text-xs text-purple-300 transition-colors hover:text-purple-200"
+                >
+                  {collection.title[locale]} · {collectionIndex + 1} / {collection.artworkIds.length}
+                </Link>
+              )}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <LanguageSwitcher className="hidden md:flex" />
+              <span
+                className={`rounded-full px-3 py-1 text-sm font-medium text-white ${
+                  difficultyColors[artwork.difficulty]
+                }`}
+              >
+                {t.difficulty[artwork.difficulty]}
+              </span>
+            </div>
+          </div>
+        </div>
+
+        {flashDampened && (
+          <p
+            role="status"
+            className="absolute left-1/2 top-24 -translate-x-1/2 rounded-full bg-black/60 px-3 py-1 text-xs text-amber-300 backdrop-blur-sm"
+          >
+            {t.player.flashReduced}
+          </p>
+        )}
+
+        {showStats && (
+          <PerformanceHud
+            getPerformance={() => playerRef.current?.getPerformance() ?? null}
+            knobs={sketch.quality}
+            labels={controlLabels}
+            adaptiveQuality={adaptiveQuality}
+            onAdaptiveQualityChange={setAdaptiveQuality}
+            onQualityLevelChange={(level) => playerRef.current?.setQualityLevel(level)}
+          />
+        )}
+
+        {showHelp && (
+          <HelpOverlay
+            actions={actions}
+            pageActions={pageActions}
+            pointerHint={getPointerHint(t, artwork.id)}
+            onRun={handleRunAction}
+            onClose={closeHelp}
+          />
+        )}
+
+        {/* Parameter Panel */}
+        {sketch.params && (
+          <ParamPanel
+            schema={sketch.params}
+            values={params}
+            labels={controlLabels}
+            onChange={handleParamChange}
+            onReset={() => setParams(getDefaultParams(sketch.params))}
+          />
+        )}
+
+        {/* Bottom Bar */}
+        <div className="pointer-events-auto absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4">
+          <div className="mx-auto max-w-7xl">
+            {/* Description */}
+            <div className="mb-4 rounded-xl bg-black/30 p-4 backdrop-blur-sm">
+              <p className="text-sm text-zinc-300">{artwork.description[locale]}</p>
+              <div className="mt-3 flex flex-wrap gap-2">
+                {artwork.tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className="rounded-full bg-zinc-800/80 px-3 py-1 text-xs text-zinc-300"
+                  >
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {/* Navigation */}
+            <div className="flex items-center justify-between gap-4">
+              {prevArt ? (
+                <Link
+                  href={artHref(prevArt.id)}
+                  className="flex items-center gap-2 rounded-full bg-white/10 px-4 py-2 text-white backdrop-blur-sm transition-colors hover:bg-white/20"
+                >
+                  <svg
+                    className="h-5 w-5"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M15 19l-7-7 7-7"
+                    />
+                  </svg>
+                  <span className="hidden sm:inline">{prevArt.title[locale]}</span>
+                </Link>
+              ) : (
+                <div />
+              )}
+
+              <div className="flex flex-col items-center gap-2">
+                <TransportControls
+                  playing={playing}
+                  onTogglePlay={() => (playing ? playerRef.current?.pause() : playerRef.current?.play())}
+                  onStep={() => playerRef.current?.step()}
+                  onReset={() => playerRef.current?.reset()}
+                  onRestart={() => playerRef.current?.restart()}
+                  speed={speed}
+                  onSpeedChange={setSpeed}
+                />
+                {seed !== undefined && (
+                  <div className="flex items-center gap-2">
+                    <span className="rounded-full bg-white/10 px-3 py-1 font-mono text-xs text-zinc-300 backdrop-blur-sm">
+                      {t.player.seed(seed)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={handleNewSeed}
+                      className="rounded-full bg-white/10 px-3 py-1 text-xs text-white backdrop-blur-sm transition-colors hover:bg-white/20"
+                    >
+                      {t.common.newSeed}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleCopyLink}
+                      className="rounded-full bg-white/10 px-3 py-1 text-xs text-white backdrop-blur-sm transition-colors hover:bg-white/20"
+                    >
+                      {copyStatus === 'copied'
+                        ? t.player.copied
+                        : copyStatus === 'failed'
+                          ? t.player.copyFailed
+                          : t.player.copyLink}
+                    </button>
+                    <ExportMenu
+                      sketch={sketch}
+                      name={artwork.id}
+                      getState={() => playerRef.current?.getState() ?? null}
+                      serialize={() => playerRef.current?.serialize()}
+                    />
+                    <SnapshotMenu
+                      id={artwork.id}
+                      getSnapshot={() => {
+                        const state = playerRef.current?.getState();
+                        if (!state) return null;
+                        return { id: artwork.id, seed: state.seed, params: state.params, data: playerRef.current?.serialize() };
+                      }}
+                      onLoad={applySnapshot}
+                    />
+                    <EmbedMenu id={artwork.id} title={artwork.title[locale]} seed={seed} />
+                    <RecorderMenu
+                      sketch={sketch}
+                      name={artwork.id}
+                      getState={() => playerRef.current?.getState() ?? null}
+                      serialize={() => playerRef.current?.serialize()}
+                      getCanvas={() => playerRef.current?.getCanvas() ?? null}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowStats(!showStats)}
+                      className="rounded-full bg-white/10 px-3 py-1 text-xs text-white backdrop-blur-sm transition-colors hover:bg-white/20"
+                    >
+                      {showStats ? t.player.hideStats : t.player.stats}
+                    </button>
+                  </div>
+                )}
+                <ActionBar actions={actions} onRun={handleRunAction} onShowHelp={() => setShowHelp(true)} />
+                <p className="text-center text-xs text-zinc-500">{t.player.interact}</p>
+              </div>
+
+              {nextArt ? (
+                <Link
+                  href={artHref(nextArt.id)}
+                  className="flex items-center gap-2 rounded-full bg-white/10 px-4 py-2 text-white backdrop-blur-sm transition-colors hover:bg-white/20"
+                >
+                  <span className="hidden sm:inline">{nextArt.title[locale]}</span>
+                  <svg
+                    className="h-5 w-5"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9 5l7 7-7 7"
+                    />
+                  </svg>
+                </Link>
+              ) : (
+                <div />
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useRef, type KeyboardEvent, type Ref } from 'react';
+import { useI18n } from '@/components/I18nProvider';
+
+const INDENT = '  ';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Ctrl/Cmd + Enter */
+  onRun: () => void;
+  /** 1-based line to mark in the gutter */
+  errorLine?: number | null;
+  ref?: Ref<HTMLTextAreaElement>;
+}
+
+/** Plain textarea with line numbers, tab indentation and a run shortcut */
+export default function CodeEditor({ value, onChange, onRun, errorLine, ref }: CodeEditorProps) {
+  const { t } = useI18n();
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const lineCount = value.split('\n').length;
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      onRun();
+      return;
+    }
+    if (event.key !== 'Tab' || event.altKey || event.ctrlKey || event.metaKey) return;
+
+    // Indent or outdent instead of moving focus
+    event.preventDefault();
+    const textarea = event.currentTarget;
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+
+    if (!event.shiftKey && start === end) {
+      textarea.setRangeText(INDENT, start, end, 'end');
+    } else {
+      const lines = value.slice(lineStart, end).split('\n');
+      const changed = lines.map((line) =>
+        event.shiftKey ? line.replace(new RegExp(`^ {1,${INDENT.length}}`), '') : INDENT + line,
+      );
+      textarea.setRangeText(changed.join('\n'), lineStart, end, 'select');
+    }
+    onChange(textarea.value);
+  };
+
+  return (
+    <div className="flex h-full overflow-hidden rounded-xl bg-zinc-900 font-mono text-sm leading-6">
+      <div
+        ref={gutterRef}
+        aria-hidden
+        className="select-none overflow-hidden bg-zinc-950/60 px-3 py-3 text-right text-zinc-600"
+      >
+        {Array.from({ length: lineCount }, (_, index) => (
+          <div key={index} className={index + 1 === errorLine ? 'text-red-400' : undefined}>
+            {index + 1}
+          </div>
+        ))}
+      </div>
+      <textarea
+        ref={ref}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onScroll={(e) => {
+          if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+        spellCheck={false}
+        autoCapitalize="off"
+        autoComplete="off"
+        aria-label={t.playground.code}
+        wrap="off"
+        className="flex-1 resize-none bg-transparent px-3 py-3 text-zinc-100 outline-none"
+      />
+    </div>
+  );
+}
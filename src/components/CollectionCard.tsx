@@ -0,0 +1,70 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { artworks, loadSketch } from '@/lib/artworks';
+import { getMissingCapabilities } from '@/lib/capabilities';
+import type { Collection } from '@/lib/collections';
+import { getThumbnail } from '@/lib/thumbnails';
+import { useI18n } from '@/components/I18nProvider';
+
+interface CollectionCardProps {
+  collection: Collection;
+}
+
+export default function CollectionCard({ collection }: CollectionCardProps) {
+  const { locale, t, href } = useI18n();
+  const [cover, setCover] = useState<string | null>(null);
+  // Same placeholder colours the cover artwork's own card uses
+  const index = artworks.findIndex((artwork) => artwork.id === collection.cover);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSketch(collection.cover)
+      .then((sketch) => {
+        if (!sketch || getMissingCapabilities(sketch.requires).length > 0) return undefined;
+        return getThumbnail(collection.cover, sketch);
+      })
+      .then((dataUrl) => {
+        if (!cancelled && dataUrl) setCover(dataUrl);
+      })
+      .catch(() => {
+        // Keep the gradient placeholder when the cover cannot render offscreen
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [collection.cover]);
+
+  return (
+    <Link
+      href={href(`/collections/${collection.id}`)}
+      className="group relative block overflow-hidden rounded-xl bg-zinc-900 transition-all duration-300 hover:scale-[1.02] hover:shadow-2xl hover:shadow-purple-500/20"
+    >
+      <div
+        className="relative aspect-video w-full overflow-hidden"
+        style={{
+          background: `linear-gradient(${135 + index * 36}deg,
+            hsl(${(index * 36) % 360}, 70%, 30%),
+            hsl(${(index * 36 + 60) % 360}, 70%, 20%))`,
+        }}
+      >
+        {cover && <Image src={cover} alt={collection.title[locale]} fill unoptimized className="object-cover" />}
+        <span className="absolute bottom-2 right-2 rounded-full bg-black/60 px-2 py-0.5 text-xs text-zinc-300 backdrop-blur-sm">
+          {t.common.works(collection.artworkIds.length)}
+        </span>
+      </div>
+
+      <div className="p-4">
+        <h2 className="mb-2 text-lg font-semibold text-white transition-colors group-hover:text-purple-300">
+          {collection.title[locale]}
+        </h2>
+        <p className="text-sm text-zinc-400 line-clamp-3">{collection.intro[locale]}</p>
+      </div>
+
+      {/* Hover Border Effect */}
+      <div className="absolute inset-0 rounded-xl border border-transparent transition-colors duration-300 group-hover:border-purple-500/50" />
+    </Link>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { loadSketch } from '@/lib/artworks';
+import type { CompositionLayer } from '@/lib/composition';
+import type { ParamValue } from '@/lib/params';
+import type { P5WrapperHandle, Sketch } from '@/components/P5Wrapper';
+
+const P5Wrapper = dynamic(() => import('@/components/P5Wrapper'), { ssr: false });
+
+interface CompositeLayerProps {
+  layer: CompositionLayer;
+  /** The active layer gets pointer input; the others let it through */
+  active: boolean;
+  /** Clear instead of painting a background, so the layers beneath show through */
+  transparent: boolean;
+  /** Receives the layer's player, whose canvas the page composites */
+  playerRef: (player: P5WrapperHandle | null) => void;
+  onParamChange: (key: string, value: ParamValue) => void;
+}
+
+/**
+ * One sketch of a composition, rendering into its own canvas. The canvas
+ * itself stays invisible: the page draws it into the composite output, and
+ * it only sits above that output to receive pointer input.
+ */
+export default function CompositeLayer({ layer, active, transparent, playerRef, onParamChange }: CompositeLayerProps) {
+  const [loaded, setLoaded] = useState<{ id: string; sketch: Sketch } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSketch(layer.artworkId)
+      .then((sketch) => {
+        if (!cancelled && sketch) setLoaded({ id: layer.artworkId, sketch });
+      })
+      .catch(() => {
+        // The layer stays empty and the others keep playing
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [layer.artworkId]);
+
+  return (
+    <div className="absolute inset-0 [&_canvas]:opacity-0" style={{ pointerEvents: active ? 'auto' : 'none' }}>
+      {loaded?.id === layer.artworkId && (
+        <P5Wrapper
+          // The runtime reads `transparent` once, so a layer moved to or from the bottom starts over
+          key={String(transparent)}
+          ref={playerRef}
+          sketch={loaded.sketch}
+          seed={layer.seed}
+          params={layer.params}
+          transparent={transparent}
+          adaptiveQuality
+          onParamChange={onParamChange}
+          className="h-full w-full"
+        />
+      )}
+    </div>
+  );
+}
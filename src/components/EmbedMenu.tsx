@@ -0,0 +1,95 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { embedQuery, embedSnippet } from '@/lib/embed';
+import { useI18n } from '@/components/I18nProvider';
+
+interface EmbedMenuProps {
+  /** Artwork id */
+  id: string;
+  title: string;
+  /** Seed the embed starts from, so it shows what the viewer is looking at */
+  seed: number;
+}
+
+const chipClass =
+  'rounded-full bg-white/10 px-3 py-1 text-xs text-white backdrop-blur-sm transition-colors hover:bg-white/20 disabled:opacity-40';
+
+export default function EmbedMenu({ id, title, seed }: EmbedMenuProps) {
+  const { t, href } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [transparent, setTransparent] = useState(false);
+  const [passthrough, setPassthrough] = useState(false);
+  const [copyStatus, setCopyStatus] = useState<'copied' | 'failed' | null>(null);
+  const codeRef = useRef<HTMLTextAreaElement>(null);
+
+  const options = { seed, transparent, passthrough };
+  // Only rendered once opened, so the origin is read in the browser
+  const snippet = open
+    ? embedSnippet(`${window.location.origin}${href(`/embed/${id}?${embedQuery(options)}`)}`, title, options)
+    : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopyStatus('copied');
+      setTimeout(() => setCopyStatus(null), 2000);
+    } catch {
+      // Clipboard access was denied, or the page isn't served securely; select
+      // the code so it can be copied by hand
+      codeRef.current?.focus();
+      codeRef.current?.select();
+      setCopyStatus('failed');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button type="button" onClick={() => setOpen(!open)} className={chipClass}>
+        {t.embed.button}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full left-1/2 mb-2 w-80 -translate-x-1/2 space-y-3 rounded-xl bg-black/70 p-4 text-white backdrop-blur-sm">
+          <label className="flex cursor-pointer items-center justify-between text-xs text-zinc-300">
+            <span>{t.embed.transparent}</span>
+            <input
+              type="checkbox"
+              checked={transparent}
+              onChange={(e) => setTransparent(e.target.checked)}
+              className="h-4 w-4 accent-purple-500"
+            />
+          </label>
+          <label className="flex cursor-pointer items-center justify-between text-xs text-zinc-300">
+            <span>{t.embed.passthrough}</span>
+            <input
+              type="checkbox"
+              checked={passthrough}
+              onChange={(e) => setPassthrough(e.target.checked)}
+              className="h-4 w-4 accent-purple-500"
+            />
+          </label>
+
+          <textarea
+            ref={codeRef}
+            readOnly
+            value={snippet}
+            onFocus={(e) => e.target.select()}
+            aria-label={t.embed.code}
+            rows={4}
+            className="w-full resize-none rounded-md bg-zinc-800 px-2 py-1 font-mono text-[11px] text-zinc-200"
+          />
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="w-full rounded-full bg-purple-600 px-3 py-1 text-xs text-white transition-colors hover:bg-purple-700"
+          >
+            {copyStatus === 'copied' ? t.embed.copied : t.embed.copy}
+          </button>
+          {copyStatus === 'failed' && <p className="text-xs text-zinc-400">{t.embed.copyFailed}</p>}
+          <p className="text-xs text-zinc-400">{t.embed.hint}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import dynamic from 'next/dynamic';
+import { loadSketch } from '@/lib/artworks';
+import { getMissingCapabilities } from '@/lib/capabilities';
+import { parseEmbedCommand, parseEmbedOptions, type EmbedEvent } from '@/lib/embed';
+import { getDefaultParams, sanitizeParams, type ParamValues } from '@/lib/params';
+import { parseSeed } from '@/lib/seed';
+import type { P5WrapperHandle, Sketch } from '@/components/P5Wrapper';
+import { useI18n } from '@/components/I18nProvider';
+
+const P5Wrapper = dynamic(() => import('@/components/P5Wrapper'), { ssr: false });
+
+// Nothing to tell when the page isn't framed
+const post = (event: EmbedEvent) => {
+  if (window.parent !== window) window.parent.postMessage(event, '*');
+};
+
+/**
+ * An artwork on its own for an iframe on another site: no page chrome, and
+ * controlled by the host page through the messages in `@/lib/embed`.
+ */
+export default function EmbedPlayer({ artworkId }: { artworkId: string }) {
+  const { t } = useI18n();
+  const searchParams = useSearchParams();
+  const { transparent, passthrough } = parseEmbedOptions(searchParams);
+  // Fixed on first render, so the embed doesn't restart when the URL changes
+  const [seed] = useState(() => parseSeed(searchParams.get('seed')));
+  const [sketch, setSketch] = useState<Sketch | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [params, setParams] = useState<ParamValues>({});
+  const playerRef = useRef<P5WrapperHandle>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSketch(artworkId)
+      .then((loaded) => {
+        if (cancelled || !loaded) return;
+        setSketch(() => loaded);
+        setParams(getDefaultParams(loaded.params));
+
+        // The wrapper explains this on the canvas; the host gets told as well
+        const missing = getMissingCapabilities(loaded.requires);
+        if (missing.length > 0) {
+          const names = t.capabilities.list(missing.map((capability) => t.capabilities[capability]));
+          post({ type: 'artwork:error', id: artworkId, message: t.capabilities.unsupported(names) });
+        }
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setFailed(true);
+        post({ type: 'artwork:error', id: artworkId, message: t.player.loadFailed });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [artworkId, t]);
+
+  // The site's dark page colour would otherwise cover the host page
+  useEffect(() => {
+    if (!transparent) return;
+    const { style } = document.body;
+    style.background = 'transparent';
+    return () => {
+      style.background = '';
+    };
+  }, [transparent]);
+
+  useEffect(() => {
+    if (!sketch) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent) return;
+      const command = parseEmbedCommand(event.data);
+      if (!command) return;
+
+      switch (command.type) {
+        case 'artwork:setParams': {
+          const next = sanitizeParams(sketch.params, { ...playerRef.current?.getState()?.params, ...command.params });
+          setParams(next);
+          for (const key of Object.keys(command.params)) {
+            if (key in next) post({ type: 'artwork:paramChange', key, value: next[key] });
+          }
+          break;
+        }
+        case 'artwork:pause':
+          playerRef.current?.pause();
+          break;
+        case 'artwork:resume':
+          playerRef.current?.play();
+          break;
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [sketch]);
+
+  if (failed) {
+    return (
+      <div className="flex h-screen w-full items-center justify-center p-6 text-center text-sm text-zinc-400">
+        {t.player.loadFailed}
+      </div>
+    );
+  }
+
+  if (!sketch) return null;
+
+  return (
+    <div className={`fixed inset-0 ${passthrough ? 'pointer-events-none' : ''}`}>
+      <P5Wrapper
+        ref={playerRef}
+        sketch={sketch}
+        seed={seed}
+        params={params}
+        transparent={transparent}
+        // The host page gets the clicks, so pointer-driven pieces wander on their own
+        autopilot={passthrough}
+        onReady={() => {
+          const state = playerRef.current?.getState();
+          if (!state) return;
+          post({ type: 'artwork:ready', id: artworkId, seed: state.seed, params: state.params, schema: sketch.params ?? {} });
+        }}
+        onParamChange={(key, value) => {
+          setParams((current) => ({ ...current, [key]: value }));
+          post({ type: 'artwork:paramChange', key, value });
+        }}
+        onPlaybackChange={(playing) => post({ type: 'artwork:playback', playing })}
+        onError={(error) => post({ type: 'artwork:error', id: artworkId, message: error.message })}
+        className="h-full w-full"
+      />
+    </div>
+  );
+}
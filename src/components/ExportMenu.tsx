@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import type { Sketch } from '@/components/P5Wrapper';
+import { downloadBlob } from '@/lib/download';
+import { exportImage, MAX_EXPORT_SIZE, MAX_REPLAY_SECONDS } from '@/lib/exportImage';
+import type { SketchState } from '@/lib/sketchRuntime';
+import { useI18n } from '@/components/I18nProvider';
+
+interface ExportMenuProps {
+  sketch: Sketch;
+  /** Used as the file name prefix */
+  name: string;
+  getState: () => SketchState | null;
+  /** The sketch's own data, such as a drawing, so the render matches the screen */
+  serialize: () => unknown;
+}
+
+const SCALES = [1, 2, 4];
+
+const chipClass =
+  'rounded-full bg-white/10 px-3 py-1 text-xs text-white backdrop-blur-sm transition-colors hover:bg-white/20 disabled:opacity-40';
+
+export default function ExportMenu({ sketch, name, getState, serialize }: ExportMenuProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [progress, setProgress] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const toggle = () => {
+    if (!open) {
+      const state = getState();
+      if (state) setSize({ width: state.width * 2, height: state.height * 2 });
+      setMessage(null);
+    }
+    setOpen(!open);
+  };
+
+  const applyScale = (scale: number) => {
+    const state = getState();
+    if (state) setSize({ width: state.width * scale, height: state.height * scale });
+  };
+
+  const handleExport = async () => {
+    const state = getState();
+    if (!state) return;
+
+    setMessage(null);
+    setProgress(t.exportImage.rendering);
+    try {
+      const image = await exportImage(sketch, state, {
+        ...size,
+        restore: serialize(),
+        onProgress: (done, total) => setProgress(t.exportImage.renderingTile(done, total)),
+      });
+      downloadBlob(image.blob, `${name}-${state.seed}-${image.width}x${image.height}.png`);
+      const notes = [
+        image.scaled ? null : t.exportImage.fixedSize(image.width, image.height),
+        image.shortened ? t.exportImage.shortened(MAX_REPLAY_SECONDS) : null,
+      ].filter((note) => note !== null);
+      if (notes.length > 0) setMessage(notes.join(' '));
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : t.exportImage.failed);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const sizeInput = (key: 'width' | 'height') => (
+    <input
+      type="number"
+      min={1}
+      max={MAX_EXPORT_SIZE}
+      value={size[key]}
+      onChange={(e) => setSize({ ...size, [key]: Number(e.target.value) })}
+      aria-label={key === 'width' ? t.exportImage.width : t.exportImage.height}
+      className="w-20 rounded-md bg-zinc-800 px-2 py-1 text-xs text-white"
+    />
+  );
+
+  return (
+    <div className="relative">
+      <button type="button" onClick={toggle} className={chipClass}>
+        {t.exportImage.button}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full left-1/2 mb-2 w-64 -translate-x-1/2 space-y-3 rounded-xl bg-black/70 p-4 text-white backdrop-blur-sm">
+          <div className="flex gap-2">
+            {SCALES.map((scale) => (
+              <button
+                key={scale}
+                type="button"
+                onClick={() => applyScale(scale)}
+                className={chipClass}
+              >
+                {t.exportImage.scale(scale)}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2 text-xs text-zinc-400">
+            {sizeInput('width')}
+            <span>×</span>
+            {sizeInput('height')}
+            <span>px</span>
+          </div>
+
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={progress !== null}
+            className="w-full rounded-full bg-purple-600 px-3 py-1 text-xs text-white transition-colors hover:bg-purple-700 disabled:opacity-60"
+          >
+            {progress ?? t.exportImage.download}
+          </button>
+
+          {message && <p className="text-xs text-zinc-400">{message}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
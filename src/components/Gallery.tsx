@@ -0,0 +1,234 @@
+'use client';
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { artworks, difficulties, type Artwork, type Difficulty, type Tag } from '@/lib/artworks';
+import { collections, type CollectionId } from '@/lib/collections';
+import {
+  countFacets,
+  emptyFilters,
+  filterArtworks,
+  filtersToQuery,
+  parseFilters,
+  sortOrders,
+  type GalleryFilters,
+  type SortOrder,
+} from '@/lib/gallerySearch';
+import ArtCard from '@/components/ArtCard';
+import { useI18n } from '@/components/I18nProvider';
+
+const difficultyDots: Record<Difficulty, string> = {
+  easy: 'bg-green-500',
+  medium: 'bg-yellow-500',
+  hard: 'bg-red-500',
+};
+
+// Tags shown before "All tags" is opened; selected tags are always shown
+const TOP_TAGS = 12;
+
+const facetClass = (selected: boolean) =>
+  `flex items-center gap-2 rounded-full px-3 py-1 text-sm transition-colors ${
+    selected ? 'bg-purple-500/30 text-white ring-1 ring-purple-400' : 'bg-zinc-800/50 text-zinc-400 hover:bg-zinc-800 hover:text-white'
+  }`;
+
+/** Gallery filters, kept in the URL query so a filtered view can be linked */
+function useGalleryFilters() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+
+  const setFilters = useCallback(
+    (next: GalleryFilters) => {
+      const query = filtersToQuery(next).toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    },
+    [pathname, router],
+  );
+  return [filters, setFilters] as const;
+}
+
+/** The hero's difficulty pills; picking one again clears it */
+export function DifficultyPills() {
+  const { t } = useI18n();
+  const [filters, setFilters] = useGalleryFilters();
+
+  return (
+    <div className="mt-8 flex justify-center gap-4">
+      {difficulties.map((difficulty) => {
+        const selected = filters.difficulty === difficulty;
+        return (
+          <button
+            key={difficulty}
+            type="button"
+            aria-pressed={selected}
+            onClick={() => setFilters({ ...filters, difficulty: selected ? null : difficulty })}
+            className={`${facetClass(selected)} px-4 py-2`}
+          >
+            <span className={`h-2 w-2 rounded-full ${difficultyDots[difficulty]}`} />
+            {t.difficulty[difficulty]}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export function ArtworkGrid({ items, collection }: { items: readonly Artwork[]; collection?: CollectionId }) {
+  return (
+    <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+      {items.map((artwork) => (
+        // Gallery position, so a card keeps its colours however the list is filtered
+        <ArtCard key={artwork.id} artwork={artwork} index={artworks.indexOf(artwork)} collection={collection} />
+      ))}
+    </div>
+  );
+}
+
+/** Search, facets and sorting over the artwork grid */
+export default function Gallery() {
+  const { locale, t } = useI18n();
+  const [filters, setFilters] = useGalleryFilters();
+  const searchRef = useRef<HTMLInputElement>(null);
+  const [showAllTags, setShowAllTags] = useState(false);
+
+  const results = useMemo(() => filterArtworks(artworks, filters, locale), [filters, locale]);
+  const counts = useMemo(() => countFacets(artworks, filters), [filters]);
+
+  const tagFacets = useMemo(() => {
+    const ranked = [...counts.tags]
+      .filter(([tag]) => !filters.tags.includes(tag))
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b, 'en'));
+    const shown = showAllTags ? ranked : ranked.slice(0, TOP_TAGS);
+    return {
+      shown: [...filters.tags.map((tag): [Tag, number] => [tag, counts.tags.get(tag) ?? 0]), ...shown],
+      hidden: ranked.length - shown.length,
+    };
+  }, [counts.tags, filters.tags, showAllTags]);
+
+  const filtered =
+    filters.query.trim() !== '' ||
+    filters.tags.length > 0 ||
+    filters.difficulty !== null ||
+    filters.collection !== null;
+
+  const toggleTag = (tag: Tag) =>
+    setFilters({
+      ...filters,
+      tags: filters.tags.includes(tag) ? filters.tags.filter((selected) => selected !== tag) : [...filters.tags, tag],
+    });
+
+  const clearFilters = () => {
+    // The search box is uncontrolled so typing never waits on the router
+    if (searchRef.current) searchRef.current.value = '';
+    setFilters({ ...emptyFilters, sort: filters.sort });
+  };
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex flex-col gap-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            ref={searchRef}
+            type="search"
+            defaultValue={filters.query}
+            onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+            placeholder={t.search.placeholder}
+            aria-label={t.search.label}
+            className="min-w-0 flex-1 rounded-full bg-zinc-900 px-4 py-2 text-sm text-white outline-none ring-1 ring-zinc-800 placeholder:text-zinc-500 focus:ring-purple-500"
+          />
+          <select
+            value={filters.sort}
+            onChange={(e) => setFilters({ ...filters, sort: e.target.value as SortOrder })}
+            aria-label={t.search.sortBy}
+            className="rounded-full bg-zinc-900 px-3 py-2 text-sm text-zinc-300 outline-none ring-1 ring-zinc-800"
+          >
+            {sortOrders.map((sort) => (
+              <option key={sort} value={sort}>
+                {t.search.sort[sort]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div role="group" aria-label={t.search.difficulty} className="flex flex-wrap gap-2">
+          {difficulties.map((difficulty) => {
+            const selected = filters.difficulty === difficulty;
+            return (
+              <button
+                key={difficulty}
+                type="button"
+                aria-pressed={selected}
+                disabled={!selected && counts.difficulties[difficulty] === 0}
+                onClick={() => setFilters({ ...filters, difficulty: selected ? null : difficulty })}
+                className={`${facetClass(selected)} disabled:opacity-40`}
+              >
+                <span className={`h-2 w-2 rounded-full ${difficultyDots[difficulty]}`} />
+                {t.difficulty[difficulty]}
+                <span className="text-xs text-zinc-500">{counts.difficulties[difficulty]}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div role="group" aria-label={t.search.collection} className="flex flex-wrap gap-2">
+          {collections.map((collection) => {
+            const selected = filters.collection === collection.id;
+            return (
+              <button
+                key={collection.id}
+                type="button"
+                aria-pressed={selected}
+                disabled={!selected && counts.collections[collection.id] === 0}
+                onClick={() => setFilters({ ...filters, collection: selected ? null : collection.id })}
+                className={`${facetClass(selected)} disabled:opacity-40`}
+              >
+                {collection.title[locale]}
+                <span className="text-xs text-zinc-500">{counts.collections[collection.id]}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div role="group" aria-label={t.search.tags} className="flex flex-wrap gap-2">
+          {tagFacets.shown.map(([tag, count]) => (
+            <button
+              key={tag}
+              type="button"
+              aria-pressed={filters.tags.includes(tag)}
+              onClick={() => toggleTag(tag)}
+              className={facetClass(filters.tags.includes(tag))}
+            >
+              {tag}
+              <span className="text-xs text-zinc-500">{count}</span>
+            </button>
+          ))}
+          {(tagFacets.hidden > 0 || showAllTags) && (
+            <button
+              type="button"
+              onClick={() => setShowAllTags(!showAllTags)}
+              className="px-2 py-1 text-sm text-purple-300 transition-colors hover:text-purple-200"
+            >
+              {showAllTags ? t.search.fewerTags : t.search.allTags(tagFacets.hidden)}
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 text-sm text-zinc-500">
+          <span aria-live="polite">{t.search.results(results.length, artworks.length)}</span>
+          {filtered && (
+            <button type="button" onClick={clearFilters} className="text-purple-300 transition-colors hover:text-purple-200">
+              {t.search.clear}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {results.length > 0 ? (
+        <ArtworkGrid items={results} />
+      ) : (
+        <p className="py-16 text-center text-zinc-500">{t.search.empty}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useEffect } from 'react';
+import { formatKey, type SketchAction } from '@/lib/actions';
+import { useI18n } from '@/components/I18nProvider';
+
+interface HelpOverlayProps {
+  /** Actions of the running sketch */
+  actions: readonly SketchAction[];
+  /** Shortcuts handled by the page itself, such as play/pause */
+  pageActions: readonly SketchAction[];
+  /** How the sketch responds to the mouse and touch */
+  pointerHint?: string;
+  onRun: (action: SketchAction) => void;
+  onClose: () => void;
+}
+
+function ActionRows({ actions, onRun }: { actions: readonly SketchAction[]; onRun: (action: SketchAction) => void }) {
+  return (
+    <ul className="space-y-1">
+      {actions.map((action) => (
+        <li key={action.label}>
+          <button
+            type="button"
+            onClick={() => onRun(action)}
+            className="grid w-full grid-cols-[5rem_1fr] items-center gap-3 rounded-lg px-2 py-1.5 text-left text-sm transition-colors hover:bg-white/10"
+          >
+            <span className="flex flex-wrap gap-1">
+              {action.keys.map((key) => (
+                <kbd key={key} className="rounded bg-white/10 px-1.5 font-mono text-xs text-zinc-200">
+                  {formatKey(key)}
+                </kbd>
+              ))}
+            </span>
+            <span className="text-white">{action.label}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function HelpOverlay({ actions, pageActions, pointerHint, onRun, onClose }: HelpOverlayProps) {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="pointer-events-auto fixed inset-0 z-20 flex items-center justify-center bg-black/60 p-4 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={t.help.title}
+        className="max-h-full w-full max-w-xl overflow-y-auto rounded-xl bg-zinc-900/95 p-6"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="mb-4 flex items-baseline justify-between">
+          <h2 className="text-lg font-semibold text-white">
+            {t.help.title}
+          </h2>
+          <button type="button" onClick={onClose} className="text-sm text-zinc-400 hover:text-white">
+            {t.common.close}
+          </button>
+        </div>
+
+        {pointerHint && (
+          <div className="mb-4 border-b border-white/10 px-2 pb-4 text-sm">
+            <h3 className="mb-1 text-zinc-400">{t.help.pointer}</h3>
+            <p className="text-white">{pointerHint}</p>
+          </div>
+        )}
+
+        {actions.length > 0 ? (
+          <ActionRows actions={actions} onRun={onRun} />
+        ) : (
+          <p className="px-2 text-sm text-zinc-400">{t.help.none}</p>
+        )}
+
+        <div className="mt-4 border-t border-white/10 pt-4">
+          <ActionRows actions={pageActions} onRun={onRun} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import { createContext, useContext, useMemo, type ReactNode } from 'react';
+import { defaultLocale, getMessages, localePath, type Locale } from '@/lib/i18n';
+
+const LocaleContext = createContext<Locale>(defaultLocale);
+
+/** Makes the page's locale available to the client components below it */
+export default function I18nProvider({ locale, children }: { locale: Locale; children: ReactNode }) {
+  return <LocaleContext value={locale}>{children}</LocaleContext>;
+}
+
+/** The page's locale, its message catalog and a helper for links within it */
+export function useI18n() {
+  const locale = useContext(LocaleContext);
+  return useMemo(
+    () => ({ locale, t: getMessages(locale), href: (path: string) => localePath(locale, path) }),
+    [locale],
+  );
+}
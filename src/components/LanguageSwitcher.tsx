@@ -0,0 +1,54 @@
+'use client';
+
+import { Suspense } from 'react';
+import { usePathname, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { LOCALE_COOKIE, localeNames, locales, switchLocale } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+
+// A year, so the choice outlives the session
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+function LocaleLinks({ query, className }: { query: string; className: string }) {
+  const { locale, t } = useI18n();
+  const pathname = usePathname();
+
+  return (
+    <nav aria-label={t.common.language} className={`flex items-center gap-1 text-sm ${className}`}>
+      {locales.map((target) =>
+        target === locale ? (
+          <span key={target} aria-current="true" className="rounded-full bg-white/10 px-3 py-1 text-white">
+            {localeNames[target]}
+          </span>
+        ) : (
+          <Link
+            key={target}
+            href={`${switchLocale(pathname, target)}${query ? `?${query}` : ''}`}
+            hrefLang={target}
+            lang={target}
+            onClick={() => {
+              document.cookie = `${LOCALE_COOKIE}=${target}; path=/; max-age=${COOKIE_MAX_AGE}; samesite=lax`;
+            }}
+            className="rounded-full px-3 py-1 text-zinc-400 transition-colors hover:bg-white/10 hover:text-white"
+          >
+            {localeNames[target]}
+          </Link>
+        ),
+      )}
+    </nav>
+  );
+}
+
+function LocaleLinksWithQuery({ className }: { className: string }) {
+  return <LocaleLinks query={useSearchParams().toString()} className={className} />;
+}
+
+/** Links to the current page in each other locale; picking one is remembered */
+export default function LanguageSwitcher({ className = '' }: { className?: string }) {
+  // The query is only known in the browser on statically rendered pages
+  return (
+    <Suspense fallback={<LocaleLinks query="" className={className} />}>
+      <LocaleLinksWithQuery className={className} />
+    </Suspense>
+  );
+}
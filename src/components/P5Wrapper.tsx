@@ -1,40 +1,326 @@
 'use client';
 
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useImperativeHandle, useMemo, useState, type Ref } from 'react';
 import type p5 from 'p5';
+import type { SketchAction } from '@/lib/actions';
+import { getMissingCapabilities, type Capability } from '@/lib/capabilities';
+import type { ParamSchema, ParamValue, ParamValues } from '@/lib/params';
+import { prefersReducedMotion, watchReducedMotion } from '@/lib/photosensitivity';
+import type { QualitySchema } from '@/lib/quality';
+import {
+  createSketchRuntime,
+  type PerformanceSnapshot,
+  type SketchContext,
+  type SketchRuntime,
+  type SketchState,
+} from '@/lib/sketchRuntime';
+import { useI18n } from '@/components/I18nProvider';
 
-export type Sketch = (p: p5) => void;
+export type Sketch = ((p: p5, ctx: SketchContext) => void) & {
+  /** Tunable parameters rendered as a control panel on the detail page */
+  params?: ParamSchema;
+  /** Settings the runtime may scale down to hold the frame rate */
+  quality?: QualitySchema;
+  /** Browser features the sketch can't run without; checked before it starts */
+  requires?: readonly Capability[];
+};
+
+/** Imperative playback controls exposed through the `ref` prop */
+export interface P5WrapperHandle {
+  play: () => void;
+  pause: () => void;
+  step: (frames?: number) => void;
+  /** Reset in place when the sketch supports it, otherwise restart with the same seed */
+  reset: () => void;
+  restart: (seed?: number) => void;
+  isPlaying: () => boolean;
+  /** Seed, size, parameters and frame count of the running sketch */
+  getState: () => SketchState | null;
+  getCanvas: () => HTMLCanvasElement | null;
+  /** The sketch's own state for snapshots, see `SketchContext.onSerialize` */
+  serialize: () => unknown;
+  /** Frame timings and quality level for the performance overlay */
+  getPerformance: () => PerformanceSnapshot | null;
+  setQualityLevel: (level: number) => void;
+  runAction: (action: SketchAction) => void;
+  /** Run the sketch action bound to a key press; returns false when none is */
+  handleKey: (event: KeyboardEvent) => boolean;
+}
 
 interface P5WrapperProps {
   sketch: Sketch;
   className?: string;
+  /** Changing the seed restarts the sketch */
+  seed?: number;
+  /** Override the canvas pixel density, e.g. 1 for low-resolution previews */
+  pixelDensity?: number;
+  params?: ParamValues;
+  /** Simulation speed multiplier */
+  speed?: number;
+  /** Sketch state from a snapshot, restored whenever the sketch (re)starts */
+  restore?: unknown;
+  /** Scale the sketch's quality knobs to hold the frame rate */
+  adaptiveQuality?: boolean;
+  /** Ask the sketch for its calmer variant; follows the system setting by default */
+  reducedMotion?: boolean;
+  /** Dampen flashing beyond three flashes per second; on by default */
+  flashGuard?: boolean;
+  /** Move a synthetic pointer while nobody is using the canvas, see `SketchRuntimeOptions.autopilot` */
+  autopilot?: boolean;
+  /** Clear the canvas instead of painting backgrounds, see `SketchRuntimeOptions.transparent` */
+  transparent?: boolean;
+  /** Called when the flash guard starts or stops dampening frames */
+  onFlashGuardChange?: (dampening: boolean) => void;
+  onParamChange?: (key: string, value: ParamValue) => void;
+  onPlaybackChange?: (playing: boolean) => void;
+  /** Called once the sketch has run `setup` and is drawing */
+  onReady?: () => void;
+  /** Called with the sketch's actions once it has started */
+  onActionsChange?: (actions: readonly SketchAction[]) => void;
+  /** Called when the sketch throws; the wrapper shows the error with a retry button */
+  onError?: (error: Error) => void;
+  ref?: Ref<P5WrapperHandle>;
+}
+
+function measure(container: HTMLElement) {
+  return {
+    width: Math.max(1, Math.floor(container.clientWidth)),
+    height: Math.max(1, Math.floor(container.clientHeight)),
+  };
 }
 
-export default function P5Wrapper({ sketch, className = '' }: P5WrapperProps) {
+export default function P5Wrapper({
+  sketch,
+  className = '',
+  seed,
+  pixelDensity,
+  params,
+  speed = 1,
+  restore,
+  adaptiveQuality = false,
+  reducedMotion,
+  flashGuard = true,
+  autopilot = false,
+  transparent = false,
+  onParamChange,
+  onPlaybackChange,
+  onReady,
+  onActionsChange,
+  onError,
+  onFlashGuardChange,
+  ref,
+}: P5WrapperProps) {
+  const { locale, t } = useI18n();
   const containerRef = useRef<HTMLDivElement>(null);
   const p5InstanceRef = useRef<p5 | null>(null);
+  const runtimeRef = useRef<SketchRuntime | null>(null);
+  const paramsRef = useRef(params);
+  const speedRef = useRef(speed);
+  const restoreRef = useRef(restore);
+  const adaptiveQualityRef = useRef(adaptiveQuality);
+  const [systemReducedMotion, setSystemReducedMotion] = useState(prefersReducedMotion);
+  const reduced = reducedMotion ?? systemReducedMotion;
+  const reducedRef = useRef(reduced);
+  const flashGuardRef = useRef(flashGuard);
+  const autopilotRef = useRef(autopilot);
+  const transparentRef = useRef(transparent);
+  const onFlashGuardChangeRef = useRef(onFlashGuardChange);
+  const onParamChangeRef = useRef(onParamChange);
+  const onPlaybackChangeRef = useRef(onPlaybackChange);
+  const onReadyRef = useRef(onReady);
+  const onActionsChangeRef = useRef(onActionsChange);
+  const onErrorRef = useRef(onError);
+  const [run, setRun] = useState<{ count: number; seed?: number }>({ count: 0 });
+  const [error, setError] = useState<Error | null>(null);
+  const runSeed = run.seed ?? seed;
+  const missing = useMemo(() => getMissingCapabilities(sketch.requires), [sketch]);
+
+  useEffect(() => {
+    paramsRef.current = params;
+    speedRef.current = speed;
+    restoreRef.current = restore;
+    adaptiveQualityRef.current = adaptiveQuality;
+    reducedRef.current = reduced;
+    flashGuardRef.current = flashGuard;
+    autopilotRef.current = autopilot;
+    transparentRef.current = transparent;
+    onFlashGuardChangeRef.current = onFlashGuardChange;
+    onParamChangeRef.current = onParamChange;
+    onPlaybackChangeRef.current = onPlaybackChange;
+    onReadyRef.current = onReady;
+    onActionsChangeRef.current = onActionsChange;
+    onErrorRef.current = onError;
+  });
+
+  useImperativeHandle(ref, () => {
+    const restart = (nextSeed?: number) => {
+      setRun((current) => ({ count: current.count + 1, seed: nextSeed ?? current.seed }));
+    };
+
+    return {
+      play: () => {
+        runtimeRef.current?.play();
+        onPlaybackChangeRef.current?.(true);
+      },
+      pause: () => {
+        runtimeRef.current?.pause();
+        onPlaybackChangeRef.current?.(false);
+      },
+      step: (frames) => {
+        runtimeRef.current?.step(frames).catch(() => {
+          // Already shown on the overlay and passed to onError
+        });
+      },
+      reset: () => {
+        if (!runtimeRef.current?.reset()) restart();
+      },
+      restart,
+      isPlaying: () => runtimeRef.current?.playing ?? false,
+      getState: () => runtimeRef.current?.getState() ?? null,
+      getCanvas: () => containerRef.current?.querySelector('canvas') ?? null,
+      serialize: () => runtimeRef.current?.serialize(),
+      getPerformance: () => runtimeRef.current?.getPerformance() ?? null,
+      setQualityLevel: (level) => runtimeRef.current?.setQualityLevel(level),
+      runAction: (action) => runtimeRef.current?.runAction(action),
+      handleKey: (event) => runtimeRef.current?.handleKey(event) ?? false,
+    };
+  }, []);
 
   useEffect(() => {
+    if (missing.length > 0) return;
     let p5Constructor: typeof p5;
 
     const initP5 = async () => {
       const p5Module = await import('p5');
       p5Constructor = p5Module.default;
 
-      if (containerRef.current && !p5InstanceRef.current) {
-        p5InstanceRef.current = new p5Constructor(sketch, containerRef.current);
+      const container = containerRef.current;
+      if (container && !p5InstanceRef.current) {
+        const runtime = createSketchRuntime(sketch, {
+          seed: runSeed,
+          locale,
+          ...measure(container),
+          pixelDensity,
+          params: paramsRef.current,
+          speed: speedRef.current,
+          restore: restoreRef.current,
+          adaptiveQuality: adaptiveQualityRef.current,
+          reducedMotion: reducedRef.current,
+          flashGuard: flashGuardRef.current,
+          autopilot: autopilotRef.current,
+          transparent: transparentRef.current,
+          onFlashGuardChange: (dampening) => onFlashGuardChangeRef.current?.(dampening),
+          onParamChange: (key, value) => onParamChangeRef.current?.(key, value),
+          onReady: () => {
+            onActionsChangeRef.current?.(runtime.actions);
+            onReadyRef.current?.();
+          },
+          onError: (sketchError) => {
+            setError(sketchError);
+            onPlaybackChangeRef.current?.(false);
+            onErrorRef.current?.(sketchError);
+          },
+        });
+        runtimeRef.current = runtime;
+        p5InstanceRef.current = new p5Constructor(runtime.run, container);
+        onPlaybackChangeRef.current?.(true);
       }
     };
 
-    initP5();
+    initP5().catch((loadError: unknown) => {
+      // p5 itself failed to load or to create its canvas
+      const reason = loadError instanceof Error ? loadError : new Error(String(loadError));
+      setError(reason);
+      onErrorRef.current?.(reason);
+    });
 
     return () => {
       if (p5InstanceRef.current) {
         p5InstanceRef.current.remove();
         p5InstanceRef.current = null;
       }
+      runtimeRef.current = null;
     };
-  }, [sketch]);
+  }, [sketch, runSeed, pixelDensity, run.count, missing, locale]);
+
+  // A failed sketch is frozen mid-frame; take its canvas down so the message shows
+  useEffect(() => {
+    if (!error) return;
+    p5InstanceRef.current?.remove();
+    p5InstanceRef.current = null;
+    runtimeRef.current = null;
+  }, [error]);
+
+  const retry = () => {
+    setError(null);
+    setRun((current) => ({ ...current, count: current.count + 1 }));
+  };
+
+  // Size the canvas from the container rather than the window
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(() => {
+      const { width, height } = measure(container);
+      runtimeRef.current?.resize(width, height);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Push parameter changes into the running sketch instead of re-creating it
+  useEffect(() => {
+    const runtime = runtimeRef.current;
+    if (!runtime || !params) return;
+
+    for (const [key, value] of Object.entries(params)) {
+      runtime.setParam(key, value);
+    }
+  }, [params]);
+
+  useEffect(() => {
+    runtimeRef.current?.setSpeed(speed);
+  }, [speed]);
+
+  useEffect(() => {
+    runtimeRef.current?.setAdaptiveQuality(adaptiveQuality);
+  }, [adaptiveQuality]);
+
+  useEffect(() => watchReducedMotion(setSystemReducedMotion), []);
+
+  useEffect(() => {
+    runtimeRef.current?.setReducedMotion(reduced);
+  }, [reduced]);
+
+  useEffect(() => {
+    runtimeRef.current?.setFlashGuard(flashGuard);
+  }, [flashGuard]);
 
-  return <div ref={containerRef} className={className} />;
+  return (
+    <div ref={containerRef} className={`overflow-hidden ${className}`}>
+      {missing.length > 0 && (
+        <div className="flex h-full w-full flex-col items-center justify-center gap-2 bg-zinc-950 p-6 text-center">
+          <p className="text-white">
+            {t.capabilities.unsupported(t.capabilities.list(missing.map((capability) => t.capabilities[capability])))}
+          </p>
+        </div>
+      )}
+      {error && (
+        <div className="flex h-full w-full flex-col items-center justify-center gap-3 bg-zinc-950 p-6 text-center">
+          <p className="text-white">{t.player.crashed}</p>
+          <pre className="max-w-full overflow-auto rounded-lg bg-black/40 px-3 py-2 font-mono text-xs text-red-300">
+            {error.message}
+          </pre>
+          <button
+            type="button"
+            onClick={retry}
+            className="rounded-full bg-white/10 px-4 py-2 text-sm text-white transition-colors hover:bg-white/20"
+          >
+            {t.player.retry}
+          </button>
+        </div>
+      )}
+    </div>
+  );
 }
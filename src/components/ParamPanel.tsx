@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import type { ParamSchema, ParamSpec, ParamValue, ParamValues } from '@/lib/params';
+import { useI18n } from '@/components/I18nProvider';
+
+interface ParamPanelProps {
+  schema: ParamSchema;
+  values: ParamValues;
+  /** Control labels from the message catalog, by parameter key */
+  labels: Readonly<Record<string, string>>;
+  onChange: (key: string, value: ParamValue) => void;
+  onReset: () => void;
+}
+
+function formatNumber(spec: ParamSpec & { type: 'number' }, value: number): string {
+  const step = spec.step ?? (spec.max - spec.min) / 100;
+  const decimals = Math.max(0, Math.min(4, Math.ceil(-Math.log10(step))));
+  return value.toFixed(decimals);
+}
+
+function ParamControl({
+  name,
+  label,
+  spec,
+  value,
+  onChange,
+}: {
+  name: string;
+  label: string;
+  spec: ParamSpec;
+  value: ParamValue;
+  onChange: (key: string, value: ParamValue) => void;
+}) {
+  switch (spec.type) {
+    case 'number':
+      return (
+        <label className="block">
+          <div className="mb-1 flex items-center justify-between text-xs text-zinc-300">
+            <span>{label}</span>
+            <span className="font-mono text-zinc-400">{formatNumber(spec, value as number)}</span>
+          </div>
+          <input
+            type="range"
+            min={spec.min}
+            max={spec.max}
+            step={spec.step ?? (spec.max - spec.min) / 100}
+            value={value as number}
+            onChange={(e) => onChange(name, Number(e.target.value))}
+            className="w-full accent-purple-500"
+          />
+        </label>
+      );
+    case 'enum':
+      return (
+        <label className="block">
+          <div className="mb-1 text-xs text-zinc-300">{label}</div>
+          <select
+            value={value as string}
+            onChange={(e) => onChange(name, e.target.value)}
+            className="w-full rounded-md bg-zinc-800 px-2 py-1 text-sm text-white"
+          >
+            {spec.options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+      );
+    case 'color':
+      return (
+        <label className="flex items-center justify-between text-xs text-zinc-300">
+          <span>{label}</span>
+          <input
+            type="color"
+            value={value as string}
+            onChange={(e) => onChange(name, e.target.value)}
+            className="h-6 w-10 cursor-pointer rounded border-0 bg-transparent"
+          />
+        </label>
+      );
+    case 'boolean':
+      return (
+        <label className="flex cursor-pointer items-center justify-between text-xs text-zinc-300">
+          <span>{label}</span>
+          <input
+            type="checkbox"
+            checked={value as boolean}
+            onChange={(e) => onChange(name, e.target.checked)}
+            className="h-4 w-4 accent-purple-500"
+          />
+        </label>
+      );
+  }
+}
+
+export default function ParamPanel({ schema, values, labels, onChange, onReset }: ParamPanelProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="pointer-events-auto absolute right-4 top-24 w-64 rounded-xl bg-black/50 text-white backdrop-blur-sm">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center justify-between px-4 py-2 text-sm font-medium"
+      >
+        <span>{t.params.title}</span>
+        <svg
+          className={`h-4 w-4 transition-transform ${open ? 'rotate-180' : ''}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="max-h-[50vh] space-y-3 overflow-y-auto px-4 pb-4">
+          {Object.entries(schema).map(([name, spec]) => (
+            <ParamControl
+              key={name}
+              name={name}
+              label={labels[name] ?? name}
+              spec={spec}
+              value={values[name] ?? spec.default}
+              onChange={onChange}
+            />
+          ))}
+          <button
+            type="button"
+            onClick={onReset}
+            className="w-full rounded-full bg-white/10 px-3 py-1 text-xs text-zinc-300 transition-colors hover:bg-white/20"
+          >
+            {t.params.reset}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
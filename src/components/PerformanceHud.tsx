@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { QualitySchema } from '@/lib/quality';
+import type { PerformanceSnapshot } from '@/lib/sketchRuntime';
+import { useI18n } from '@/components/I18nProvider';
+
+interface PerformanceHudProps {
+  getPerformance: () => PerformanceSnapshot | null;
+  /** Quality knobs of the running sketch, if it declares any */
+  knobs?: QualitySchema;
+  /** Knob labels from the message catalog, by knob key */
+  labels: Readonly<Record<string, string>>;
+  adaptiveQuality: boolean;
+  onAdaptiveQualityChange: (enabled: boolean) => void;
+  onQualityLevelChange: (level: number) => void;
+}
+
+const REFRESH_INTERVAL = 250;
+const GRAPH_WIDTH = 224;
+const GRAPH_HEIGHT = 48;
+// Frame times above this are clipped in the graph
+const GRAPH_MAX_MS = 50;
+const GRAPH_FRAMES = 120;
+const TARGET_MS = 1000 / 60;
+
+function drawGraph(canvas: HTMLCanvasElement, history: number[]) {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  context.clearRect(0, 0, GRAPH_WIDTH, GRAPH_HEIGHT);
+  const barWidth = GRAPH_WIDTH / GRAPH_FRAMES;
+  history.forEach((ms, i) => {
+    const height = (Math.min(ms, GRAPH_MAX_MS) / GRAPH_MAX_MS) * GRAPH_HEIGHT;
+    context.fillStyle = ms > TARGET_MS * 1.2 ? '#f87171' : '#a78bfa';
+    context.fillRect(GRAPH_WIDTH - (history.length - i) * barWidth, GRAPH_HEIGHT - height, barWidth, height);
+  });
+
+  // 60 fps budget line
+  const y = GRAPH_HEIGHT - (TARGET_MS / GRAPH_MAX_MS) * GRAPH_HEIGHT;
+  context.fillStyle = 'rgba(255, 255, 255, 0.4)';
+  context.fillRect(0, Math.round(y), GRAPH_WIDTH, 1);
+}
+
+export default function PerformanceHud({
+  getPerformance,
+  knobs,
+  labels,
+  adaptiveQuality,
+  onAdaptiveQualityChange,
+  onQualityLevelChange,
+}: PerformanceHudProps) {
+  const { t } = useI18n();
+  const [snapshot, setSnapshot] = useState<PerformanceSnapshot | null>(null);
+  const graphRef = useRef<HTMLCanvasElement>(null);
+  const getPerformanceRef = useRef(getPerformance);
+
+  useEffect(() => {
+    getPerformanceRef.current = getPerformance;
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setSnapshot(getPerformanceRef.current()), REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (graphRef.current && snapshot) drawGraph(graphRef.current, snapshot.history);
+  }, [snapshot]);
+
+  return (
+    <div className="pointer-events-auto absolute left-4 top-24 w-64 space-y-2 rounded-xl bg-black/60 p-4 font-mono text-xs text-zinc-300 backdrop-blur-sm">
+      <div className="flex items-baseline justify-between">
+        <span className="text-lg text-white">{snapshot ? snapshot.fps.toFixed(0) : '–'} fps</span>
+        <span>{snapshot ? snapshot.frameTime.toFixed(1) : '–'} ms</span>
+      </div>
+
+      <canvas ref={graphRef} width={GRAPH_WIDTH} height={GRAPH_HEIGHT} className="w-full rounded bg-white/5" />
+
+      <div className="space-y-0.5">
+        <div className="flex justify-between">
+          <span>draw</span>
+          <span>{snapshot ? snapshot.drawTime.toFixed(2) : '–'} ms</span>
+        </div>
+        {snapshot?.phases.map((phase) => (
+          <div key={phase.name} className="flex justify-between pl-3 text-zinc-400">
+            <span>{phase.name}</span>
+            <span>{phase.time.toFixed(2)} ms</span>
+          </div>
+        ))}
+      </div>
+
+      {knobs && snapshot && (
+        <div className="space-y-1 border-t border-white/10 pt-2">
+          <div className="flex items-center justify-between">
+            <span>{t.performance.quality(Math.round(snapshot.qualityLevel * 100))}</span>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={adaptiveQuality}
+                onChange={(e) => onAdaptiveQualityChange(e.target.checked)}
+                className="accent-purple-500"
+              />
+              {t.performance.auto}
+            </label>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={snapshot.qualityLevel}
+            onChange={(e) => {
+              onAdaptiveQualityChange(false);
+              onQualityLevelChange(Number(e.target.value));
+              setSnapshot(getPerformance());
+            }}
+            aria-label={t.performance.qualityLevel}
+            className="w-full accent-purple-500"
+          />
+          {Object.entries(knobs).map(([key, knob]) => (
+            <div key={key} className="flex justify-between text-zinc-400">
+              <span>{labels[key] ?? key}</span>
+              <span>{knob.integer ? snapshot.quality[key] : snapshot.quality[key]?.toFixed(2)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { Sketch } from '@/components/P5Wrapper';
+import { downloadBlob } from '@/lib/download';
+import { recordCanvas, renderSequence, type CanvasRecording } from '@/lib/recording';
+import type { SketchState } from '@/lib/sketchRuntime';
+import { useI18n } from '@/components/I18nProvider';
+
+interface RecorderMenuProps {
+  sketch: Sketch;
+  /** Used as the file name prefix */
+  name: string;
+  getState: () => SketchState | null;
+  /** The sketch's own data, such as a drawing, so the render matches the screen */
+  serialize: () => unknown;
+  getCanvas: () => HTMLCanvasElement | null;
+}
+
+const FRAME_RATES = [30, 60];
+const DENSITIES = [1, 2];
+const MAX_SECONDS = 60;
+
+const chipClass =
+  'rounded-full bg-white/10 px-3 py-1 text-xs text-white backdrop-blur-sm transition-colors hover:bg-white/20 disabled:opacity-40';
+const selectClass = 'rounded-md bg-zinc-800 px-2 py-1 text-xs text-white';
+
+export default function RecorderMenu({ sketch, name, getState, serialize, getCanvas }: RecorderMenuProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [recording, setRecording] = useState<CanvasRecording | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [seconds, setSeconds] = useState(5);
+  const [fps, setFps] = useState(60);
+  const [density, setDensity] = useState(1);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const cancelledRef = useRef(false);
+
+  // Tick the elapsed time while a live recording runs. A recording still
+  // running when the menu goes away, e.g. on navigation, is thrown away;
+  // one stopped with the button is already inactive and is kept.
+  useEffect(() => {
+    if (!recording) return;
+    const started = performance.now();
+    const timer = setInterval(() => setElapsed((performance.now() - started) / 1000), 250);
+    return () => {
+      clearInterval(timer);
+      recording.discard();
+    };
+  }, [recording]);
+
+  const fileName = (extension: string) => `${name}-${getState()?.seed ?? 0}.${extension}`;
+
+  const handleRecord = async () => {
+    setMessage(null);
+    if (recording) {
+      setRecording(null);
+      downloadBlob(await recording.stop(), fileName('webm'));
+      return;
+    }
+
+    const canvas = getCanvas();
+    if (!canvas) return;
+    try {
+      setElapsed(0);
+      setRecording(recordCanvas(canvas, fps));
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : t.recorder.failed);
+    }
+  };
+
+  const handleRender = async () => {
+    if (progress !== null) {
+      cancelledRef.current = true;
+      return;
+    }
+
+    const state = getState();
+    if (!state) return;
+
+    cancelledRef.current = false;
+    setMessage(null);
+    setProgress(t.recorder.starting);
+    try {
+      const zip = await renderSequence(sketch, state, {
+        frames: Math.round(seconds * fps),
+        fps,
+        restore: serialize(),
+        pixelDensity: density,
+        onProgress: (done, total) => setProgress(t.recorder.frame(done, total)),
+        isCancelled: () => cancelledRef.current,
+      });
+      if (zip) downloadBlob(zip, fileName('zip'));
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : t.recorder.renderFailed);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button type="button" onClick={() => setOpen(!open)} className={chipClass}>
+        {recording ? `● ${elapsed.toFixed(1)}s` : t.recorder.button}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full left-1/2 mb-2 w-72 -translate-x-1/2 space-y-4 rounded-xl bg-black/70 p-4 text-white backdrop-blur-sm">
+          <div className="space-y-2">
+            <div className="text-xs font-medium">{t.recorder.liveTitle}</div>
+            <p className="text-xs text-zinc-400">{t.recorder.liveDetail}</p>
+            <button
+              type="button"
+              onClick={handleRecord}
+              disabled={progress !== null}
+              className="w-full rounded-full bg-red-600 px-3 py-1 text-xs text-white transition-colors hover:bg-red-700 disabled:opacity-60"
+            >
+              {recording ? t.recorder.stop(elapsed.toFixed(1)) : t.recorder.start}
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-xs font-medium">{t.recorder.sequenceTitle}</div>
+            <p className="text-xs text-zinc-400">{t.recorder.sequenceDetail}</p>
+            <div className="flex items-center gap-2 text-xs text-zinc-400">
+              <input
+                type="number"
+                min={1}
+                max={MAX_SECONDS}
+                value={seconds}
+                onChange={(e) => setSeconds(Math.min(MAX_SECONDS, Math.max(1, Number(e.target.value))))}
+                aria-label={t.recorder.duration}
+                className="w-14 rounded-md bg-zinc-800 px-2 py-1 text-xs text-white"
+              />
+              <span>s</span>
+              <select value={fps} onChange={(e) => setFps(Number(e.target.value))} className={selectClass}>
+                {FRAME_RATES.map((rate) => (
+                  <option key={rate} value={rate}>
+                    {rate} fps
+                  </option>
+                ))}
+              </select>
+              <select value={density} onChange={(e) => setDensity(Number(e.target.value))} className={selectClass}>
+                {DENSITIES.map((value) => (
+                  <option key={value} value={value}>
+                    {value}×
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="button"
+              onClick={handleRender}
+              disabled={recording !== null}
+              className="w-full rounded-full bg-purple-600 px-3 py-1 text-xs text-white transition-colors hover:bg-purple-700 disabled:opacity-60"
+            >
+              {progress !== null ? t.recorder.cancel(progress) : t.recorder.render}
+            </button>
+          </div>
+
+          {message && <p className="text-xs text-zinc-400">{message}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { getArtwork } from '@/lib/artworks';
+import { getNoCompositions, getSavedCompositions, subscribeCompositions } from '@/lib/composition';
+import { useI18n } from '@/components/I18nProvider';
+
+/** Compositions saved in this browser, shown in the gallery next to the registered artworks */
+export default function SavedCompositions() {
+  const { locale, t, href } = useI18n();
+  const saved = useSyncExternalStore(subscribeCompositions, getSavedCompositions, getNoCompositions);
+
+  if (saved.length === 0) return null;
+
+  return (
+    <section className="mt-16">
+      <h2 className="mb-6 text-2xl font-semibold text-white">{t.home.savedCompositions}</h2>
+      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+        {saved.map((composition) => (
+          <Link
+            key={composition.id}
+            href={href(`/compose?c=${composition.id}`)}
+            className="group relative block overflow-hidden rounded-xl bg-zinc-900 transition-all duration-300 hover:scale-[1.02] hover:shadow-2xl hover:shadow-purple-500/20"
+          >
+            <div className="relative aspect-video w-full overflow-hidden bg-gradient-to-br from-purple-900 to-zinc-900">
+              {composition.preview && (
+                <Image src={composition.preview} alt={composition.title} fill unoptimized className="object-cover" />
+              )}
+              <span className="absolute bottom-2 right-2 rounded-full bg-black/60 px-2 py-0.5 text-xs text-zinc-300 backdrop-blur-sm">
+                {t.compose.layerCount(composition.layers.length)}
+              </span>
+            </div>
+
+            <div className="p-4">
+              <h3 className="mb-2 text-lg font-semibold text-white transition-colors group-hover:text-purple-300">
+                {composition.title}
+              </h3>
+              <p className="text-sm text-zinc-400 line-clamp-2">
+                {composition.layers.map((layer) => getArtwork(layer.artworkId)?.title[locale]).join(' + ')}
+              </p>
+            </div>
+
+            {/* Hover Border Effect */}
+            <div className="absolute inset-0 rounded-xl border border-transparent transition-colors duration-300 group-hover:border-purple-500/50" />
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { downloadBlob } from '@/lib/download';
+import { encodeSnapshotHash, parseSnapshot, snapshotToJson, type Snapshot } from '@/lib/snapshot';
+import { useI18n } from '@/components/I18nProvider';
+
+interface SnapshotMenuProps {
+  /** Artwork id; snapshots of other artworks are rejected */
+  id: string;
+  getSnapshot: () => Snapshot | null;
+  onLoad: (snapshot: Snapshot) => void;
+}
+
+const chipClass =
+  'rounded-full bg-white/10 px-3 py-1 text-xs text-white backdrop-blur-sm transition-colors hover:bg-white/20 disabled:opacity-40';
+
+export default function SnapshotMenu({ id, getSnapshot, onLoad }: SnapshotMenuProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const toggle = () => {
+    setMessage(null);
+    setOpen(!open);
+  };
+
+  const handleCopyLink = async () => {
+    const snapshot = getSnapshot();
+    if (!snapshot) return;
+
+    try {
+      const url = new URL(window.location.href);
+      url.hash = await encodeSnapshotHash(snapshot);
+      await navigator.clipboard.writeText(url.toString());
+      setMessage(t.snapshot.copied);
+    } catch {
+      // Clipboard access was denied, or the page isn't served securely
+      setMessage(t.snapshot.copyFailed);
+    }
+  };
+
+  const handleDownload = () => {
+    const snapshot = getSnapshot();
+    if (!snapshot) return;
+
+    const blob = new Blob([snapshotToJson(snapshot)], { type: 'application/json' });
+    downloadBlob(blob, `${id}-${snapshot.seed}.json`);
+  };
+
+  const handleFile = async (file: File) => {
+    // A file that can't be read, say one deleted since it was picked, is no snapshot either
+    const text = await file.text().catch(() => null);
+    const snapshot = text === null ? null : parseSnapshot(text);
+    if (!snapshot) {
+      setMessage(t.snapshot.invalid);
+    } else if (snapshot.id !== id) {
+      setMessage(t.snapshot.otherArtwork(snapshot.id));
+    } else {
+      onLoad(snapshot);
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button type="button" onClick={toggle} className={chipClass}>
+        {t.snapshot.button}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full left-1/2 mb-2 w-56 -translate-x-1/2 space-y-2 rounded-xl bg-black/70 p-4 text-white backdrop-blur-sm">
+          <button type="button" onClick={handleCopyLink} className={`${chipClass} w-full`}>
+            {t.snapshot.copyLink}
+          </button>
+          <button type="button" onClick={handleDownload} className={`${chipClass} w-full`}>
+            {t.snapshot.download}
+          </button>
+          <button type="button" onClick={() => fileInputRef.current?.click()} className={`${chipClass} w-full`}>
+            {t.snapshot.load}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleFile(file);
+            }}
+          />
+
+          {message && <p className="text-xs text-zinc-400">{message}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useI18n } from '@/components/I18nProvider';
+
+interface TransportControlsProps {
+  playing: boolean;
+  onTogglePlay: () => void;
+  onStep: () => void;
+  onReset: () => void;
+  onRestart: () => void;
+  speed: number;
+  onSpeedChange: (speed: number) => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const buttonClass =
+  'rounded-full bg-white/10 p-2 text-white backdrop-blur-sm transition-colors hover:bg-white/20 disabled:opacity-40 disabled:hover:bg-white/10';
+
+export default function TransportControls({
+  playing,
+  onTogglePlay,
+  onStep,
+  onReset,
+  onRestart,
+  speed,
+  onSpeedChange,
+}: TransportControlsProps) {
+  const { t } = useI18n();
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        type="button"
+        onClick={onTogglePlay}
+        className={buttonClass}
+        title={playing ? t.transport.pauseHint : t.transport.playHint}
+        aria-label={playing ? t.transport.pause : t.transport.play}
+      >
+        {playing ? (
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6" />
+          </svg>
+        ) : (
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5v14l11-7z" />
+          </svg>
+        )}
+      </button>
+
+      <button
+        type="button"
+        onClick={onStep}
+        disabled={playing}
+        className={buttonClass}
+        title={t.transport.step}
+        aria-label={t.transport.step}
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 5v14l9-7zM18 5v14" />
+        </svg>
+      </button>
+
+      <button
+        type="button"
+        onClick={onReset}
+        className={buttonClass}
+        title={t.transport.reset}
+        aria-label={t.transport.reset}
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+          />
+        </svg>
+      </button>
+
+      <button
+        type="button"
+        onClick={onRestart}
+        className={buttonClass}
+        title={t.transport.restart}
+        aria-label={t.transport.restart}
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 5v14M18 5v14l-9-7z" />
+        </svg>
+      </button>
+
+      <select
+        value={speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        className="rounded-full bg-white/10 px-2 py-1.5 text-xs text-white backdrop-blur-sm"
+        title={t.transport.speed}
+        aria-label={t.transport.speed}
+      >
+        {SPEEDS.map((value) => (
+          <option key={value} value={value} className="bg-zinc-900">
+            {value}×
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
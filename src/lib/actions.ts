@@ -0,0 +1,35 @@
+/**
+ * Something a sketch can do on request, such as toggling a layer or
+ * resetting a simulation. Bound to keys and listed in the help overlay.
+ */
+export interface SketchAction {
+  /** `KeyboardEvent.key` values; letters match either case */
+  keys: readonly string[];
+  /** Shown in the page's language; sketches take it from `ctx.messages` */
+  label: string;
+  run: () => void;
+}
+
+const keyNames: Record<string, string> = {
+  ' ': 'Space',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+};
+
+/** Display name of a key for the help overlay */
+export function formatKey(key: string): string {
+  return keyNames[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+/** Find the action bound to a key press, ignoring browser shortcuts */
+export function matchAction<A extends SketchAction>(actions: readonly A[], event: KeyboardEvent): A | undefined {
+  if (event.ctrlKey || event.metaKey || event.altKey) return undefined;
+
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  return actions.find((action) =>
+    action.keys.some((binding) => (binding.length === 1 ? binding.toLowerCase() : binding) === key),
+  );
+}
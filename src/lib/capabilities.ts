@@ -0,0 +1,33 @@
+/** Browser features a sketch may depend on */
+export type Capability = 'webgl' | 'pointer';
+
+const detectors: Record<Capability, () => boolean> = {
+  webgl: () => {
+    const canvas = document.createElement('canvas');
+    const gl = canvas.getContext('webgl2') ?? canvas.getContext('webgl');
+    // Browsers cap live contexts, so give the probe's back straight away
+    gl?.getExtension('WEBGL_lose_context')?.loseContext();
+    return gl !== null;
+  },
+  pointer: () => window.matchMedia('(any-pointer: fine), (any-pointer: coarse)').matches,
+};
+
+const detected = new Map<Capability, boolean>();
+
+export function hasCapability(capability: Capability): boolean {
+  let supported = detected.get(capability);
+  if (supported === undefined) {
+    try {
+      supported = detectors[capability]();
+    } catch {
+      supported = false;
+    }
+    detected.set(capability, supported);
+  }
+  return supported;
+}
+
+/** The required capabilities this browser lacks; empty when the sketch can run */
+export function getMissingCapabilities(required: readonly Capability[] = []): Capability[] {
+  return required.filter((capability) => !hasCapability(capability));
+}
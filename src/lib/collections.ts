@@ -0,0 +1,118 @@
+import { getArtwork, isArtworkId, type Artwork, type ArtworkId } from '@/lib/artworks';
+import type { Localized } from '@/lib/i18n';
+
+export interface Collection {
+  id: CollectionId;
+  title: Localized;
+  intro: Localized;
+  /** In viewing order */
+  artworkIds: readonly ArtworkId[];
+  /** Shown on the collection's card; must be one of its artworks */
+  cover: ArtworkId;
+}
+
+interface CollectionEntry extends Omit<Collection, 'id'> {
+  id: string;
+}
+
+/** Every collection in the order the gallery lists them */
+const registry = [
+  {
+    id: 'foundations',
+    title: { en: 'Generative Foundations', ja: 'ジェネラティブアートの基礎' },
+    intro: {
+      en: 'The techniques most generative work is built from: noise fields, particle systems, packing, subdivision and a little shader code, with several pieces made to sit behind a web page.',
+      ja: 'ノイズ、パーティクル、円充填、再帰分割、シェーダーなど、ジェネラティブアートの土台となる技法を集めました。Webサイトの背景として使える作品もあります。',
+    },
+    artworkIds: [
+      'flow-fields', 'physarum', 'reaction-diffusion', 'strange-attractors', 'recursive-subdivision',
+      'circle-packing', 'kinetic-typography', 'audio-reactive', 'shader-art', 'vector-morphing',
+      'constellation', 'voronoi', 'wireframe-terrain', 'magnetic-grid', 'liquid-blobs', 'ascii-rain',
+      'cursor-trail', 'parallax-particles', 'geometric-wave', 'glitch-effect',
+    ],
+    cover: 'flow-fields',
+  },
+  {
+    id: 'mathematical-art',
+    title: { en: 'Mathematical Art', ja: '数学のアート' },
+    intro: {
+      en: 'Curves, attractors, tilings and fields drawn straight from their equations, from the superformula and Fourier epicycles to Apollonian gaskets and domain colouring.',
+      ja: 'スーパーフォーミュラやフーリエ級数からアポロニウスのギャスケット、複素関数の領域彩色まで、数式そのものを描いた作品です。',
+    },
+    artworkIds: [
+      'superformula', 'fourier-series', 'phyllotaxis', 'de-jong-attractor', 'maurer-rose',
+      'voronoi-delaunay', 'complex-domain-coloring', 'chladni-patterns', 'apollonian-gasket',
+      'marching-squares',
+    ],
+    cover: 'phyllotaxis',
+  },
+  {
+    id: 'nature-of-code',
+    title: { en: 'Nature of Code', ja: 'ネイチャー・オブ・コード' },
+    intro: {
+      en: 'Simulations in the spirit of Daniel Shiffman\'s book, moving from random walks and forces through steering and flocking to evolution and neural networks.',
+      ja: 'ダニエル・シフマンの著書に倣い、ランダムウォークや力学から、群れの行動、進化、ニューラルネットワークへと進むシミュレーション集です。',
+    },
+    artworkIds: [
+      'levy-flight', 'gravitational-attractor', 'double-pendulum', 'particle-painting',
+      'autonomous-agents', 'flocking', 'cellular-automata', 'fractal-tree', 'genetic-algorithm',
+      'neural-creatures',
+    ],
+    cover: 'flocking',
+  },
+] as const satisfies readonly CollectionEntry[];
+
+export type CollectionId = (typeof registry)[number]['id'];
+
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// Collection ids are URL slugs, so check them the same way artwork ids are checked
+function validate(entries: readonly CollectionEntry[]) {
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    if (!ID_PATTERN.test(entry.id)) throw new Error(`Collection id "${entry.id}" must be kebab-case`);
+    if (seen.has(entry.id)) throw new Error(`Collection id "${entry.id}" is registered twice`);
+    seen.add(entry.id);
+    if (entry.artworkIds.length === 0) throw new Error(`Collection "${entry.id}" has no artworks`);
+    if (new Set(entry.artworkIds).size !== entry.artworkIds.length) {
+      throw new Error(`Collection "${entry.id}" lists an artwork twice`);
+    }
+    if (!entry.artworkIds.includes(entry.cover)) {
+      throw new Error(`Collection "${entry.id}" has a cover that isn't one of its artworks`);
+    }
+  }
+}
+
+validate(registry);
+
+export const collections: Collection[] = [...registry];
+
+export function isCollectionId(id: string): id is CollectionId {
+  return collections.some((collection) => collection.id === id);
+}
+
+export function getCollection(id: string): Collection | undefined {
+  return collections.find((collection) => collection.id === id);
+}
+
+/** A collection's artworks in its own order */
+export function getCollectionArtworks(collection: Collection): Artwork[] {
+  return collection.artworkIds.flatMap((id) => getArtwork(id) ?? []);
+}
+
+/** Every collection the artwork appears in, in gallery order */
+export function getCollectionsFor(artworkId: string): Collection[] {
+  return isArtworkId(artworkId)
+    ? collections.filter((collection) => collection.artworkIds.includes(artworkId))
+    : [];
+}
+
+/** The artworks either side of one in a collection; null at either end */
+export function getNeighbours(collection: Collection, artworkId: ArtworkId) {
+  const index = collection.artworkIds.indexOf(artworkId);
+  const at = (position: number) => {
+    const id = collection.artworkIds[position];
+    return id === undefined ? null : (getArtwork(id) ?? null);
+  };
+  return { index, previous: index > 0 ? at(index - 1) : null, next: index < 0 ? null : at(index + 1) };
+}
@@ -0,0 +1,194 @@
+import { isArtworkId } from '@/lib/artworks';
+import { createId } from '@/lib/id';
+import type { ParamValues } from '@/lib/params';
+import { createSeed } from '@/lib/seed';
+
+/** Blend modes a layer can use: the names canvas compositing shares with CSS `mix-blend-mode` */
+export const blendModes = [
+  'normal', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn',
+  'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity',
+] as const;
+export type BlendMode = (typeof blendModes)[number];
+
+// Every layer is a full sketch with its own canvas and frame loop
+export const MAX_LAYERS = 4;
+
+export interface CompositionLayer {
+  id: string;
+  /** Artwork whose sketch renders this layer */
+  artworkId: string;
+  seed: number;
+  params: ParamValues;
+  /** 0–1 */
+  opacity: number;
+  blendMode: BlendMode;
+}
+
+/** Several sketches stacked into one piece, saved in the browser */
+export interface Composition {
+  id: string;
+  title: string;
+  /** Bottom to top */
+  layers: CompositionLayer[];
+  /** Small JPEG data URL of the output when it was saved, for the gallery */
+  preview?: string;
+}
+
+const STORAGE_KEY = 'compositions:v1';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export function createLayer(artworkId: string): CompositionLayer {
+  return { id: createId(), artworkId, seed: createSeed(), params: {}, opacity: 1, blendMode: 'normal' };
+}
+
+/** The composition the composer opens with: flow field trails screened over Voronoi cells */
+export function createComposition(title: string): Composition {
+  return {
+    id: createId(),
+    title,
+    layers: [createLayer('voronoi'), { ...createLayer('flow-fields'), blendMode: 'screen', opacity: 0.8 }],
+  };
+}
+
+function parseLayer(value: unknown): CompositionLayer | null {
+  if (!isRecord(value)) return null;
+
+  const { id, artworkId, seed, params, opacity, blendMode } = value;
+  if (typeof id !== 'string' || typeof artworkId !== 'string' || !isArtworkId(artworkId)) return null;
+  if (typeof seed !== 'number' || !Number.isSafeInteger(seed) || !isRecord(params)) return null;
+  return {
+    id,
+    artworkId,
+    seed,
+    // Parameter values are sanitized against the sketch's schema when applied
+    params: params as ParamValues,
+    opacity: typeof opacity === 'number' ? Math.min(1, Math.max(0, opacity)) : 1,
+    blendMode: blendModes.includes(blendMode as BlendMode) ? (blendMode as BlendMode) : 'normal',
+  };
+}
+
+/** Check a stored composition; layers of artworks that no longer exist are dropped */
+export function parseComposition(value: unknown): Composition | null {
+  if (!isRecord(value)) return null;
+
+  const { id, title, layers, preview } = value;
+  if (typeof id !== 'string' || typeof title !== 'string' || !Array.isArray(layers)) return null;
+
+  const parsed = layers.map(parseLayer).filter((layer): layer is CompositionLayer => layer !== null);
+  if (parsed.length === 0) return null;
+  return {
+    id,
+    title,
+    layers: parsed.slice(0, MAX_LAYERS),
+    preview: typeof preview === 'string' && preview.startsWith('data:image/') ? preview : undefined,
+  };
+}
+
+export interface CompositeSource {
+  canvas: HTMLCanvasElement;
+  opacity: number;
+  blendMode: BlendMode;
+}
+
+/**
+ * Draw the layers' canvases onto one output, bottom first, each blended with
+ * everything beneath it. Layers are stretched to the output's size.
+ */
+export function drawComposite(target: CanvasRenderingContext2D, sources: CompositeSource[]) {
+  const { width, height } = target.canvas;
+  target.save();
+  target.globalCompositeOperation = 'source-over';
+  target.globalAlpha = 1;
+  target.fillStyle = '#000';
+  target.fillRect(0, 0, width, height);
+
+  for (const { canvas, opacity, blendMode } of sources) {
+    if (canvas.width === 0 || canvas.height === 0) continue;
+    target.globalAlpha = opacity;
+    target.globalCompositeOperation = blendMode === 'normal' ? 'source-over' : blendMode;
+    target.drawImage(canvas, 0, 0, width, height);
+  }
+  target.restore();
+}
+
+// Previews are stored with the composition, so they are kept small
+const PREVIEW_WIDTH = 480;
+
+/** A small JPEG of a composite for `Composition.preview` */
+export function capturePreview(canvas: HTMLCanvasElement): string | undefined {
+  if (canvas.width === 0 || canvas.height === 0) return undefined;
+
+  const preview = document.createElement('canvas');
+  preview.width = PREVIEW_WIDTH;
+  preview.height = Math.round((canvas.height / canvas.width) * PREVIEW_WIDTH);
+  const context = preview.getContext('2d');
+  if (!context) return undefined;
+  context.drawImage(canvas, 0, 0, preview.width, preview.height);
+  return preview.toDataURL('image/jpeg', 0.8);
+}
+
+export function listCompositions(): Composition[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.map(parseComposition).filter((composition): composition is Composition => composition !== null);
+  } catch {
+    // Storage can be unavailable (private mode, disabled cookies) or hold damaged data
+    return [];
+  }
+}
+
+// Components read the list through `useSyncExternalStore`, which needs the
+// same array back until it changes
+let cached: Composition[] | null = null;
+const listeners = new Set<() => void>();
+const noCompositions: Composition[] = [];
+
+const notify = () => listeners.forEach((listener) => listener());
+
+/** Get told when compositions are saved or deleted, in this tab or another one */
+export function subscribeCompositions(listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    cached = null;
+    listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+export function getSavedCompositions(): Composition[] {
+  cached ??= listCompositions();
+  return cached;
+}
+
+/** The server has no saved compositions; the browser's show up after hydration */
+export function getNoCompositions(): Composition[] {
+  return noCompositions;
+}
+
+function writeCompositions(compositions: Composition[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(compositions));
+  cached = compositions;
+  notify();
+}
+
+/** Store a composition, replacing an earlier save with the same id */
+export function saveComposition(composition: Composition): Composition[] {
+  const compositions = listCompositions().filter((saved) => saved.id !== composition.id);
+  compositions.unshift(composition);
+  writeCompositions(compositions);
+  return compositions;
+}
+
+export function deleteComposition(id: string): Composition[] {
+  const compositions = listCompositions().filter((saved) => saved.id !== id);
+  writeCompositions(compositions);
+  return compositions;
+}
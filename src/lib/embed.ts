@@ -0,0 +1,81 @@
+import type { ParamSchema, ParamValue, ParamValues } from '@/lib/params';
+
+/**
+ * Messages between an embedded artwork (`/[locale]/embed/[id]`) and the page
+ * hosting its iframe, sent with `postMessage`. Types are prefixed so they
+ * don't collide with the host page's own messages.
+ *
+ * Commands are ignored until the artwork has sent `artwork:ready`:
+ *
+ *     frame.contentWindow.postMessage({ type: 'artwork:setParams', params: { speed: 2 } }, '*');
+ */
+export type EmbedCommand =
+  /** Change some parameters; unknown keys are ignored and values are clamped to the schema */
+  | { type: 'artwork:setParams'; params: Record<string, ParamValue> }
+  | { type: 'artwork:pause' }
+  | { type: 'artwork:resume' };
+
+/** Messages the embedded artwork posts to its host page */
+export type EmbedEvent =
+  /** The sketch is running; `schema` lists the parameters `artwork:setParams` accepts */
+  | { type: 'artwork:ready'; id: string; seed: number; params: ParamValues; schema: ParamSchema }
+  /** The sketch stopped with an error, or can't run in this browser */
+  | { type: 'artwork:error'; id: string; message: string }
+  /** A parameter changed, from a command or from the sketch itself */
+  | { type: 'artwork:paramChange'; key: string; value: ParamValue }
+  | { type: 'artwork:playback'; playing: boolean };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isParamValue = (value: unknown): value is ParamValue =>
+  typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean';
+
+/** Read a command posted by the host page; null for anything else */
+export function parseEmbedCommand(data: unknown): EmbedCommand | null {
+  if (!isRecord(data)) return null;
+
+  switch (data.type) {
+    case 'artwork:setParams': {
+      if (!isRecord(data.params)) return null;
+      const params = Object.fromEntries(Object.entries(data.params).filter(([, value]) => isParamValue(value)));
+      return { type: data.type, params: params as Record<string, ParamValue> };
+    }
+    case 'artwork:pause':
+    case 'artwork:resume':
+      return { type: data.type };
+    default:
+      return null;
+  }
+}
+
+export interface EmbedOptions {
+  seed?: number;
+  /** Show the host page through the sketch's background */
+  transparent: boolean;
+  /** Leave clicks to the host page; pointer-driven pieces wander on their own */
+  passthrough: boolean;
+}
+
+/** Query string of an embed URL; options that are off are left out */
+export function embedQuery(options: EmbedOptions): URLSearchParams {
+  const query = new URLSearchParams();
+  if (options.seed !== undefined) query.set('seed', String(options.seed));
+  if (options.transparent) query.set('transparent', '1');
+  if (options.passthrough) query.set('passthrough', '1');
+  return query;
+}
+
+export function parseEmbedOptions(query: URLSearchParams): Omit<EmbedOptions, 'seed'> {
+  return { transparent: query.get('transparent') === '1', passthrough: query.get('passthrough') === '1' };
+}
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** HTML for an iframe showing an artwork on another site */
+export function embedSnippet(src: string, title: string, options: EmbedOptions): string {
+  // The iframe itself has to let clicks through; the embedded page can't
+  const style = options.passthrough ? 'border:0;pointer-events:none' : 'border:0';
+  return `<iframe src="${escapeAttribute(src)}" title="${escapeAttribute(title)}" width="800" height="450" style="${style}" loading="lazy"></iframe>`;
+}
@@ -0,0 +1,162 @@
+import type { Sketch } from '@/components/P5Wrapper';
+import { mountOffscreen, type OffscreenSketch } from '@/lib/offscreen';
+import { createPngEncoder } from '@/lib/png';
+import { FIXED_STEP, type SketchState, type Viewport } from '@/lib/sketchRuntime';
+
+/** Largest side we will encode; the band buffer grows with the width */
+export const MAX_EXPORT_SIZE = 16384;
+
+// Tiles stay well inside every browser's canvas and WebGL texture limits
+const TILE_WIDTH = 4096;
+const TILE_HEIGHT = 2048;
+
+/**
+ * Longest stretch of simulated time an export replays. Every tile starts the
+ * sketch over, so a long session would otherwise mean tens of thousands of
+ * frames per tile on the main thread.
+ */
+export const MAX_REPLAY_SECONDS = 60;
+
+export interface ExportImageOptions {
+  /** Output size in pixels */
+  width: number;
+  height: number;
+  /** Data from the sketch's `onSerialize`, such as a drawing or hand-placed points */
+  restore?: unknown;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface ExportedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  /**
+   * False when the sketch pins its own pixel density (pixel-buffer
+   * simulations), in which case it was exported at its native resolution.
+   */
+  scaled: boolean;
+  /**
+   * True when the session had run longer than `MAX_REPLAY_SECONDS`, so the
+   * image shows the piece at that point rather than as it is on screen.
+   */
+  shortened: boolean;
+}
+
+/**
+ * Re-render a sketch from `state` at an arbitrary resolution and encode it
+ * as a PNG.
+ *
+ * The sketch keeps a logical size close to the on-screen one (so layout and
+ * stroke weights look the same) and is supersampled via pixel density. When
+ * the result would not fit in one canvas it is rendered tile by tile, each
+ * tile replaying the same seed, parameters, saved sketch data and simulated
+ * time (up to `MAX_REPLAY_SECONDS`).
+ */
+export async function exportImage(
+  sketch: Sketch,
+  state: SketchState,
+  options: ExportImageOptions,
+): Promise<ExportedImage> {
+  const width = Math.round(options.width);
+  const height = Math.round(options.height);
+  if (width < 1 || height < 1 || width > MAX_EXPORT_SIZE || height > MAX_EXPORT_SIZE) {
+    throw new Error(`Export size must be between 1 and ${MAX_EXPORT_SIZE} pixels per side`);
+  }
+
+  // Match the screen's area so the composition is unchanged at 1x
+  const scale = Math.sqrt((width * height) / (state.width * state.height));
+  const logicalWidth = Math.max(1, Math.round(width / scale));
+  const logicalHeight = Math.max(1, Math.round(height / scale));
+  const density = width / logicalWidth;
+  // A couple of spare device pixels absorb rounding at tile edges
+  const padding = Math.ceil(density) + 1;
+  // Replay the elapsed simulated time in fixed steps, whatever the frame rate was
+  const shortened = state.time > MAX_REPLAY_SECONDS;
+  const frames = Math.max(1, Math.round(Math.min(state.time, MAX_REPLAY_SECONDS) / FIXED_STEP));
+
+  const columns = Math.ceil(width / TILE_WIDTH);
+  const rows = Math.ceil(height / TILE_HEIGHT);
+  const total = columns * rows;
+
+  const mountTile = (viewport?: Viewport, pixelDensity?: number) =>
+    mountOffscreen(sketch, {
+      seed: state.seed,
+      width: logicalWidth,
+      height: logicalHeight,
+      params: state.params,
+      restore: options.restore,
+      fixedTimestep: FIXED_STEP,
+      pixelDensity,
+      viewport,
+    });
+
+  const scratch = document.createElement('canvas');
+  const scratchContext = scratch.getContext('2d', { willReadFrequently: true });
+  if (!scratchContext) throw new Error('Canvas 2D is not available');
+
+  const readPixels = (offscreen: OffscreenSketch, tileWidth: number, tileHeight: number) => {
+    scratch.width = tileWidth;
+    scratch.height = tileHeight;
+    scratchContext.clearRect(0, 0, tileWidth, tileHeight);
+    scratchContext.drawImage(offscreen.canvas, 0, 0, tileWidth, tileHeight, 0, 0, tileWidth, tileHeight);
+    return scratchContext.getImageData(0, 0, tileWidth, tileHeight).data;
+  };
+
+  const encoder = createPngEncoder(width, height);
+
+  for (let row = 0; row < rows; row++) {
+    const top = row * TILE_HEIGHT;
+    const bandHeight = Math.min(TILE_HEIGHT, height - top);
+    const band = new Uint8ClampedArray(width * bandHeight * 4);
+
+    for (let column = 0; column < columns; column++) {
+      const left = column * TILE_WIDTH;
+      const tileWidth = Math.min(TILE_WIDTH, width - left);
+
+      const offscreen = await mountTile(
+        {
+          x: left / density,
+          y: top / density,
+          width: (tileWidth + padding) / density,
+          height: (bandHeight + padding) / density,
+        },
+        density,
+      );
+
+      // Pixel-buffer sketches force their own density; they cannot be
+      // supersampled or tiled, so they are rendered once at native resolution
+      const pinned = offscreen.instance.pixelDensity() !== density;
+      try {
+        if (!pinned) {
+          await offscreen.runtime.step(frames);
+          const pixels = readPixels(offscreen, tileWidth, bandHeight);
+          for (let y = 0; y < bandHeight; y++) {
+            band.set(pixels.subarray(y * tileWidth * 4, (y + 1) * tileWidth * 4), (y * width + left) * 4);
+          }
+        }
+      } finally {
+        offscreen.remove();
+      }
+      if (pinned) return { ...(await exportNative(await mountTile(), frames)), shortened };
+
+      options.onProgress?.(row * columns + column + 1, total);
+    }
+
+    await encoder.addRows(band, bandHeight);
+  }
+
+  return { blob: await encoder.finish(), width, height, scaled: true, shortened };
+}
+
+async function exportNative(offscreen: OffscreenSketch, frames: number) {
+  try {
+    await offscreen.runtime.step(frames);
+    const { canvas } = offscreen;
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Failed to encode PNG');
+    // The canvas's own pixel size, whatever size was asked for
+    return { blob, width: canvas.width, height: canvas.height, scaled: false };
+  } finally {
+    offscreen.remove();
+  }
+}
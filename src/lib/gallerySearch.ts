@@ -0,0 +1,123 @@
+import { difficulties, tags, type Artwork, type Difficulty, type Tag } from '@/lib/artworks';
+import { collections, getCollection, isCollectionId, type CollectionId } from '@/lib/collections';
+import type { Locale } from '@/lib/i18n';
+
+export const sortOrders = ['gallery', 'title', 'easiest', 'hardest'] as const;
+export type SortOrder = (typeof sortOrders)[number];
+
+export interface GalleryFilters {
+  query: string;
+  /** An artwork must carry every selected tag */
+  tags: Tag[];
+  difficulty: Difficulty | null;
+  collection: CollectionId | null;
+  sort: SortOrder;
+}
+
+export const emptyFilters: GalleryFilters = { query: '', tags: [], difficulty: null, collection: null, sort: 'gallery' };
+
+const isTag = (value: string): value is Tag => (tags as readonly string[]).includes(value);
+const isDifficulty = (value: string | null): value is Difficulty =>
+  (difficulties as readonly (string | null)[]).includes(value);
+const isSortOrder = (value: string | null): value is SortOrder =>
+  (sortOrders as readonly (string | null)[]).includes(value);
+
+/** Read filters from a query string, dropping values that aren't in the vocabulary */
+export function parseFilters(query: URLSearchParams): GalleryFilters {
+  const difficulty = query.get('difficulty');
+  const collection = query.get('collection');
+  const sort = query.get('sort');
+  return {
+    query: query.get('q') ?? '',
+    tags: [...new Set(query.getAll('tag').filter(isTag))],
+    difficulty: isDifficulty(difficulty) ? difficulty : null,
+    collection: collection !== null && isCollectionId(collection) ? collection : null,
+    sort: isSortOrder(sort) ? sort : 'gallery',
+  };
+}
+
+/** The query string for a set of filters; defaults are left out to keep links short */
+export function filtersToQuery(filters: GalleryFilters): URLSearchParams {
+  const query = new URLSearchParams();
+  if (filters.query.trim()) query.set('q', filters.query);
+  for (const tag of filters.tags) query.append('tag', tag);
+  if (filters.difficulty) query.set('difficulty', filters.difficulty);
+  if (filters.collection) query.set('collection', filters.collection);
+  if (filters.sort !== 'gallery') query.set('sort', filters.sort);
+  return query;
+}
+
+function matchesQuery(artwork: Artwork, query: string) {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+
+  // Every language's text, so a search finds an artwork whichever language it was typed in
+  const text = [...Object.values(artwork.title), ...Object.values(artwork.description), ...artwork.tags]
+    .join('\n')
+    .toLowerCase();
+  return words.every((word) => text.includes(word));
+}
+
+const matchesTags = (artwork: Artwork, selected: readonly Tag[]) =>
+  selected.every((tag) => artwork.tags.includes(tag));
+
+const matchesCollection = (artwork: Artwork, collection: CollectionId | null) =>
+  collection === null || getCollection(collection)?.artworkIds.includes(artwork.id) === true;
+
+function compare(sort: SortOrder, locale: Locale) {
+  const rank = (artwork: Artwork) => difficulties.indexOf(artwork.difficulty);
+  switch (sort) {
+    case 'title':
+      return (a: Artwork, b: Artwork) => a.title[locale].localeCompare(b.title[locale], locale);
+    case 'easiest':
+      return (a: Artwork, b: Artwork) => rank(a) - rank(b);
+    case 'hardest':
+      return (a: Artwork, b: Artwork) => rank(b) - rank(a);
+    case 'gallery':
+      return null;
+  }
+}
+
+const matches = (artwork: Artwork, filters: GalleryFilters) =>
+  matchesQuery(artwork, filters.query) &&
+  matchesTags(artwork, filters.tags) &&
+  (filters.difficulty === null || artwork.difficulty === filters.difficulty) &&
+  matchesCollection(artwork, filters.collection);
+
+/** Artworks matching every filter, in the requested order (the sort is stable) */
+export function filterArtworks(all: readonly Artwork[], filters: GalleryFilters, locale: Locale): Artwork[] {
+  const matching = all.filter((artwork) => matches(artwork, filters));
+  const order = compare(filters.sort, locale);
+  return order ? matching.sort(order) : matching;
+}
+
+export interface FacetCounts {
+  /** Matches per difficulty, counted as if that difficulty were picked */
+  difficulties: Record<Difficulty, number>;
+  /** Matches per collection, counted as if that collection were picked */
+  collections: Record<CollectionId, number>;
+  /** Matches per tag among the current results; tags with none are left out */
+  tags: Map<Tag, number>;
+}
+
+export function countFacets(all: readonly Artwork[], filters: GalleryFilters): FacetCounts {
+  const anyDifficulty = all.filter((artwork) => matches(artwork, { ...filters, difficulty: null }));
+  const anyCollection = all.filter((artwork) => matches(artwork, { ...filters, collection: null }));
+  const counts: FacetCounts = {
+    difficulties: { easy: 0, medium: 0, hard: 0 },
+    collections: Object.fromEntries(
+      collections.map((collection) => [
+        collection.id,
+        anyCollection.filter((artwork) => collection.artworkIds.includes(artwork.id)).length,
+      ]),
+    ) as Record<CollectionId, number>,
+    tags: new Map(),
+  };
+
+  for (const artwork of anyDifficulty) {
+    counts.difficulties[artwork.difficulty]++;
+    if (filters.difficulty !== null && artwork.difficulty !== filters.difficulty) continue;
+    for (const tag of artwork.tags) counts.tags.set(tag, (counts.tags.get(tag) ?? 0) + 1);
+  }
+  return counts;
+}
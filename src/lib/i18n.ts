@@ -0,0 +1,75 @@
+import { en, type Messages } from '@/messages/en';
+import { ja } from '@/messages/ja';
+
+export type { Messages };
+
+export const locales = ['en', 'ja'] as const;
+export type Locale = (typeof locales)[number];
+
+export const defaultLocale: Locale = 'en';
+
+/** One value per locale, e.g. an artwork's title */
+export type Localized<T = string> = Record<Locale, T>;
+
+/** Each language's name in that language, for the switcher */
+export const localeNames: Localized = {
+  en: 'English',
+  ja: '日本語',
+};
+
+/** Remembers the reader's choice of language across visits */
+export const LOCALE_COOKIE = 'locale';
+
+const catalogs: Record<Locale, Messages> = { en, ja };
+
+export function isLocale(value: string | null | undefined): value is Locale {
+  return (locales as readonly (string | null | undefined)[]).includes(value);
+}
+
+export function getMessages(locale: Locale): Messages {
+  return catalogs[locale];
+}
+
+/** Best locale for an Accept-Language header, by quality then order */
+export function matchLocale(acceptLanguage: string | null): Locale {
+  const ranked = (acceptLanguage ?? '')
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...options] = part.trim().split(';');
+      const quality = options.find((option) => option.trim().startsWith('q='));
+      return { language: tag.split('-')[0].toLowerCase(), q: quality ? Number(quality.trim().slice(2)) : 1, index };
+    })
+    .filter(({ q }) => q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+  const match = ranked.find(({ language }) => isLocale(language));
+  return match ? (match.language as Locale) : defaultLocale;
+}
+
+/** A site path under a locale: `/art/voronoi` → `/ja/art/voronoi` */
+export function localePath(locale: Locale, path: string): string {
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
+
+/** A site path in every locale, for hreflang links and the sitemap */
+export function localeAlternates(path: string): Localized {
+  return Object.fromEntries(locales.map((locale) => [locale, localePath(locale, path)])) as Localized;
+}
+
+/** Swap the locale prefix of a path, keeping the rest of it */
+export function switchLocale(pathname: string, locale: Locale): string {
+  const [, first, ...rest] = pathname.split('/');
+  const path = isLocale(first) ? `/${rest.join('/')}` : pathname;
+  return localePath(locale, path === '/' || path === '' ? '/' : path);
+}
+
+/** Labels of an artwork's parameters and quality knobs, by key */
+export function getControlLabels(messages: Messages, artworkId: string): Readonly<Record<string, string>> {
+  const sketch: object | undefined = messages.sketches[artworkId as keyof Messages['sketches']];
+  return sketch && 'controls' in sketch ? (sketch.controls as Record<string, string>) : {};
+}
+
+/** How an artwork responds to the mouse and touch, if it does */
+export function getPointerHint(messages: Messages, artworkId: string): string | undefined {
+  const sketch: object | undefined = messages.sketches[artworkId as keyof Messages['sketches']];
+  return sketch && 'hint' in sketch ? (sketch.hint as string) : undefined;
+}
@@ -0,0 +1,4 @@
+/** Short random id for things saved in the browser; not crypto.randomUUID, which needs a secure origin */
+export function createId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
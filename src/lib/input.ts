@@ -0,0 +1,284 @@
+export interface SketchPointer {
+  id: number;
+  type: 'mouse' | 'pen' | 'touch';
+  /** Position in canvas pixels */
+  x: number;
+  y: number;
+  /** Movement since the previous event for this pointer */
+  dx: number;
+  dy: number;
+  /** Smoothed velocity in pixels per second; zero once the pointer rests */
+  vx: number;
+  vy: number;
+  /** 0–1. Devices without pressure sensing report 0.5 while pressed */
+  pressure: number;
+  /** A button is held, or the finger or pen is touching */
+  pressed: boolean;
+  /** Milliseconds timestamp of the last event */
+  time: number;
+}
+
+/** Live pointer state, updated in place as events arrive */
+export interface SketchInput {
+  /** Hovering mice and pens, plus every finger on the screen */
+  readonly pointers: readonly SketchPointer[];
+  /** The mouse, or the first finger; what single-pointer sketches follow */
+  readonly primary: SketchPointer | null;
+  /** Last known position of the primary pointer; kept after it leaves */
+  readonly x: number;
+  readonly y: number;
+  /** Whether the primary pointer is pressed */
+  readonly pressed: boolean;
+}
+
+/** Two-finger pinch and pan, or a mouse wheel zoom */
+export interface Gesture {
+  /** Centre of the gesture in canvas pixels */
+  x: number;
+  y: number;
+  /** Scale change since the previous event; above 1 means zoom in */
+  zoom: number;
+  /** Movement of the centre since the previous event */
+  panX: number;
+  panY: number;
+}
+
+export interface InputHooks {
+  onPointerDown?: (pointer: SketchPointer) => void;
+  /** Called for every move, pressed or hovering; check `pointer.pressed` for drags */
+  onPointerMove?: (pointer: SketchPointer) => void;
+  onPointerUp?: (pointer: SketchPointer) => void;
+  onGesture?: (gesture: Gesture) => void;
+}
+
+export interface PointerInput {
+  input: SketchInput;
+  /**
+   * Start listening for pointer events on the sketch's canvas. Pass `drags`
+   * for sketches that follow pressed pointers without a move hook.
+   */
+  attach: (canvas: HTMLCanvasElement, hooks: InputHooks, options?: { drags?: boolean }) => void;
+  /** Called once per frame, before `draw` */
+  update: (now: number) => void;
+  /**
+   * Move a synthetic mouse to a position, for unattended displays. It is
+   * dropped as soon as a real pointer comes over the canvas.
+   */
+  steer: (x: number, y: number, now: number) => void;
+}
+
+// Weight of the newest sample in the smoothed velocity
+const VELOCITY_SMOOTHING = 0.5;
+// Pointers that haven't moved for this many milliseconds count as resting
+const REST_AFTER = 50;
+// Zoom factor per pixel of wheel scrolling
+const WHEEL_ZOOM = 0.002;
+const WHEEL_LINE_HEIGHT = 16;
+// Pointer Events ids are never negative, so this can't clash with a real pointer
+const SYNTHETIC_ID = -1;
+
+type Pinch = { distance: number; x: number; y: number };
+
+/**
+ * Normalizes Pointer Events into a list of active pointers and two-finger
+ * gestures, so sketches work the same with a mouse, a pen or touch.
+ */
+export function createPointerInput(): PointerInput {
+  const pointers: SketchPointer[] = [];
+  const input = { pointers, primary: null as SketchPointer | null, x: 0, y: 0, pressed: false };
+  let pinch: Pinch | null = null;
+  let hooks: InputHooks = {};
+
+  const touches = () => pointers.filter((pointer) => pointer.type === 'touch' && pointer.pressed);
+
+  const measurePinch = (): Pinch | null => {
+    const [a, b] = touches();
+    if (!a || !b) return null;
+    return { distance: Math.hypot(a.x - b.x, a.y - b.y), x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  };
+
+  const syncPrimary = () => {
+    input.pressed = input.primary?.pressed ?? false;
+    if (input.primary) {
+      input.x = input.primary.x;
+      input.y = input.primary.y;
+    }
+  };
+
+  const remove = (pointer: SketchPointer) => {
+    pointers.splice(pointers.indexOf(pointer), 1);
+    if (input.primary === pointer) input.primary = null;
+    syncPrimary();
+  };
+
+  const attach = (canvas: HTMLCanvasElement, inputHooks: InputHooks, { drags = false } = {}) => {
+    hooks = inputHooks;
+    // Sketches that follow drags or pinches handle touches themselves, so the
+    // page mustn't scroll or zoom under them; over the rest it still scrolls
+    const handlesTouch = drags || hooks.onPointerMove || hooks.onPointerUp || hooks.onGesture;
+    canvas.style.touchAction = handlesTouch ? 'none' : 'pan-y';
+
+    const locate = (event: PointerEvent | WheelEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      const scale = rect.width > 0 ? canvas.clientWidth / rect.width : 1;
+      return { x: (event.clientX - rect.left) * scale, y: (event.clientY - rect.top) * scale };
+    };
+
+    const track = (event: PointerEvent): SketchPointer => {
+      let pointer = pointers.find((candidate) => candidate.id === event.pointerId);
+      const { x, y } = locate(event);
+
+      if (!pointer) {
+        pointer = {
+          id: event.pointerId,
+          type: event.pointerType === 'pen' || event.pointerType === 'touch' ? event.pointerType : 'mouse',
+          x,
+          y,
+          dx: 0,
+          dy: 0,
+          vx: 0,
+          vy: 0,
+          pressure: 0,
+          pressed: false,
+          time: event.timeStamp,
+        };
+        pointers.push(pointer);
+      } else {
+        const elapsed = (event.timeStamp - pointer.time) / 1000;
+        pointer.dx = x - pointer.x;
+        pointer.dy = y - pointer.y;
+        if (elapsed > 0) {
+          pointer.vx += (pointer.dx / elapsed - pointer.vx) * VELOCITY_SMOOTHING;
+          pointer.vy += (pointer.dy / elapsed - pointer.vy) * VELOCITY_SMOOTHING;
+        }
+        pointer.x = x;
+        pointer.y = y;
+        pointer.time = event.timeStamp;
+      }
+
+      pointer.pressed = event.buttons !== 0;
+      pointer.pressure = pointer.pressed ? event.pressure || 0.5 : 0;
+      if (event.isPrimary) input.primary = pointer;
+      syncPrimary();
+      return pointer;
+    };
+
+    canvas.addEventListener('pointerdown', (event) => {
+      canvas.setPointerCapture(event.pointerId);
+      const pointer = track(event);
+      pointer.dx = 0;
+      pointer.dy = 0;
+      pinch = measurePinch();
+      hooks.onPointerDown?.(pointer);
+    });
+
+    canvas.addEventListener('pointermove', (event) => {
+      const pointer = track(event);
+      hooks.onPointerMove?.(pointer);
+
+      if (pinch && pointer.type === 'touch') {
+        const next = measurePinch();
+        if (!next) return;
+        hooks.onGesture?.({
+          x: next.x,
+          y: next.y,
+          zoom: pinch.distance > 0 ? next.distance / pinch.distance : 1,
+          panX: next.x - pinch.x,
+          panY: next.y - pinch.y,
+        });
+        pinch = next;
+      }
+    });
+
+    const release = (event: PointerEvent) => {
+      const pointer = pointers.find((candidate) => candidate.id === event.pointerId);
+      if (!pointer) return;
+
+      const wasPressed = pointer.pressed;
+      pointer.pressed = false;
+      pointer.pressure = 0;
+      // Mice and pens keep hovering; fingers are gone
+      if (pointer.type === 'touch' || event.type !== 'pointerup') {
+        remove(pointer);
+      } else {
+        syncPrimary();
+      }
+
+      pinch = measurePinch();
+      if (wasPressed) hooks.onPointerUp?.(pointer);
+    };
+
+    canvas.addEventListener('pointerup', release);
+    canvas.addEventListener('pointercancel', release);
+    canvas.addEventListener('pointerleave', (event) => {
+      const pointer = pointers.find((candidate) => candidate.id === event.pointerId);
+      // Captured drags keep going outside the canvas until released
+      if (pointer && !pointer.pressed) remove(pointer);
+    });
+
+    canvas.addEventListener(
+      'wheel',
+      (event) => {
+        if (!hooks.onGesture) return;
+        event.preventDefault();
+        const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * WHEEL_LINE_HEIGHT : event.deltaY;
+        hooks.onGesture({ ...locate(event), zoom: Math.exp(-delta * WHEEL_ZOOM), panX: 0, panY: 0 });
+      },
+      { passive: false },
+    );
+  };
+
+  const steer = (x: number, y: number, now: number) => {
+    let pointer = pointers.find((candidate) => candidate.id === SYNTHETIC_ID);
+    if (pointers.some((candidate) => candidate.id !== SYNTHETIC_ID)) {
+      if (pointer) remove(pointer);
+      return;
+    }
+
+    if (!pointer) {
+      pointer = {
+        id: SYNTHETIC_ID,
+        type: 'mouse',
+        x,
+        y,
+        dx: 0,
+        dy: 0,
+        vx: 0,
+        vy: 0,
+        pressure: 0,
+        pressed: false,
+        time: now,
+      };
+      pointers.push(pointer);
+    } else {
+      const elapsed = (now - pointer.time) / 1000;
+      pointer.dx = x - pointer.x;
+      pointer.dy = y - pointer.y;
+      if (elapsed > 0) {
+        pointer.vx += (pointer.dx / elapsed - pointer.vx) * VELOCITY_SMOOTHING;
+        pointer.vy += (pointer.dy / elapsed - pointer.vy) * VELOCITY_SMOOTHING;
+      }
+      pointer.x = x;
+      pointer.y = y;
+      pointer.time = now;
+    }
+
+    input.primary = pointer;
+    syncPrimary();
+    hooks.onPointerMove?.(pointer);
+  };
+
+  return {
+    input,
+    attach,
+    steer,
+    update: (now) => {
+      for (const pointer of pointers) {
+        if (now - pointer.time > REST_AFTER) {
+          pointer.vx = 0;
+          pointer.vy = 0;
+        }
+      }
+    },
+  };
+}
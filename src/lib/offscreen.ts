@@ -0,0 +1,56 @@
+import type p5 from 'p5';
+import type { Sketch } from '@/components/P5Wrapper';
+import { createSketchRuntime, type SketchRuntime, type SketchRuntimeOptions } from '@/lib/sketchRuntime';
+
+export interface OffscreenSketch {
+  runtime: SketchRuntime;
+  instance: p5;
+  canvas: HTMLCanvasElement;
+  /** Tear down the p5 instance and its hidden container */
+  remove: () => void;
+}
+
+const nextTask = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Start a paused copy of a sketch in a hidden container. Frames are advanced
+ * with `runtime.step`; the caller must `remove` it when done. Rejects, and
+ * later `step`s throw, when the sketch does.
+ */
+export async function mountOffscreen(
+  sketch: Sketch,
+  options: Omit<SketchRuntimeOptions, 'autoplay' | 'onReady' | 'onError'>,
+): Promise<OffscreenSketch> {
+  const { default: P5 } = await import('p5');
+
+  const container = document.createElement('div');
+  container.style.cssText = `position:fixed;left:-100000px;top:0;width:${options.width}px;height:${options.height}px;visibility:hidden;`;
+  document.body.appendChild(container);
+
+  let ready!: () => void;
+  let failed!: (error: Error) => void;
+  const whenReady = new Promise<void>((resolve, reject) => {
+    ready = resolve;
+    failed = reject;
+  });
+
+  const runtime = createSketchRuntime(sketch, { ...options, autoplay: false, onReady: ready, onError: failed });
+  const instance = new P5(runtime.run, container);
+  const remove = () => {
+    instance.remove();
+    container.remove();
+  };
+
+  try {
+    await whenReady;
+    // Let p5 finish its post-setup bookkeeping before stepping
+    await nextTask();
+
+    const canvas = container.querySelector('canvas');
+    if (!canvas) throw new Error('Sketch did not create a canvas');
+    return { runtime, instance, canvas, remove };
+  } catch (error) {
+    remove();
+    throw error;
+  }
+}
@@ -0,0 +1,90 @@
+export interface NumberParam {
+  type: 'number';
+  min: number;
+  max: number;
+  step?: number;
+  default: number;
+}
+
+export interface EnumParam {
+  type: 'enum';
+  options: readonly string[];
+  default: string;
+}
+
+export interface ColorParam {
+  type: 'color';
+  /** Hex color in `#rrggbb` form */
+  default: string;
+}
+
+export interface BooleanParam {
+  type: 'boolean';
+  default: boolean;
+}
+
+export type ParamSpec = NumberParam | EnumParam | ColorParam | BooleanParam;
+
+/** Labels are UI text, kept in the message catalog under `sketches[artworkId].controls` */
+export type ParamSchema = Record<string, ParamSpec>;
+
+export type ParamValue = number | string | boolean;
+
+export type ParamValues<S extends ParamSchema = ParamSchema> = {
+  [K in keyof S]: S[K]['default'];
+};
+
+const hexColorPattern = /^#[0-9a-f]{6}$/i;
+
+export function getDefaultParams(schema: ParamSchema | undefined): ParamValues {
+  const values: ParamValues = {};
+  if (!schema) return values;
+
+  for (const [key, spec] of Object.entries(schema)) {
+    values[key] = spec.default;
+  }
+  return values;
+}
+
+/**
+ * Coerce an arbitrary value into something valid for the given spec,
+ * falling back to the spec's default when it cannot be interpreted.
+ */
+export function sanitizeParam(spec: ParamSpec, value: unknown): ParamValue {
+  switch (spec.type) {
+    case 'number': {
+      const n = typeof value === 'number' ? value : Number(value);
+      if (!Number.isFinite(n)) return spec.default;
+      return Math.min(spec.max, Math.max(spec.min, n));
+    }
+    case 'enum':
+      return typeof value === 'string' && spec.options.includes(value) ? value : spec.default;
+    case 'color':
+      return typeof value === 'string' && hexColorPattern.test(value) ? value.toLowerCase() : spec.default;
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === '1') return true;
+      if (value === 'false' || value === '0') return false;
+      return spec.default;
+  }
+}
+
+/** Sanitize every parameter in a schema, using defaults for missing or unknown values */
+export function sanitizeParams(schema: ParamSchema | undefined, values: Record<string, unknown>): ParamValues {
+  const sanitized: ParamValues = {};
+  if (!schema) return sanitized;
+
+  for (const [key, spec] of Object.entries(schema)) {
+    sanitized[key] = key in values ? sanitizeParam(spec, values[key]) : spec.default;
+  }
+  return sanitized;
+}
+
+export function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  const value = parseInt(hex.slice(1), 16);
+  return {
+    r: (value >> 16) & 255,
+    g: (value >> 8) & 255,
+    b: value & 255,
+  };
+}
@@ -0,0 +1,126 @@
+// Frames kept for the frame-time graph
+const HISTORY_SIZE = 120;
+// Weight of the newest frame in the smoothed averages
+const SMOOTHING = 0.1;
+
+export interface PhaseTiming {
+  name: string;
+  /** Smoothed milliseconds per frame */
+  time: number;
+}
+
+export interface FrameStatsSnapshot {
+  fps: number;
+  /** Smoothed milliseconds between frames */
+  frameTime: number;
+  /** Smoothed milliseconds spent inside the sketch's `draw` */
+  drawTime: number;
+  /** Named parts of `draw`, see `FrameStats.measure` */
+  phases: PhaseTiming[];
+  /** Recent milliseconds between frames, oldest first */
+  history: number[];
+}
+
+export interface FrameStats {
+  /** Time a named part of the current frame */
+  measure: <T>(phase: string, fn: () => T) => T;
+  /**
+   * Record a finished frame. `interval` is null when there is no previous
+   * frame to compare with, e.g. when stepping while paused.
+   */
+  endFrame: (interval: number | null, drawTime: number) => void;
+  snapshot: () => FrameStatsSnapshot;
+}
+
+const smooth = (average: number, value: number) => (average === 0 ? value : average + (value - average) * SMOOTHING);
+
+export function createFrameStats(): FrameStats {
+  const history: number[] = [];
+  const phases = new Map<string, number>();
+  const current = new Map<string, number>();
+  let frameTime = 0;
+  let drawTime = 0;
+
+  return {
+    measure: (phase, fn) => {
+      const start = performance.now();
+      try {
+        return fn();
+      } finally {
+        current.set(phase, (current.get(phase) ?? 0) + performance.now() - start);
+      }
+    },
+    endFrame: (interval, draw) => {
+      drawTime = smooth(drawTime, draw);
+      for (const [phase, time] of current) {
+        phases.set(phase, smooth(phases.get(phase) ?? 0, time));
+      }
+      current.clear();
+
+      if (interval === null) return;
+      frameTime = smooth(frameTime, interval);
+      history.push(interval);
+      if (history.length > HISTORY_SIZE) history.shift();
+    },
+    snapshot: () => ({
+      fps: frameTime > 0 ? 1000 / frameTime : 0,
+      frameTime,
+      drawTime,
+      phases: [...phases].map(([name, time]) => ({ name, time })),
+      history: [...history],
+    }),
+  };
+}
+
+// Frames averaged before each quality decision
+const WINDOW = 30;
+// Drop quickly when struggling, recover slowly so the level doesn't oscillate
+const LOWER_STEP = 0.15;
+const RAISE_STEP = 0.05;
+// Frames this much over budget count as missed
+const SLOW_FRAME = 1.2;
+// Only raise quality while drawing leaves this share of the budget unused
+const HEADROOM = 0.4;
+
+export interface QualityGovernor {
+  /** Feed one played frame; returns how much to change the quality level by */
+  update: (interval: number, drawTime: number) => number;
+  reset: () => void;
+}
+
+/**
+ * Decides when to lower or raise the quality level to hold a target frame
+ * rate. Only frames where the sketch's own drawing is a large part of the
+ * budget count against it, so a busy browser doesn't degrade every sketch.
+ */
+export function createQualityGovernor(targetFps: number): QualityGovernor {
+  const budget = 1000 / targetFps;
+  let frames = 0;
+  let intervalSum = 0;
+  let drawSum = 0;
+
+  const reset = () => {
+    frames = 0;
+    intervalSum = 0;
+    drawSum = 0;
+  };
+
+  return {
+    update: (interval, drawTime) => {
+      frames++;
+      intervalSum += interval;
+      drawSum += drawTime;
+      if (frames < WINDOW) return 0;
+
+      const averageInterval = intervalSum / frames;
+      const averageDraw = drawSum / frames;
+      reset();
+
+      const slow = averageInterval > budget * SLOW_FRAME;
+      if (averageDraw > budget || (slow && averageDraw > budget * 0.5)) return -LOWER_STEP;
+      if (!slow && averageDraw < budget * HEADROOM) return RAISE_STEP;
+      return 0;
+    },
+    reset,
+  };
+}
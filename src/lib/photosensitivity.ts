@@ -0,0 +1,165 @@
+// WCAG 2.3.1: no more than three general flashes in any one second. A flash
+// is a pair of opposing changes in relative luminance of at least 10%, where
+// the darker state is below 80%, over at least a quarter of the view.
+const MAX_FLASHES_PER_SECOND = 3;
+const LUMINANCE_CHANGE = 0.1;
+const DARK_LIMIT = 0.8;
+const AREA = 0.25;
+
+// Frames are compared on a coarse grid; flashes big enough to matter span many cells
+const GRID_COLUMNS = 16;
+const GRID_ROWS = 9;
+// Share of the previous frame kept in each new one while flashing is limited
+const HOLD = 0.85;
+// Keep limiting this long after the last burst, so damping doesn't flicker on and off
+const COOLDOWN = 2000;
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/** Whether the viewer has asked the system for less motion */
+export function prefersReducedMotion(): boolean {
+  return typeof window !== 'undefined' && window.matchMedia?.(REDUCED_MOTION_QUERY).matches === true;
+}
+
+/** Follow the reduced motion preference as it changes; returns an unsubscribe function */
+export function watchReducedMotion(onChange: (reduced: boolean) => void): () => void {
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  const listener = (event: MediaQueryListEvent) => onChange(event.matches);
+  query.addEventListener('change', listener);
+  return () => query.removeEventListener('change', listener);
+}
+
+// Relative luminance of each sRGB channel value
+const linear = Array.from({ length: 256 }, (_, value) => {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+});
+
+export interface FlashGuard {
+  /**
+   * Check the frame just drawn on a 2D canvas and, while flashing is too
+   * frequent, blend it with the previous frame to soften the change.
+   * Returns whether the frame was dampened.
+   */
+  filter: (canvas: HTMLCanvasElement, now: number) => boolean;
+  reset: () => void;
+}
+
+/**
+ * Watches rendered frames for flashing beyond three flashes per second and
+ * dampens it as it happens. WebGL canvases are left alone.
+ */
+export function createFlashGuard(): FlashGuard {
+  const cells = GRID_COLUMNS * GRID_ROWS;
+  // Luminance of each cell at its last turning point, and which way it went
+  const extremes = new Float32Array(cells);
+  const directions = new Int8Array(cells);
+  let sampled = false;
+  // Times of frame-wide luminance changes, alternating in direction
+  const transitions: number[] = [];
+  let lastDirection = 0;
+  let limitUntil = -Infinity;
+
+  let grid: CanvasRenderingContext2D | null = null;
+  let previous: HTMLCanvasElement | null = null;
+
+  const sample = (canvas: HTMLCanvasElement) => {
+    if (!grid) {
+      const gridCanvas = document.createElement('canvas');
+      gridCanvas.width = GRID_COLUMNS;
+      gridCanvas.height = GRID_ROWS;
+      grid = gridCanvas.getContext('2d', { willReadFrequently: true });
+      if (!grid) return null;
+    }
+    grid.drawImage(canvas, 0, 0, GRID_COLUMNS, GRID_ROWS);
+    return grid.getImageData(0, 0, GRID_COLUMNS, GRID_ROWS).data;
+  };
+
+  // Direction of a frame-wide flash edge in this frame: 1 brighter, -1 darker, 0 none
+  const detect = (pixels: Uint8ClampedArray) => {
+    let brighter = 0;
+    let darker = 0;
+
+    for (let cell = 0; cell < cells; cell++) {
+      const i = cell * 4;
+      const luminance = 0.2126 * linear[pixels[i]] + 0.7152 * linear[pixels[i + 1]] + 0.0722 * linear[pixels[i + 2]];
+
+      if (!sampled) {
+        extremes[cell] = luminance;
+        continue;
+      }
+      // Follow a change until it turns, so slow ramps still add up
+      const extreme = extremes[cell];
+      if ((directions[cell] > 0 && luminance > extreme) || (directions[cell] < 0 && luminance < extreme)) {
+        extremes[cell] = luminance;
+        continue;
+      }
+
+      const change = luminance - extreme;
+      const direction = Math.sign(change);
+      if (Math.abs(change) < LUMINANCE_CHANGE || Math.min(luminance, extreme) >= DARK_LIMIT) continue;
+
+      directions[cell] = direction;
+      extremes[cell] = luminance;
+      if (direction > 0) brighter++;
+      else darker++;
+    }
+    sampled = true;
+
+    if (brighter >= cells * AREA) return 1;
+    if (darker >= cells * AREA) return -1;
+    return 0;
+  };
+
+  const dampen = (canvas: HTMLCanvasElement, context: CanvasRenderingContext2D, limiting: boolean) => {
+    if (!previous) previous = document.createElement('canvas');
+    const resized = previous.width !== canvas.width || previous.height !== canvas.height;
+    if (resized) {
+      previous.width = canvas.width;
+      previous.height = canvas.height;
+    }
+
+    const blended = limiting && !resized;
+    if (blended) {
+      context.save();
+      context.setTransform(1, 0, 0, 1, 0, 0);
+      context.globalAlpha = HOLD;
+      context.globalCompositeOperation = 'source-over';
+      context.drawImage(previous, 0, 0);
+      context.restore();
+    }
+
+    // Remember what was shown, the starting point for blending the next frame
+    const store = previous.getContext('2d');
+    store?.clearRect(0, 0, previous.width, previous.height);
+    store?.drawImage(canvas, 0, 0);
+    return blended;
+  };
+
+  return {
+    filter: (canvas, now) => {
+      const context = canvas.getContext('2d');
+      if (!context) return false;
+
+      const pixels = sample(canvas);
+      const direction = pixels ? detect(pixels) : 0;
+      if (direction !== 0 && direction !== lastDirection) {
+        transitions.push(now);
+        lastDirection = direction;
+      }
+      while (transitions.length > 0 && now - transitions[0] > 1000) transitions.shift();
+
+      // Three flashes are six transitions; hold back anything beyond them
+      if (transitions.length >= MAX_FLASHES_PER_SECOND * 2) limitUntil = now + COOLDOWN;
+
+      return dampen(canvas, context, now < limitUntil);
+    },
+    reset: () => {
+      directions.fill(0);
+      sampled = false;
+      transitions.length = 0;
+      lastDirection = 0;
+      limitUntil = -Infinity;
+    },
+  };
+}
@@ -0,0 +1,153 @@
+import type { Sketch } from '@/components/P5Wrapper';
+import { hexToRgb } from '@/lib/params';
+import { FIXED_STEP } from '@/lib/sketchRuntime';
+
+/** Modules playground code may import from; type-only imports are stripped beforehand */
+const modules: Record<string, Record<string, unknown>> = {
+  '@/lib/params': { hexToRgb },
+  '@/lib/sketchRuntime': { FIXED_STEP },
+};
+
+export const PLAYGROUND_IMPORTS = Object.entries(modules).flatMap(([source, exports]) =>
+  Object.keys(exports).map((name) => `${name} from '${source}'`),
+);
+
+/** Starting point for a sketch written from scratch */
+export const BLANK_SKETCH = `/** @type {import('@/components/P5Wrapper').Sketch} */
+const sketch = (p, ctx) => {
+  p.setup = () => {
+    p.createCanvas(ctx.width, ctx.height);
+    p.colorMode(p.HSB, 360, 100, 100, 100);
+    p.noStroke();
+  };
+
+  p.draw = () => {
+    p.background(0, 0, 8, 10);
+    const t = ctx.clock.time;
+    for (let i = 0; i < 12; i++) {
+      const angle = t + (i / 12) * p.TWO_PI;
+      p.fill((i * 30 + t * 40) % 360, 70, 90);
+      p.circle(ctx.input.x + Math.cos(angle) * 80, ctx.input.y + Math.sin(angle) * 80, 16);
+    }
+  };
+};
+
+export default sketch;
+`;
+
+// Named source so stack traces can be mapped back to editor lines
+const SOURCE_URL = 'playground-sketch.js';
+
+const IMPORT = /^import\s+(?:\{([^}]*)\}|\*\s+as\s+\w+|\w+(?:\s*,\s*\{[^}]*\})?)\s+from\s+['"]([^'"]+)['"];?[ \t]*$/gm;
+
+/**
+ * Turn ES module sketch code into a function body. Imports become lookups in
+ * the module table and the default export is returned; lines are kept where
+ * they were so error positions still match the editor.
+ */
+function toFunctionBody(code: string): string {
+  const body = code
+    .replace(IMPORT, (statement, named: string | undefined, source: string) => {
+      if (named === undefined) throw new SyntaxError(`Only named imports are supported: ${statement}`);
+      const bindings = named
+        .split(',')
+        .map((binding) => binding.trim())
+        .filter(Boolean)
+        .map((binding) => binding.replace(/\s+as\s+/, ': '));
+      return `const { ${bindings.join(', ')} } = __import(${JSON.stringify(source)});`;
+    })
+    .replace(/^export\s+default\s+/m, '__exports.default = ')
+    .replace(/^export\s+(?=(?:const|let|function|class)\b)/gm, '');
+  return `${body}\nreturn __exports.default;\n//# sourceURL=${SOURCE_URL}`;
+}
+
+function importModule(source: string) {
+  const exports = modules[source];
+  if (!exports) throw new Error(`Cannot import "${source}" in the playground. Available: ${PLAYGROUND_IMPORTS.join(', ')}`);
+  return exports;
+}
+
+/** Evaluate playground code and return its default export as a sketch */
+export function compileSketch(code: string): Sketch {
+  const run = new Function('__import', '__exports', toFunctionBody(code));
+  const sketch: unknown = run(importModule, {});
+  if (typeof sketch !== 'function') {
+    throw new TypeError('The code must `export default` a sketch function: (p, ctx) => { ... }');
+  }
+  return sketch as Sketch;
+}
+
+let headerLines: number | null = null;
+
+// Engines wrap `new Function` bodies in a header of their own; measure it once
+function functionHeaderLines() {
+  if (headerLines === null) {
+    headerLines = 0;
+    try {
+      new Function(`throw new Error();\n//# sourceURL=${SOURCE_URL}`)();
+    } catch (error) {
+      const line = sourceLine(error);
+      headerLines = line === null ? 0 : line - 1;
+    }
+  }
+  return headerLines;
+}
+
+function sourceLine(error: unknown): number | null {
+  const stack = error instanceof Error ? error.stack ?? '' : '';
+  const match = new RegExp(`${SOURCE_URL.replace('.', '\\.')}:(\\d+)`).exec(stack);
+  return match ? Number(match[1]) : null;
+}
+
+/** Editor line (1-based) an error from playground code was thrown at, if known */
+export function errorLine(error: unknown): number | null {
+  const line = sourceLine(error);
+  return line === null ? null : line - functionHeaderLines();
+}
+
+/** Messages between the playground editor and its sandboxed frame */
+export type PlaygroundMessage =
+  | { type: 'ready' }
+  | { type: 'run'; code: string; seed: number }
+  | { type: 'error'; message: string; line: number | null }
+  | { type: 'started' };
+
+export interface PlaygroundDraft {
+  id: string;
+  name: string;
+  code: string;
+  /** Milliseconds since the epoch */
+  savedAt: number;
+}
+
+const DRAFTS_KEY = 'playground:drafts:v1';
+
+export function listDrafts(): PlaygroundDraft[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(DRAFTS_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.filter(
+      (draft): draft is PlaygroundDraft =>
+        typeof draft?.id === 'string' &&
+        typeof draft.name === 'string' &&
+        typeof draft.code === 'string' &&
+        typeof draft.savedAt === 'number',
+    );
+  } catch {
+    // Storage can be unavailable (private mode, disabled cookies) or hold damaged data
+    return [];
+  }
+}
+
+/** Store a draft, replacing an earlier save with the same id; newest first */
+export function saveDraft(draft: PlaygroundDraft): PlaygroundDraft[] {
+  const drafts = [draft, ...listDrafts().filter((saved) => saved.id !== draft.id)];
+  localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+  return drafts;
+}
+
+export function deleteDraft(id: string): PlaygroundDraft[] {
+  const drafts = listDrafts().filter((saved) => saved.id !== id);
+  localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+  return drafts;
+}
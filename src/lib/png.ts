@@ -0,0 +1,74 @@
+import { crc32 } from '@/lib/crc32';
+
+const SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function chunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+export interface PngEncoder {
+  /** Append whole rows of RGBA pixels, top to bottom */
+  addRows: (rgba: Uint8ClampedArray, rows: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+}
+
+/**
+ * Streaming 8-bit RGBA PNG encoder. Rows are compressed as they arrive, so
+ * images larger than any single canvas can be assembled band by band.
+ */
+export function createPngEncoder(width: number, height: number): PngEncoder {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // colour type: RGBA
+
+  const parts: Uint8Array<ArrayBuffer>[] = [SIGNATURE, chunk('IHDR', header)];
+  const stride = width * 4;
+  let rowsWritten = 0;
+
+  // PNG image data is a zlib stream, which is what 'deflate' produces
+  const stream = new CompressionStream('deflate');
+  const writer = stream.writable.getWriter();
+  const reading = (async () => {
+    const reader = stream.readable.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parts.push(chunk('IDAT', value));
+    }
+  })();
+
+  return {
+    addRows: async (rgba, rows) => {
+      if (rowsWritten + rows > height) throw new Error('Too many rows for PNG');
+
+      // Each row gets the "Sub" filter, which helps smooth gradients compress
+      const filtered = new Uint8Array(rows * (stride + 1));
+      for (let y = 0; y < rows; y++) {
+        const src = y * stride;
+        const dst = y * (stride + 1);
+        filtered[dst] = 1;
+        for (let i = 0; i < stride; i++) {
+          filtered[dst + 1 + i] = rgba[src + i] - (i >= 4 ? rgba[src + i - 4] : 0);
+        }
+      }
+      rowsWritten += rows;
+      await writer.write(filtered);
+    },
+    finish: async () => {
+      if (rowsWritten !== height) throw new Error(`PNG expected ${height} rows, got ${rowsWritten}`);
+      await writer.close();
+      await reading;
+      parts.push(chunk('IEND', new Uint8Array(0)));
+      return new Blob(parts, { type: 'image/png' });
+    },
+  };
+}
@@ -0,0 +1,22 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+/** Size of the social card the stills fill */
+export const PREVIEW_WIDTH = 1200;
+export const PREVIEW_HEIGHT = 630;
+
+/** Where `npm run previews` saves an artwork's still */
+export const previewPath = (id: string) => join(process.cwd(), 'public', 'previews', `${id}.jpg`);
+
+/**
+ * An artwork's prerendered still as a data URL, or null for sketches headless
+ * rendering can't draw (WEBGL) and ones not rendered yet.
+ */
+export async function readPreview(id: string): Promise<string | null> {
+  try {
+    const still = await readFile(previewPath(id));
+    return `data:image/jpeg;base64,${still.toString('base64')}`;
+  } catch {
+    return null;
+  }
+}
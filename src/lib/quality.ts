@@ -0,0 +1,32 @@
+/**
+ * A setting a sketch can trade for speed, such as an agent count or a pixel
+ * step. The runtime interpolates between `low` and `high` as the quality
+ * level moves between 0 and 1.
+ */
+export interface QualityKnob {
+  /** Value at the lowest quality level */
+  low: number;
+  /** Value at full quality */
+  high: number;
+  /** Round to whole numbers, e.g. for counts and pixel steps */
+  integer?: boolean;
+}
+
+/** Labelled like parameters, under `sketches[artworkId].controls` in the message catalog */
+export type QualitySchema = Record<string, QualityKnob>;
+
+export type QualityValues<S extends QualitySchema = QualitySchema> = {
+  [K in keyof S]: number;
+};
+
+export function getQualityValues(schema: QualitySchema | undefined, level: number): QualityValues {
+  const values: QualityValues = {};
+  if (!schema) return values;
+
+  const t = Math.min(1, Math.max(0, level));
+  for (const [key, knob] of Object.entries(schema)) {
+    const value = knob.low + (knob.high - knob.low) * t;
+    values[key] = knob.integer ? Math.round(value) : value;
+  }
+  return values;
+}
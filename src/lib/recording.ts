@@ -0,0 +1,104 @@
+import type { Sketch } from '@/components/P5Wrapper';
+import { mountOffscreen } from '@/lib/offscreen';
+import type { SketchState } from '@/lib/sketchRuntime';
+import { createZipWriter } from '@/lib/zip';
+
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export interface CanvasRecording {
+  /** Stop recording and collect the video */
+  stop: () => Promise<Blob>;
+  /** Stop recording and throw the video away; does nothing once stopped */
+  discard: () => void;
+}
+
+/**
+ * Record a live canvas to WebM in real time. Quick, but frames are dropped
+ * whenever the sketch cannot keep up.
+ */
+export function recordCanvas(canvas: HTMLCanvasElement, fps = 60): CanvasRecording {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error('Video recording is not supported in this browser');
+  }
+  const mimeType = VIDEO_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error('WebM recording is not supported in this browser');
+
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 12_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start();
+
+  return {
+    stop: () =>
+      new Promise((resolve) => {
+        recorder.onstop = () => {
+          stream.getTracks().forEach((track) => track.stop());
+          resolve(new Blob(chunks, { type: 'video/webm' }));
+        };
+        recorder.stop();
+      }),
+    discard: () => {
+      if (recorder.state === 'inactive') return;
+      recorder.ondataavailable = null;
+      recorder.stop();
+      stream.getTracks().forEach((track) => track.stop());
+      chunks.length = 0;
+    },
+  };
+}
+
+export interface RenderSequenceOptions {
+  frames: number;
+  fps: number;
+  pixelDensity?: number;
+  /** Data from the sketch's `onSerialize`, such as a drawing */
+  restore?: unknown;
+  onProgress?: (done: number, total: number) => void;
+  /** Checked between frames; return true to abandon the render */
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Render a sketch offline from its first frame, one fixed timestep at a
+ * time, and collect the frames as numbered PNGs in a zip archive. Every
+ * frame is captured no matter how long it takes to draw.
+ */
+export async function renderSequence(
+  sketch: Sketch,
+  state: SketchState,
+  options: RenderSequenceOptions,
+): Promise<Blob | null> {
+  const offscreen = await mountOffscreen(sketch, {
+    seed: state.seed,
+    width: state.width,
+    height: state.height,
+    params: state.params,
+    pixelDensity: options.pixelDensity ?? 1,
+    fixedTimestep: 1 / options.fps,
+    speed: state.speed,
+    restore: options.restore,
+  });
+
+  const zip = createZipWriter();
+  const digits = String(options.frames).length;
+
+  try {
+    for (let frame = 1; frame <= options.frames; frame++) {
+      if (options.isCancelled?.()) return null;
+
+      await offscreen.runtime.step(1);
+      const png = await new Promise<Blob | null>((resolve) => offscreen.canvas.toBlob(resolve, 'image/png'));
+      if (!png) throw new Error(`Failed to encode frame ${frame}`);
+
+      await zip.add(`frame-${String(frame).padStart(digits, '0')}.png`, png);
+      options.onProgress?.(frame, options.frames);
+    }
+  } finally {
+    offscreen.remove();
+  }
+
+  return zip.finish();
+}
@@ -0,0 +1,28 @@
+const MAX_SEED = 1_000_000;
+
+export function createSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+/**
+ * Interpret a `seed` query value. Integers are used as-is; any other text
+ * is hashed (FNV-1a) so that word seeds like `?seed=aurora` also work.
+ */
+export function parseSeed(value: string | null | undefined): number | undefined {
+  if (value === null || value === undefined) return undefined;
+
+  const trimmed = value.trim();
+  if (trimmed === '') return undefined;
+
+  if (/^\d+$/.test(trimmed)) {
+    // BigInt, since Number() turns very long digit strings into Infinity
+    return Number(BigInt(trimmed) % BigInt(Number.MAX_SAFE_INTEGER));
+  }
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,6 @@
+/**
+ * Where the site is served from, for canonical links, social cards and the
+ * sitemap, which all need absolute URLs. Set NEXT_PUBLIC_SITE_URL when
+ * deploying; the fallback only suits `next dev` and `next start`.
+ */
+export const siteUrl = new URL(process.env.NEXT_PUBLIC_SITE_URL ?? 'http://localhost:3000');
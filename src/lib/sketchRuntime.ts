@@ -0,0 +1,627 @@
+import type p5 from 'p5';
+import type { Sketch } from '@/components/P5Wrapper';
+import { matchAction, type SketchAction } from '@/lib/actions';
+import { defaultLocale, getMessages, type Locale, type Messages } from '@/lib/i18n';
+import { createPointerInput, type InputHooks, type SketchInput } from '@/lib/input';
+import { getDefaultParams, sanitizeParam, type ParamValue, type ParamValues } from '@/lib/params';
+import { createFrameStats, createQualityGovernor, type FrameStatsSnapshot } from '@/lib/performance';
+import { createFlashGuard } from '@/lib/photosensitivity';
+import { getQualityValues, type QualityValues } from '@/lib/quality';
+import { createSeed } from '@/lib/seed';
+
+/** Length of one simulation step; sketches were tuned at 60 frames per second */
+export const FIXED_STEP = 1 / 60;
+
+// Longer gaps (background tabs, breakpoints) are treated as a single slow frame
+const MAX_FRAME_TIME = 0.1;
+// Cap on catch-up steps per frame so slow machines don't spiral
+const MAX_STEPS_PER_FRAME = 4;
+// Seconds for the autopilot to sweep across and down the canvas; coprime, so
+// the path takes minutes to repeat
+const AUTOPILOT_PERIOD_X = 23;
+const AUTOPILOT_PERIOD_Y = 17;
+// Share of the canvas the autopilot's path spans
+const AUTOPILOT_REACH = 0.7;
+
+/**
+ * Simulation time shared by every sketch, independent of the display's
+ * refresh rate. Updated by the runtime before each `draw`.
+ */
+export interface SketchClock {
+  /** Simulated seconds since the sketch started or was last reset */
+  readonly time: number;
+  /** Simulated seconds covered by the current frame, speed included */
+  readonly delta: number;
+  /**
+   * Number of fixed `FIXED_STEP` updates to run this frame. Physics and
+   * simulations should loop this many times rather than once per frame.
+   */
+  readonly steps: number;
+  /** Playback speed multiplier; 1 is normal speed */
+  readonly speed: number;
+}
+
+/**
+ * Runtime services handed to a sketch as the second argument.
+ * Hooks (`on*`) are assigned by the sketch, the same way p5 callbacks are.
+ */
+export interface SketchContext extends InputHooks {
+  /** Seed applied to `randomSeed` and `noiseSeed` before `setup` runs */
+  seed: number;
+  /** Current size of the host container; pass these to `createCanvas` */
+  width: number;
+  height: number;
+  /**
+   * Called after the container (and therefore the canvas) has been resized.
+   * The canvas is already resized when this runs.
+   */
+  onResize?: (width: number, height: number) => void;
+  clock: SketchClock;
+  /**
+   * Mouse, pen and touch input over the canvas. Use this and the `onPointer*`
+   * and `onGesture` hooks rather than p5's mouse globals.
+   */
+  input: SketchInput;
+  /** Live parameter values, updated in place while the sketch runs */
+  params: ParamValues;
+  /** Change a parameter from inside the sketch (e.g. from a key binding) */
+  setParam: (key: string, value: ParamValue) => void;
+  /**
+   * Register something the viewer can trigger from the keyboard or the
+   * page's action buttons. Use this instead of `p.keyPressed`.
+   */
+  addAction: (action: SketchAction) => void;
+  /** Called after a parameter has changed, from the host or from `setParam` */
+  onParamChange?: (key: string, value: ParamValue) => void;
+  /** Called when playback is paused from the transport controls */
+  onPause?: () => void;
+  /** Called when playback resumes after a pause */
+  onResume?: () => void;
+  /**
+   * Return the sketch to its initial state in place. Randomness is re-seeded
+   * first. Sketches without this hook are restarted from scratch instead.
+   */
+  onReset?: () => void;
+  /**
+   * Return whatever the seed and parameters can't reproduce, such as a
+   * drawing or hand-placed points, as plain JSON data. Saved in snapshots.
+   */
+  onSerialize?: () => unknown;
+  /**
+   * Bring back state returned by `onSerialize`, called right after `setup`.
+   * The data comes from a shared link or file, so check its shape.
+   */
+  onRestore?: (data: unknown) => void;
+  /**
+   * Current values of the sketch's quality knobs. Updated in place when the
+   * quality level changes; `onQualityChange` is called afterwards.
+   */
+  quality: QualityValues;
+  onQualityChange?: () => void;
+  /** Time a named part of the frame for the performance overlay */
+  measure: <T>(phase: string, fn: () => T) => T;
+  /**
+   * The viewer prefers less motion. Sketches with bursts, strobing or fast
+   * camera moves should calm down while this is set.
+   */
+  reducedMotion: boolean;
+  /** Called after `reducedMotion` has changed while the sketch runs */
+  onReducedMotionChange?: () => void;
+  /** Language the page is shown in */
+  locale: Locale;
+  /** UI text in `locale`; a sketch's own text is under `messages.sketches` */
+  messages: Messages;
+}
+
+/** A rectangle in logical (CSS) pixels */
+export interface Viewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SketchRuntimeOptions {
+  seed?: number;
+  width: number;
+  height: number;
+  params?: Partial<ParamValues>;
+  /** Force a pixel density on the main canvas, e.g. 1 for cheap previews */
+  pixelDensity?: number;
+  /**
+   * Render only this region of the `width` × `height` canvas. The sketch still
+   * sees the full size; used to split high-resolution exports into tiles.
+   */
+  viewport?: Viewport;
+  /**
+   * Seconds of simulated time per frame. When set the clock ignores the wall
+   * clock, so offline renders come out the same on any machine.
+   */
+  fixedTimestep?: number;
+  /** Initial clock speed multiplier */
+  speed?: number;
+  /** Lower or raise the quality level automatically to hold `targetFps` */
+  adaptiveQuality?: boolean;
+  /** Frame rate adaptive quality aims for; defaults to 60 */
+  targetFps?: number;
+  /** Start paused; frames can then be advanced with `step` */
+  autoplay?: boolean;
+  /** Notified whenever the sketch itself changes a parameter */
+  onParamChange?: (key: string, value: ParamValue) => void;
+  /** Data from an earlier `onSerialize`, handed to `onRestore` after `setup` */
+  restore?: unknown;
+  /** Initial value of `SketchContext.reducedMotion` */
+  reducedMotion?: boolean;
+  /**
+   * Wander a synthetic mouse over the canvas while no real pointer is on it,
+   * so pieces that follow the pointer keep moving on an unattended display
+   */
+  autopilot?: boolean;
+  /**
+   * Let whatever is behind the canvas show through: `background()` clears
+   * instead of painting, and a translucent background fades earlier frames
+   * towards transparent rather than towards its colour, so trails still fade
+   */
+  transparent?: boolean;
+  /** Language for text the sketch draws; defaults to English */
+  locale?: Locale;
+  /**
+   * Watch the canvas for flashing beyond three flashes per second and dampen
+   * it. Only 2D canvases are checked.
+   */
+  flashGuard?: boolean;
+  /** Called when the flash guard starts or stops dampening frames */
+  onFlashGuardChange?: (dampening: boolean) => void;
+  /** Called once `setup` has finished */
+  onReady?: () => void;
+  /**
+   * Called when the sketch throws, after which it stops drawing. Without
+   * this the error is rethrown to p5, as if there were no runtime.
+   */
+  onError?: (error: Error) => void;
+}
+
+/** Everything needed to re-render what a sketch is currently showing */
+export interface SketchState {
+  seed: number;
+  width: number;
+  height: number;
+  params: ParamValues;
+  /** Frames drawn so far */
+  frameCount: number;
+  /** Simulated seconds elapsed, see `SketchClock.time` */
+  time: number;
+  speed: number;
+}
+
+export interface PerformanceSnapshot extends FrameStatsSnapshot {
+  /** Between 0 (cheapest) and 1 (full quality) */
+  qualityLevel: number;
+  adaptiveQuality: boolean;
+  quality: QualityValues;
+}
+
+/** Transport controls shared by every running sketch */
+export interface SketchPlayback {
+  readonly playing: boolean;
+  play: () => void;
+  pause: () => void;
+  /** Advance a paused sketch by a number of frames */
+  step: (frames?: number) => Promise<void>;
+  /** Reset in place via `onReset`; returns false when the sketch has no such hook */
+  reset: () => boolean;
+}
+
+export interface SketchRuntime extends SketchPlayback {
+  ctx: SketchContext;
+  /** Instance-mode closure to pass to `new p5(...)` */
+  run: (p: p5) => void;
+  /** Update a parameter from the host without re-instantiating the sketch */
+  setParam: (key: string, value: ParamValue) => boolean;
+  /** Follow a new container size */
+  resize: (width: number, height: number) => void;
+  setSpeed: (speed: number) => void;
+  /** Actions registered by the sketch, in registration order */
+  actions: readonly SketchAction[];
+  runAction: (action: SketchAction) => void;
+  /** Run the action bound to a key press; returns false when none is */
+  handleKey: (event: KeyboardEvent) => boolean;
+  /** The sketch's own state from `onSerialize`; undefined when it has none */
+  serialize: () => unknown;
+  getState: () => SketchState;
+  getPerformance: () => PerformanceSnapshot;
+  setAdaptiveQuality: (enabled: boolean) => void;
+  /** Set the quality level by hand; adaptive quality may move it again */
+  setQualityLevel: (level: number) => void;
+  setReducedMotion: (reduced: boolean) => void;
+  setFlashGuard: (enabled: boolean) => void;
+}
+
+// p5's default camera sits at z = 800 with its near plane at a tenth of that,
+// so the visible half-extent on the near plane is 5% of the canvas size
+const DEFAULT_CAMERA_NEAR = 80;
+const DEFAULT_CAMERA_FAR = 8000;
+const NEAR_PLANE_SCALE = 0.05;
+
+export function createSketchRuntime(sketch: Sketch, options: SketchRuntimeOptions): SketchRuntime {
+  const params = getDefaultParams(sketch.params);
+  for (const [key, value] of Object.entries(options.params ?? {})) {
+    const spec = sketch.params?.[key];
+    if (spec && value !== undefined) {
+      params[key] = sanitizeParam(spec, value);
+    }
+  }
+
+  let instance: p5 | null = null;
+  let playing = options.autoplay ?? true;
+  let resumeLoop = true;
+  let pendingSteps = 0;
+  let setupDone = false;
+  let failure: Error | null = null;
+
+  const clock = { time: 0, delta: 0, steps: 0, speed: options.speed ?? 1 };
+  let accumulator = 0;
+  let lastTick: number | null = null;
+
+  const tick = (stepping: boolean) => {
+    const now = performance.now();
+    let elapsed = FIXED_STEP;
+    if (options.fixedTimestep !== undefined) {
+      elapsed = options.fixedTimestep;
+    } else if (!stepping && lastTick !== null) {
+      elapsed = Math.min((now - lastTick) / 1000, MAX_FRAME_TIME);
+    }
+    lastTick = now;
+
+    clock.delta = elapsed * clock.speed;
+    clock.time += clock.delta;
+
+    accumulator += clock.delta;
+    // Tolerate rounding so a frame of exactly FIXED_STEP always yields a step
+    const steps = Math.floor(accumulator / FIXED_STEP + 1e-6);
+    clock.steps = Math.min(steps, MAX_STEPS_PER_FRAME);
+    accumulator = steps > MAX_STEPS_PER_FRAME ? 0 : Math.max(0, accumulator - steps * FIXED_STEP);
+  };
+
+  const pointerInput = createPointerInput();
+  const actions: SketchAction[] = [];
+  const stats = createFrameStats();
+  const governor = createQualityGovernor(options.targetFps ?? 60);
+  let adaptiveQuality = options.adaptiveQuality ?? false;
+  let qualityLevel = 1;
+  let lastFrameStart: number | null = null;
+  const flashGuard = createFlashGuard();
+  let flashGuardEnabled = options.flashGuard ?? false;
+  let dampening = false;
+
+  const applyQualityLevel = (level: number) => {
+    qualityLevel = Math.min(1, Math.max(0, level));
+    const next = getQualityValues(sketch.quality, qualityLevel);
+
+    let changed = false;
+    for (const [key, value] of Object.entries(next)) {
+      if (ctx.quality[key] === value) continue;
+      ctx.quality[key] = value;
+      changed = true;
+    }
+    if (changed && setupDone) guard(() => ctx.onQualityChange?.());
+  };
+
+  const applyParam = (key: string, value: ParamValue): boolean => {
+    const spec = sketch.params?.[key];
+    if (!spec) return false;
+
+    const next = sanitizeParam(spec, value);
+    if (ctx.params[key] === next) return false;
+
+    ctx.params[key] = next;
+    guard(() => ctx.onParamChange?.(key, next));
+    return true;
+  };
+
+  // Show the effect of a reset or resize even while playback is paused
+  const refreshIfPaused = () => {
+    if (playing || !instance || failure) return;
+    pendingSteps++;
+    instance.redraw();
+  };
+
+  const fail = (error: unknown) => {
+    failure = error instanceof Error ? error : new Error(String(error));
+    instance?.noLoop();
+    if (!options.onError) throw failure;
+    options.onError(failure);
+  };
+
+  // Run sketch code; after the first exception nothing more of it runs
+  const guard = (fn: () => void) => {
+    if (failure) return;
+    try {
+      fn();
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  const applySeed = (p: p5) => {
+    p.randomSeed(ctx.seed);
+    p.noiseSeed(ctx.seed);
+  };
+
+  let webgl = false;
+
+  // Shift the full-size drawing so that only the viewport lands on the canvas
+  const applyViewport = (p: p5) => {
+    const { viewport } = options;
+    if (!viewport) return;
+
+    if (webgl) {
+      // Off-centre slice of the default perspective frustum
+      const left = (viewport.x - ctx.width / 2) * NEAR_PLANE_SCALE;
+      const right = (viewport.x + viewport.width - ctx.width / 2) * NEAR_PLANE_SCALE;
+      const top = (ctx.height / 2 - viewport.y) * NEAR_PLANE_SCALE;
+      const bottom = (ctx.height / 2 - viewport.y - viewport.height) * NEAR_PLANE_SCALE;
+      p.frustum(left, right, bottom, top, DEFAULT_CAMERA_NEAR, DEFAULT_CAMERA_FAR);
+    } else {
+      p.translate(-viewport.x, -viewport.y);
+    }
+  };
+
+  const ctx: SketchContext = {
+    seed: options.seed ?? createSeed(),
+    width: options.width,
+    height: options.height,
+    clock,
+    input: pointerInput.input,
+    params,
+    quality: getQualityValues(sketch.quality, 1),
+    measure: stats.measure,
+    reducedMotion: options.reducedMotion ?? false,
+    locale: options.locale ?? defaultLocale,
+    messages: getMessages(options.locale ?? defaultLocale),
+    addAction: (action) => {
+      actions.push(action);
+    },
+    setParam: (key, value) => {
+      if (applyParam(key, value)) {
+        options.onParamChange?.(key, ctx.params[key]);
+      }
+    },
+  };
+
+  const run = (p: p5) => {
+    instance = p;
+    guard(() => sketch(p, ctx));
+
+    const density = options.pixelDensity;
+    const { viewport } = options;
+    if (density !== undefined || viewport) {
+      const createCanvas = p.createCanvas;
+      p.createCanvas = ((...args: Parameters<p5['createCanvas']>) => {
+        if (viewport) {
+          args[0] = viewport.width;
+          args[1] = viewport.height;
+          webgl = (args as unknown[])[2] === p.WEBGL;
+        }
+        const canvas = createCanvas.apply(p, args);
+        if (density !== undefined) p.pixelDensity(density);
+
+        if (viewport) {
+          // Keep the sketch laying itself out against the full canvas
+          Object.defineProperty(p, 'width', { get: () => ctx.width, configurable: true });
+          Object.defineProperty(p, 'height', { get: () => ctx.height, configurable: true });
+          applyViewport(p);
+        }
+        return canvas;
+      }) as p5['createCanvas'];
+    }
+
+    if (options.transparent) {
+      p.background = ((...args: unknown[]) => {
+        const context = p.drawingContext;
+        let opacity = 1;
+        try {
+          // In the sketch's colour mode; a colour given without alpha is fully opaque
+          const color = (p.color as (...values: unknown[]) => p5.Color)(...args);
+          opacity = p.alpha(color) / p.alpha(p.color(0));
+        } catch {
+          // An image background; treat it as opaque
+        }
+
+        if (opacity >= 1 || !(context instanceof CanvasRenderingContext2D)) {
+          p.clear();
+        } else {
+          context.save();
+          context.setTransform(1, 0, 0, 1, 0, 0);
+          context.globalCompositeOperation = 'destination-out';
+          context.fillStyle = `rgba(0, 0, 0, ${opacity})`;
+          context.fillRect(0, 0, context.canvas.width, context.canvas.height);
+          context.restore();
+        }
+        return p;
+      }) as p5['background'];
+    }
+
+    const setup = p.setup;
+    p.setup = () => {
+      guard(() => {
+        applySeed(p);
+        setup?.call(p);
+        setupDone = true;
+        if (options.restore !== undefined) ctx.onRestore?.(options.restore);
+      });
+      if (failure) return;
+      // Pointer hooks run from DOM events and the autopilot, outside draw, so they get the same
+      // guard. Hooks the sketch doesn't set are left out, so the page keeps scrolling over it
+      pointerInput.attach(
+        p.drawingContext.canvas as HTMLCanvasElement,
+        {
+          onPointerDown: (pointer) => guard(() => ctx.onPointerDown?.(pointer)),
+          onPointerMove: ctx.onPointerMove && ((pointer) => guard(() => ctx.onPointerMove?.(pointer))),
+          onPointerUp: ctx.onPointerUp && ((pointer) => guard(() => ctx.onPointerUp?.(pointer))),
+          onGesture: ctx.onGesture && ((gesture) => guard(() => ctx.onGesture?.(gesture))),
+        },
+        // Pointer-only pieces draw wherever a finger is held down
+        { drags: sketch.requires?.includes('pointer') },
+      );
+
+      if (!playing) {
+        resumeLoop = p.isLooping();
+        p.noLoop();
+      }
+      options.onReady?.();
+    };
+
+    const draw = p.draw;
+    p.draw = () => {
+      if (failure) return;
+      if (!playing) {
+        if (pendingSteps <= 0) return;
+        pendingSteps--;
+      }
+      const start = performance.now();
+      tick(!playing);
+      pointerInput.update(start);
+      if (options.autopilot) {
+        // A Lissajous curve, offset by the seed so each run takes its own path
+        const phase = (ctx.seed % 360) * (Math.PI / 180);
+        const x = 0.5 + (AUTOPILOT_REACH / 2) * Math.sin((2 * Math.PI * clock.time) / AUTOPILOT_PERIOD_X + phase);
+        const y = 0.5 + (AUTOPILOT_REACH / 2) * Math.sin((2 * Math.PI * clock.time) / AUTOPILOT_PERIOD_Y);
+        pointerInput.steer(x * ctx.width, y * ctx.height, start);
+      }
+      applyViewport(p);
+      guard(() => draw?.call(p));
+      const drawTime = performance.now() - start;
+
+      if (flashGuardEnabled) {
+        const canvas = p.drawingContext.canvas as HTMLCanvasElement;
+        const dampened = stats.measure('flash guard', () => flashGuard.filter(canvas, start));
+        if (dampened !== dampening) {
+          dampening = dampened;
+          options.onFlashGuardChange?.(dampening);
+        }
+      }
+
+      // Stepped frames say nothing about the frame rate
+      const interval = playing && lastFrameStart !== null ? start - lastFrameStart : null;
+      lastFrameStart = playing ? start : null;
+      stats.endFrame(interval, drawTime);
+
+      if (adaptiveQuality && interval !== null && sketch.quality) {
+        const change = governor.update(interval, drawTime);
+        if (change !== 0) applyQualityLevel(qualityLevel + change);
+      }
+    };
+  };
+
+  const runAction = (action: SketchAction) => {
+    if (!setupDone) return;
+    guard(action.run);
+    refreshIfPaused();
+  };
+
+  return {
+    ctx,
+    run,
+    actions,
+    runAction,
+    handleKey: (event) => {
+      const action = matchAction(actions, event);
+      if (action) runAction(action);
+      return action !== undefined;
+    },
+    serialize: () => (setupDone ? ctx.onSerialize?.() : undefined),
+    setParam: applyParam,
+    resize: (width, height) => {
+      if (width === ctx.width && height === ctx.height) return;
+      ctx.width = width;
+      ctx.height = height;
+
+      // Before setup the sketch simply picks up the new size in createCanvas
+      if (!instance || !setupDone) return;
+      guard(() => {
+        instance!.resizeCanvas(width, height);
+        ctx.onResize?.(width, height);
+      });
+      refreshIfPaused();
+    },
+    getState: () => ({
+      seed: ctx.seed,
+      width: ctx.width,
+      height: ctx.height,
+      params: { ...ctx.params },
+      frameCount: instance?.frameCount ?? 0,
+      time: clock.time,
+      speed: clock.speed,
+    }),
+    setSpeed: (speed) => {
+      clock.speed = Math.max(0, speed);
+    },
+    getPerformance: () => ({
+      ...stats.snapshot(),
+      qualityLevel,
+      adaptiveQuality,
+      quality: { ...ctx.quality },
+    }),
+    setAdaptiveQuality: (enabled) => {
+      adaptiveQuality = enabled;
+      governor.reset();
+    },
+    setQualityLevel: (level) => {
+      governor.reset();
+      applyQualityLevel(level);
+    },
+    setReducedMotion: (reduced) => {
+      if (ctx.reducedMotion === reduced) return;
+      ctx.reducedMotion = reduced;
+      if (setupDone) guard(() => ctx.onReducedMotionChange?.());
+      refreshIfPaused();
+    },
+    setFlashGuard: (enabled) => {
+      flashGuardEnabled = enabled;
+      flashGuard.reset();
+      if (!enabled && dampening) {
+        dampening = false;
+        options.onFlashGuardChange?.(false);
+      }
+    },
+    get playing() {
+      return playing;
+    },
+    play: () => {
+      if (playing) return;
+      playing = true;
+      pendingSteps = 0;
+      // Don't count the paused time as one long frame
+      lastTick = null;
+      lastFrameStart = null;
+      if (instance && resumeLoop) instance.loop();
+      guard(() => ctx.onResume?.());
+    },
+    pause: () => {
+      if (!playing) return;
+      playing = false;
+      if (instance) {
+        // Remember whether the sketch was looping on its own account
+        resumeLoop = instance.isLooping();
+        instance.noLoop();
+      }
+      guard(() => ctx.onPause?.());
+    },
+    step: async (frames = 1) => {
+      if (playing || !instance) return;
+      pendingSteps += frames;
+      await instance.redraw(frames);
+      if (failure) throw failure;
+    },
+    reset: () => {
+      if (!instance || !ctx.onReset) return false;
+      applySeed(instance);
+      clock.time = 0;
+      accumulator = 0;
+      guard(ctx.onReset);
+      refreshIfPaused();
+      return true;
+    },
+  };
+}
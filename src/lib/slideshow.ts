@@ -0,0 +1,57 @@
+import { artworks, type Artwork } from '@/lib/artworks';
+import { getCollection, getCollectionArtworks, isCollectionId, type CollectionId } from '@/lib/collections';
+
+/** Seconds each piece stays on screen, as offered in the settings */
+export const dwellTimes = [15, 30, 60, 120, 300] as const;
+export const DEFAULT_DWELL = 30;
+// Bounds for a hand-written `?dwell=`; the fade alone takes a couple of seconds
+const MIN_DWELL = 5;
+const MAX_DWELL = 3600;
+
+export interface SlideshowSettings {
+  /** Seconds per piece */
+  dwell: number;
+  /** Every artwork in random order, or one collection in its own order */
+  playlist: 'shuffle' | CollectionId;
+}
+
+export const defaultSettings: SlideshowSettings = { dwell: DEFAULT_DWELL, playlist: 'shuffle' };
+
+/** Read settings from a query string, falling back to the defaults for anything unknown */
+export function parseSlideshowSettings(query: URLSearchParams): SlideshowSettings {
+  const dwell = Number(query.get('dwell'));
+  const collection = query.get('collection');
+  return {
+    dwell: Number.isFinite(dwell) && dwell > 0 ? Math.min(MAX_DWELL, Math.max(MIN_DWELL, dwell)) : DEFAULT_DWELL,
+    playlist: collection !== null && isCollectionId(collection) ? collection : 'shuffle',
+  };
+}
+
+/** The query string for a set of settings; defaults are left out to keep links short */
+export function slideshowSettingsToQuery(settings: SlideshowSettings): URLSearchParams {
+  const query = new URLSearchParams();
+  if (settings.playlist !== 'shuffle') query.set('collection', settings.playlist);
+  if (settings.dwell !== DEFAULT_DWELL) query.set('dwell', String(settings.dwell));
+  return query;
+}
+
+/**
+ * One pass over the playlist. Shuffled passes never start with `previous`,
+ * so a new pass doesn't repeat the piece that ended the last one.
+ */
+export function buildPlaylist(
+  playlist: SlideshowSettings['playlist'],
+  previous?: Artwork,
+  random: () => number = Math.random,
+): Artwork[] {
+  const collection = playlist === 'shuffle' ? undefined : getCollection(playlist);
+  if (collection) return getCollectionArtworks(collection);
+
+  const order = [...artworks];
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  if (order.length > 1 && order[0] === previous) order.push(order.shift()!);
+  return order;
+}
@@ -0,0 +1,70 @@
+import type { ParamValues } from '@/lib/params';
+
+// Bump when the format changes so old links fail cleanly instead of half-restoring
+const SNAPSHOT_VERSION = 1;
+const HASH_PREFIX = '#snapshot=';
+
+/** Everything needed to bring a sketch back to what a viewer was looking at */
+export interface Snapshot {
+  /** Artwork the snapshot was taken from */
+  id: string;
+  seed: number;
+  params: ParamValues;
+  /** The sketch's own state from `onSerialize`, if it has any */
+  data?: unknown;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export function snapshotToJson(snapshot: Snapshot): string {
+  return JSON.stringify({ version: SNAPSHOT_VERSION, ...snapshot });
+}
+
+/** Read a snapshot saved by `snapshotToJson`; returns null for anything else */
+export function parseSnapshot(json: string): Snapshot | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!isRecord(value) || value.version !== SNAPSHOT_VERSION) return null;
+
+  const { id, seed, params, data } = value;
+  if (typeof id !== 'string' || typeof seed !== 'number' || !Number.isSafeInteger(seed) || !isRecord(params)) {
+    return null;
+  }
+  // Parameter values are sanitized against the sketch's schema when applied
+  return { id, seed, params: params as ParamValues, data };
+}
+
+const pipe = async (bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0));
+
+/** Compress a snapshot into a URL fragment, e.g. `#snapshot=...` */
+export async function encodeSnapshotHash(snapshot: Snapshot): Promise<string> {
+  const json = new TextEncoder().encode(snapshotToJson(snapshot));
+  return HASH_PREFIX + toBase64Url(await pipe(json, new CompressionStream('deflate-raw')));
+}
+
+/** Read a fragment written by `encodeSnapshotHash`; null when there is none or it is damaged */
+export async function decodeSnapshotHash(hash: string): Promise<Snapshot | null> {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+
+  try {
+    const bytes = await pipe(fromBase64Url(hash.slice(HASH_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    return parseSnapshot(new TextDecoder().decode(bytes));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,96 @@
+import type { Sketch } from '@/components/P5Wrapper';
+import { mountOffscreen } from '@/lib/offscreen';
+
+/** Bump to invalidate thumbnails cached by earlier versions of the sketches */
+const CACHE_VERSION = 1;
+const CACHE_PREFIX = `thumbnail:v${CACHE_VERSION}:`;
+
+export const THUMBNAIL_SEED = 1;
+export const THUMBNAIL_WIDTH = 480;
+export const THUMBNAIL_HEIGHT = 270;
+export const THUMBNAIL_WARMUP_FRAMES = 90;
+
+export interface RenderStillOptions {
+  width: number;
+  height: number;
+  /** Number of frames to run before capturing */
+  frames: number;
+  seed: number;
+  pixelDensity?: number;
+  type?: 'image/png' | 'image/jpeg';
+  quality?: number;
+}
+
+/**
+ * Run a sketch offscreen for a number of frames and capture the canvas as a
+ * data URL.
+ */
+export async function renderStill(sketch: Sketch, options: RenderStillOptions): Promise<string> {
+  const offscreen = await mountOffscreen(sketch, {
+    seed: options.seed,
+    width: options.width,
+    height: options.height,
+    pixelDensity: options.pixelDensity ?? 1,
+  });
+
+  try {
+    await offscreen.runtime.step(options.frames);
+    return offscreen.canvas.toDataURL(options.type ?? 'image/jpeg', options.quality ?? 0.85);
+  } finally {
+    offscreen.remove();
+  }
+}
+
+const memoryCache = new Map<string, string>();
+let queue: Promise<unknown> = Promise.resolve();
+
+function readCache(id: string): string | undefined {
+  const cached = memoryCache.get(id);
+  if (cached) return cached;
+
+  try {
+    const stored = localStorage.getItem(CACHE_PREFIX + id);
+    if (stored) {
+      memoryCache.set(id, stored);
+      return stored;
+    }
+  } catch {
+    // Storage can be unavailable (private mode, disabled cookies)
+  }
+  return undefined;
+}
+
+function writeCache(id: string, dataUrl: string) {
+  memoryCache.set(id, dataUrl);
+  try {
+    localStorage.setItem(CACHE_PREFIX + id, dataUrl);
+  } catch {
+    // Quota exceeded: keep the in-memory copy only
+  }
+}
+
+/**
+ * Get the cached gallery still for an artwork, rendering it if needed.
+ * Renders are queued so only one offscreen sketch runs at a time.
+ */
+export function getThumbnail(id: string, sketch: Sketch): Promise<string> {
+  const cached = readCache(id);
+  if (cached) return Promise.resolve(cached);
+
+  const job = queue.then(async () => {
+    const existing = readCache(id);
+    if (existing) return existing;
+
+    const dataUrl = await renderStill(sketch, {
+      width: THUMBNAIL_WIDTH,
+      height: THUMBNAIL_HEIGHT,
+      frames: THUMBNAIL_WARMUP_FRAMES,
+      seed: THUMBNAIL_SEED,
+    });
+    writeCache(id, dataUrl);
+    return dataUrl;
+  });
+
+  queue = job.catch(() => undefined);
+  return job;
+}
@@ -0,0 +1,97 @@
+import { crc32 } from '@/lib/crc32';
+
+export interface ZipWriter {
+  /** Add a file; entries are stored uncompressed */
+  add: (name: string, data: Blob) => Promise<void>;
+  finish: () => Blob;
+}
+
+interface Entry {
+  name: Uint8Array<ArrayBuffer>;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+const encoder = new TextEncoder();
+
+// Sizes and offsets are 32-bit without zip64 records, which aren't written
+const MAX_ARCHIVE_SIZE = 0xffffffff;
+const END_RECORD_SIZE = 22;
+
+// MS-DOS date and time of "now", as zip headers expect
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+/**
+ * Minimal zip archive builder. Only "stored" entries are written, which is
+ * what image sequences want anyway: PNGs are already compressed.
+ */
+export function createZipWriter(): ZipWriter {
+  const parts: BlobPart[] = [];
+  const entries: Entry[] = [];
+  const { time, day } = dosDateTime(new Date());
+  let offset = 0;
+  let directorySize = 0;
+
+  return {
+    add: async (fileName, data) => {
+      if (entries.length >= 0xffff) throw new Error('Too many files for a zip archive');
+
+      const name = encoder.encode(fileName);
+      // Everything written so far, this entry and its directory record, and the end record
+      const archiveSize = offset + 30 + name.length + data.size + directorySize + 46 + name.length + END_RECORD_SIZE;
+      if (archiveSize > MAX_ARCHIVE_SIZE) {
+        throw new Error('The zip archive would be larger than 4 GiB; export fewer or smaller frames');
+      }
+
+      const crc = crc32(new Uint8Array(await data.arrayBuffer()));
+      const header = new DataView(new ArrayBuffer(30));
+      header.setUint32(0, 0x04034b50, true);
+      header.setUint16(4, 20, true); // version needed
+      header.setUint16(10, time, true);
+      header.setUint16(12, day, true);
+      header.setUint32(14, crc, true);
+      header.setUint32(18, data.size, true);
+      header.setUint32(22, data.size, true);
+      header.setUint16(26, name.length, true);
+
+      parts.push(header.buffer, name, data);
+      entries.push({ name, crc, size: data.size, offset });
+      offset += 30 + name.length + data.size;
+      directorySize += 46 + name.length;
+    },
+    finish: () => {
+      const directoryOffset = offset;
+
+      for (const entry of entries) {
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, 0x02014b50, true);
+        header.setUint16(4, 20, true); // version made by
+        header.setUint16(6, 20, true); // version needed
+        header.setUint16(12, time, true);
+        header.setUint16(14, day, true);
+        header.setUint32(16, entry.crc, true);
+        header.setUint32(20, entry.size, true);
+        header.setUint32(24, entry.size, true);
+        header.setUint16(28, entry.name.length, true);
+        header.setUint32(42, entry.offset, true);
+
+        parts.push(header.buffer, entry.name);
+      }
+
+      const end = new DataView(new ArrayBuffer(END_RECORD_SIZE));
+      end.setUint32(0, 0x06054b50, true);
+      end.setUint16(8, entries.length, true);
+      end.setUint16(10, entries.length, true);
+      end.setUint32(12, directorySize, true);
+      end.setUint32(16, directoryOffset, true);
+      parts.push(end.buffer);
+
+      return new Blob(parts, { type: 'application/zip' });
+    },
+  };
+}
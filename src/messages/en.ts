@@ -0,0 +1,446 @@
+/**
+ * English UI text. This catalog is the reference: every other locale has to
+ * provide the same keys, which the `Messages` type enforces.
+ */
+export const en = {
+  meta: {
+    title: 'Generative Art Gallery',
+    description: 'A collection of interactive generative art pieces built with p5.js and Next.js',
+  },
+
+  common: {
+    gallery: 'Gallery',
+    language: 'Language',
+    close: 'Close',
+    newSeed: 'New seed',
+    save: 'Save',
+    delete: (name: string) => `Delete ${name}`,
+    storageUnavailable: {
+      save: 'Could not save; browser storage is unavailable',
+      delete: 'Could not delete; browser storage is unavailable',
+    },
+    works: (count: number) => (count === 1 ? '1 work' : `${count} works`),
+  },
+
+  difficulty: {
+    easy: 'Easy',
+    medium: 'Medium',
+    hard: 'Hard',
+  },
+
+  home: {
+    titleLead: 'Generative Art',
+    titleTail: 'Gallery',
+    intro: 'Interactive generative artworks made with p5.js.',
+    introDetail: 'Click and move the mouse to change the art.',
+    collectionsLink: 'Browse the collections →',
+    composerLink: 'Layer several pieces in the composer →',
+    playgroundLink: 'Write your own sketch in the playground →',
+    slideshowLink: 'Start a slideshow →',
+    savedCompositions: 'Your compositions',
+    footer: 'Built with Next.js, p5.js, and Tailwind CSS',
+  },
+
+  search: {
+    placeholder: 'Search titles, descriptions and tags',
+    label: 'Search artworks',
+    sortBy: 'Sort by',
+    sort: {
+      gallery: 'Gallery order',
+      title: 'Title A–Z',
+      easiest: 'Easiest first',
+      hardest: 'Hardest first',
+    },
+    difficulty: 'Difficulty',
+    collection: 'Collection',
+    tags: 'Tags',
+    allTags: (hidden: number) => `All tags (+${hidden})`,
+    fewerTags: 'Fewer tags',
+    results: (shown: number, total: number) => `${shown} of ${total} artworks`,
+    clear: 'Clear filters',
+    empty: 'No artworks match these filters.',
+  },
+
+  collections: {
+    title: 'Collections',
+    intro: 'The gallery’s artworks grouped into series.',
+    back: '← Collections',
+    play: 'Play as a slideshow →',
+  },
+
+  capabilities: {
+    webgl: 'WebGL',
+    pointer: 'a mouse or touch screen',
+    list: (names: readonly string[]) => names.join(' and '),
+    needs: (names: string) => `Needs ${names}`,
+    unsupported: (names: string) => `This artwork needs ${names}, which this browser or device doesn’t provide.`,
+  },
+
+  player: {
+    loading: 'Loading artwork...',
+    crashed: 'This artwork stopped with an error.',
+    loadFailed: 'This artwork could not be loaded. Check your connection and try again.',
+    retry: 'Retry',
+    flashReduced: 'Rapid flashing reduced',
+    interact: 'Click, tap or drag to interact',
+    seed: (seed: number) => `Seed ${seed}`,
+    copyLink: 'Copy link',
+    copied: 'Copied!',
+    copyFailed: 'Could not copy',
+    stats: 'Stats',
+    hideStats: 'Hide stats',
+    playPause: 'Play / pause',
+    shortcuts: 'Keyboard shortcuts',
+  },
+
+  transport: {
+    play: 'Play',
+    pause: 'Pause',
+    playHint: 'Play (Space)',
+    pauseHint: 'Pause (Space)',
+    step: 'Step one frame',
+    reset: 'Reset',
+    restart: 'Restart',
+    speed: 'Speed',
+  },
+
+  help: {
+    title: 'Controls',
+    shortcut: 'Keyboard shortcuts (?)',
+    none: 'This sketch has no shortcuts of its own.',
+    pointer: 'Mouse and touch',
+  },
+
+  params: {
+    title: 'Parameters',
+    reset: 'Reset to defaults',
+  },
+
+  performance: {
+    quality: (percent: number) => `Quality ${percent}%`,
+    auto: 'Auto',
+    qualityLevel: 'Quality level',
+  },
+
+  exportImage: {
+    button: 'Download PNG',
+    scale: (scale: number) => `${scale}× screen`,
+    width: 'Width in pixels',
+    height: 'Height in pixels',
+    download: 'Download',
+    rendering: 'Rendering…',
+    renderingTile: (done: number, total: number) => `Rendering tile ${done}/${total}…`,
+    fixedSize: (width: number, height: number) =>
+      `This sketch renders at a fixed resolution, so it was saved at ${width} × ${height}.`,
+    shortened: (seconds: number) =>
+      `Exports replay the piece from the start for at most ${seconds} s, so this image can differ from the screen.`,
+    failed: 'Export failed',
+  },
+
+  snapshot: {
+    button: 'Snapshot',
+    copyLink: 'Copy snapshot link',
+    copied: 'Snapshot link copied',
+    copyFailed: 'Could not copy the snapshot link',
+    download: 'Download JSON',
+    load: 'Load JSON…',
+    invalid: 'This file is not a snapshot',
+    otherArtwork: (id: string) => `This snapshot belongs to "${id}"`,
+  },
+
+  recorder: {
+    button: 'Record',
+    liveTitle: 'Live clip (WebM)',
+    liveDetail: 'Records what is on screen in real time.',
+    start: 'Start recording',
+    stop: (seconds: string) => `Stop (${seconds}s)`,
+    failed: 'Recording failed',
+    sequenceTitle: 'Frame sequence (PNG zip)',
+    sequenceDetail: 'Renders from the first frame on a fixed timestep, so no frames are dropped.',
+    duration: 'Duration in seconds',
+    render: 'Render frames',
+    starting: 'Starting…',
+    frame: (done: number, total: number) => `Frame ${done}/${total}`,
+    cancel: (progress: string) => `${progress} · Cancel`,
+    renderFailed: 'Render failed',
+  },
+
+  compose: {
+    untitled: 'Untitled composition',
+    titleLabel: 'Composition title',
+    saved: 'Saved',
+    new: 'New',
+    layers: 'Layers',
+    addLayer: 'Add layer',
+    savedCompositions: 'Saved compositions',
+    activeHint: 'The selected layer receives clicks and drags',
+    artwork: 'Artwork',
+    opacity: 'Opacity',
+    blend: 'Blend',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    remove: 'Remove',
+    layerCount: (count: number) => (count === 1 ? '1 layer' : `${count} layers`),
+  },
+
+  playground: {
+    title: 'Playground',
+    startFrom: 'Start from',
+    blank: 'Blank sketch',
+    untitled: 'Untitled sketch',
+    copyOf: (title: string) => `${title} (copy)`,
+    draftName: 'Draft name',
+    run: 'Run',
+    runHint: 'Ctrl/Cmd + Enter',
+    saveDraft: 'Save draft',
+    draftSaved: 'Draft saved',
+    sourceFailed: 'Could not load the source',
+    line: (line: number) => `Line ${line}`,
+    code: 'Sketch code',
+    preview: 'Sketch preview',
+    intro: (imports: string) =>
+      `Export a sketch with \`export default\`; \`p\` is p5 in instance mode and \`ctx\` the gallery's sketch context. Available imports: ${imports}.`,
+  },
+
+  embed: {
+    button: 'Embed',
+    transparent: 'Transparent background',
+    passthrough: 'Let clicks through to the page',
+    code: 'Embed code',
+    copy: 'Copy code',
+    copied: 'Copied!',
+    copyFailed: 'Copying failed. The code is selected above; copy it with Ctrl+C or ⌘C.',
+    hint: 'Host pages can set parameters and pause or resume the piece with postMessage.',
+  },
+
+  slideshow: {
+    title: 'Slideshow',
+    playlist: 'Playlist',
+    shuffle: 'All artworks, shuffled',
+    dwell: 'Time per piece',
+    seconds: (seconds: number) => (seconds < 60 ? `${seconds} s` : `${seconds / 60} min`),
+    previous: 'Previous',
+    next: 'Next',
+    pause: 'Pause slideshow',
+    resume: 'Resume slideshow',
+    fullscreen: 'Fullscreen',
+    exitFullscreen: 'Exit fullscreen',
+    position: (index: number, total: number) => `${index} / ${total}`,
+    open: 'Open this piece',
+    nothingToPlay: 'None of these artworks can run in this browser.',
+    hint: 'Space pauses, arrow keys skip, F goes fullscreen',
+  },
+
+  /** Text drawn by or labelling the controls of individual sketches, by artwork id */
+  sketches: {
+    'flow-fields': {
+      controls: {
+        num: 'Particles',
+        noiseScale: 'Noise scale',
+        speed: 'Speed',
+        opacity: 'Stroke opacity',
+      },
+    },
+    physarum: {
+      controls: {
+        numAgents: 'Agents',
+        sensorAngle: 'Sensor angle (°)',
+        sensorDistance: 'Sensor distance',
+        rotationAngle: 'Rotation angle (°)',
+        stepSize: 'Step size',
+        depositAmount: 'Deposit',
+        decayFactor: 'Decay',
+        trailColor: 'Trail color',
+        agentShare: 'Agent share',
+        cellSize: 'Cell size',
+      },
+    },
+    'reaction-diffusion': {
+      controls: {
+        feed: 'Feed rate',
+        kill: 'Kill rate',
+        dA: 'Diffusion A',
+        dB: 'Diffusion B',
+        stepsPerFrame: 'Iterations per step',
+        brushRadius: 'Brush radius',
+      },
+    },
+    'kinetic-typography': {
+      hint: 'Move your mouse over the text',
+    },
+    'audio-reactive': {
+      hint: 'Simulated audio visualization - Click to change pattern',
+    },
+    voronoi: {
+      controls: {
+        pixelStep: 'Pixel step',
+      },
+    },
+    superformula: {
+      hint: 'Move mouse to change shape parameters',
+    },
+    'fourier-series': {
+      hint: 'Click and drag to draw a custom shape, or click to regenerate',
+      status: (mode: string, epicycles: number) => `Mode: ${mode} | Epicycles: ${epicycles}`,
+    },
+    phyllotaxis: {
+      dotsStatus: (n: number, angle: number) => `n: ${n} | Golden angle: ${angle}°`,
+      spiralStatus: (n: number) => `n: ${n} | Fibonacci spirals visible`,
+      mode: (mode: string) => `Mode: ${mode}`,
+      hint: 'Click to restart',
+      dotsMode: 'Dots mode',
+      petalsMode: 'Petals mode',
+      spiralMode: 'Spiral mode',
+    },
+    'de-jong-attractor': {
+      iterations: (millions: string) => `Iterations: ${millions}M`,
+      preset: (current: number, total: number) => `Preset: ${current}/${total}`,
+      randomParameters: 'Random parameters',
+      presetAction: (number: number) => `Preset ${number}`,
+    },
+    'maurer-rose': {
+      petals: (n: string) => `n: ${n} (petals)`,
+      stepAngle: (d: string) => `d: ${d}° (step angle)`,
+      hint: 'Move mouse to change parameters | Click to toggle animation',
+      presetAction: (number: number) => `Preset ${number}`,
+      randomParameters: 'Random parameters',
+    },
+    'voronoi-delaunay': {
+      hint: 'Click to add point',
+      toggleVoronoi: 'Toggle Voronoi',
+      toggleDelaunay: 'Toggle Delaunay',
+      togglePoints: 'Toggle points',
+      reset: 'Reset',
+    },
+    'complex-domain-coloring': {
+      view: (zoom: string, x: string, y: string) => `Zoom: ${zoom} | Center: (${x}, ${y})`,
+      hint: 'Scroll or pinch: Zoom | Drag: Pan',
+      previousFunction: 'Previous function',
+      nextFunction: 'Next function',
+      toggleAnimation: 'Toggle animation',
+      resetView: 'Reset view',
+    },
+    'chladni-patterns': {
+      mode: (n: number, m: number) => `Mode: n=${n}, m=${m}`,
+      hint: 'Move mouse to change vibration modes',
+      toggleField: 'Toggle field',
+      toggleParticles: 'Toggle particles',
+    },
+    'apollonian-gasket': {
+      status: (circles: number, depth: number) => `Circles: ${circles} | Depth: ${depth}`,
+      hint: 'Click to restart',
+      increaseDepth: 'Increase max depth',
+      decreaseDepth: 'Decrease max depth',
+    },
+    'marching-squares': {
+      status: (contours: number, noiseScale: string) => `Contours: ${contours} | Noise scale: ${noiseScale}`,
+      hint: 'Move mouse to interact with the field',
+      moreContours: 'More contours',
+      fewerContours: 'Fewer contours',
+      largerNoiseScale: 'Larger noise scale',
+      smallerNoiseScale: 'Smaller noise scale',
+      toggleField: 'Toggle field',
+      toggleAnimation: 'Toggle animation',
+    },
+    'levy-flight': {
+      steps: (count: string, max: string) => `Steps: ${count} / ${max}`,
+      pause: 'Pause drawing',
+      restart: 'Restart',
+    },
+    'gravitational-attractor': {
+      reset: 'Reset',
+      clearTrails: 'Clear trails',
+    },
+    'double-pendulum': {
+      hint: 'Click: Reset',
+      toggleArms: 'Toggle arms',
+      randomize: 'Randomize',
+      clearTrails: 'Clear trails',
+    },
+    'particle-painting': {
+      status: (mode: string, particles: number) => `Mode: ${mode} | Particles: ${particles}`,
+      hint: 'Click & Drag to paint',
+      fireBrush: 'Fire brush',
+      smokeBrush: 'Smoke brush',
+      magicBrush: 'Magic brush',
+      clearCanvas: 'Clear canvas',
+    },
+    'autonomous-agents': {
+      hint: 'Move to repel | Click: Add target',
+      reset: 'Reset',
+      toggleTrails: 'Toggle trails',
+      toggleWander: 'Toggle wander strength',
+    },
+    flocking: {
+      controls: {
+        alignWeight: 'Alignment',
+        cohesionWeight: 'Cohesion',
+        separationWeight: 'Separation',
+        perceptionRadius: 'Perception radius',
+        separationRadius: 'Separation radius',
+        showMesh: 'Show mesh',
+        connectionDistance: 'Connection distance',
+        numBoids: 'Boids',
+      },
+      boids: (count: number) => `Boids: ${count}`,
+      weights: (align: string, cohesion: string, separation: string) =>
+        `Align: ${align} | Cohesion: ${cohesion} | Separation: ${separation}`,
+      toggleMesh: 'Toggle mesh',
+      reset: 'Reset',
+      longerConnections: 'Longer connections',
+      shorterConnections: 'Shorter connections',
+      strongAlignment: 'Toggle strong alignment',
+      strongCohesion: 'Toggle strong cohesion',
+      strongSeparation: 'Toggle strong separation',
+    },
+    'cellular-automata': {
+      status: (rule: number, row: number) => `Rule ${rule} | Row: ${row}`,
+      hint: 'Click: New rule',
+      restart: 'Restart',
+      classicColors: 'Classic colors',
+      gradientColors: 'Gradient colors',
+      hueColors: 'Hue colors',
+      rule30: 'Rule 30 (chaotic)',
+      rule90: 'Rule 90 (Sierpinski triangle)',
+      rule110: 'Rule 110 (Turing complete)',
+      rule184: 'Rule 184 (traffic flow)',
+      largerCells: 'Larger cells',
+      smallerCells: 'Smaller cells',
+    },
+    'fractal-tree': {
+      status: (style: string, colors: string) => `Style: ${style} | Color: ${colors}`,
+      hint: 'Move mouse to add wind',
+      naturalStyle: 'Natural style',
+      symmetricStyle: 'Symmetric style',
+      bonsaiStyle: 'Bonsai style',
+      greenColors: 'Green colors',
+      autumnColors: 'Autumn colors',
+      cherryColors: 'Cherry blossom colors',
+      toggleLeaves: 'Toggle leaves',
+      deeperBranching: 'Deeper branching',
+      shallowerBranching: 'Shallower branching',
+      newTree: 'New tree',
+    },
+    'genetic-algorithm': {
+      status: (generation: number, selected: number) => `Generation ${generation} | Selected: ${selected}/2+`,
+      hint: 'Click organisms to select parents, then press E to evolve',
+      evolveSelected: 'Evolve selected',
+      autoEvolve: 'Auto-evolve',
+      mutateSelected: 'Mutate selected',
+      reset: 'Reset',
+    },
+    'neural-creatures': {
+      generation: (generation: number, alive: number, population: number) =>
+        `Generation: ${generation} | Alive: ${alive}/${population}`,
+      bestFitness: (fitness: string) => `Best Fitness: ${fitness}`,
+      time: (elapsed: number, duration: number) => `Time: ${elapsed}/${duration}`,
+      hint: 'Click: Move target',
+      toggleSensors: 'Toggle sensors',
+      toggleBrain: 'Toggle brain view',
+      nextGeneration: 'Next generation',
+      reset: 'Reset',
+    },
+  },
+};
+
+export type Messages = typeof en;
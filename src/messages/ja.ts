@@ -0,0 +1,437 @@
+import type { Messages } from '@/messages/en';
+
+export const ja: Messages = {
+  meta: {
+    title: 'ジェネラティブアート・ギャラリー',
+    description: 'p5.jsとNext.jsで作られたインタラクティブなジェネラティブアート作品集',
+  },
+
+  common: {
+    gallery: 'ギャラリー',
+    language: '言語',
+    close: '閉じる',
+    newSeed: '新しいシード',
+    save: '保存',
+    delete: (name) => `${name}を削除`,
+    storageUnavailable: {
+      save: 'ブラウザのストレージが使えないため保存できませんでした',
+      delete: 'ブラウザのストレージが使えないため削除できませんでした',
+    },
+    works: (count) => `${count}作品`,
+  },
+
+  difficulty: {
+    easy: '初級',
+    medium: '中級',
+    hard: '上級',
+  },
+
+  home: {
+    titleLead: 'ジェネラティブアート',
+    titleTail: 'ギャラリー',
+    intro: 'p5.jsを使用したインタラクティブなジェネラティブアート作品集。',
+    introDetail: 'クリックやマウスの動きでアートが変化します。',
+    collectionsLink: 'コレクションを見る →',
+    composerLink: 'コンポーザーで作品を重ねる →',
+    playgroundLink: 'プレイグラウンドで自分のスケッチを書く →',
+    slideshowLink: 'スライドショーを始める →',
+    savedCompositions: '保存したコンポジション',
+    footer: 'Next.js、p5.js、Tailwind CSSで制作',
+  },
+
+  search: {
+    placeholder: 'タイトル・説明・タグで検索',
+    label: '作品を検索',
+    sortBy: '並べ替え',
+    sort: {
+      gallery: 'ギャラリー順',
+      title: 'タイトル順',
+      easiest: 'やさしい順',
+      hardest: 'むずかしい順',
+    },
+    difficulty: '難易度',
+    collection: 'コレクション',
+    tags: 'タグ',
+    allTags: (hidden) => `すべてのタグ（+${hidden}）`,
+    fewerTags: 'タグを減らす',
+    results: (shown, total) => `${total}作品中${shown}作品`,
+    clear: '絞り込みを解除',
+    empty: '条件に合う作品はありません。',
+  },
+
+  collections: {
+    title: 'コレクション',
+    intro: 'シリーズごとに作品をまとめて紹介します。',
+    back: '← コレクション',
+    play: 'スライドショーで見る →',
+  },
+
+  capabilities: {
+    webgl: 'WebGL',
+    pointer: 'マウスまたはタッチ操作',
+    list: (names) => names.join('と'),
+    needs: (names) => `${names}が必要`,
+    unsupported: (names) => `この作品には${names}が必要ですが、このブラウザまたは端末では利用できません。`,
+  },
+
+  player: {
+    loading: '作品を読み込んでいます…',
+    crashed: '作品の実行中にエラーが発生しました。',
+    loadFailed: '作品を読み込めませんでした。接続を確認してもう一度お試しください。',
+    retry: '再試行',
+    flashReduced: '激しい点滅を抑えています',
+    interact: 'クリック、タップ、ドラッグで操作できます',
+    seed: (seed) => `シード ${seed}`,
+    copyLink: 'リンクをコピー',
+    copied: 'コピーしました',
+    copyFailed: 'コピーできませんでした',
+    stats: '統計',
+    hideStats: '統計を隠す',
+    playPause: '再生／一時停止',
+    shortcuts: 'キーボードショートカット',
+  },
+
+  transport: {
+    play: '再生',
+    pause: '一時停止',
+    playHint: '再生（Space）',
+    pauseHint: '一時停止（Space）',
+    step: '1フレーム進める',
+    reset: 'リセット',
+    restart: '最初から',
+    speed: '速度',
+  },
+
+  help: {
+    title: '操作方法',
+    shortcut: 'キーボードショートカット（?）',
+    none: 'この作品には独自のショートカットはありません。',
+    pointer: 'マウス・タッチ操作',
+  },
+
+  params: {
+    title: 'パラメータ',
+    reset: '初期値に戻す',
+  },
+
+  performance: {
+    quality: (percent) => `品質 ${percent}%`,
+    auto: '自動',
+    qualityLevel: '品質レベル',
+  },
+
+  exportImage: {
+    button: 'PNGをダウンロード',
+    scale: (scale) => `画面の${scale}倍`,
+    width: '幅（ピクセル）',
+    height: '高さ（ピクセル）',
+    download: 'ダウンロード',
+    rendering: 'レンダリング中…',
+    renderingTile: (done, total) => `タイルをレンダリング中 ${done}/${total}…`,
+    fixedSize: (width, height) => `この作品は固定解像度で描画されるため、${width} × ${height}で保存しました。`,
+    shortened: (seconds) => `書き出しは作品を最初から最大${seconds}秒まで再現するため、画面と異なる場合があります。`,
+    failed: '書き出しに失敗しました',
+  },
+
+  snapshot: {
+    button: 'スナップショット',
+    copyLink: 'スナップショットのリンクをコピー',
+    copied: 'スナップショットのリンクをコピーしました',
+    copyFailed: 'スナップショットのリンクをコピーできませんでした',
+    download: 'JSONをダウンロード',
+    load: 'JSONを読み込む…',
+    invalid: 'このファイルはスナップショットではありません',
+    otherArtwork: (id) => `このスナップショットは「${id}」のものです`,
+  },
+
+  recorder: {
+    button: '録画',
+    liveTitle: 'ライブ録画（WebM）',
+    liveDetail: '画面に表示されている内容をそのまま録画します。',
+    start: '録画を開始',
+    stop: (seconds) => `停止（${seconds}秒）`,
+    failed: '録画に失敗しました',
+    sequenceTitle: '連番画像（PNGのzip）',
+    sequenceDetail: '最初のフレームから固定の時間刻みで描画するため、フレーム落ちしません。',
+    duration: '長さ（秒）',
+    render: 'フレームを書き出す',
+    starting: '開始しています…',
+    frame: (done, total) => `フレーム ${done}/${total}`,
+    cancel: (progress) => `${progress} · キャンセル`,
+    renderFailed: '書き出しに失敗しました',
+  },
+
+  compose: {
+    untitled: '無題のコンポジション',
+    titleLabel: 'コンポジションのタイトル',
+    saved: '保存しました',
+    new: '新規',
+    layers: 'レイヤー',
+    addLayer: 'レイヤーを追加',
+    savedCompositions: '保存したコンポジション',
+    activeHint: '選択中のレイヤーがクリックやドラッグを受け取ります',
+    artwork: '作品',
+    opacity: '不透明度',
+    blend: '合成',
+    moveUp: '上へ移動',
+    moveDown: '下へ移動',
+    remove: '削除',
+    layerCount: (count) => `${count}レイヤー`,
+  },
+
+  playground: {
+    title: 'プレイグラウンド',
+    startFrom: 'ひな形',
+    blank: '空のスケッチ',
+    untitled: '無題のスケッチ',
+    copyOf: (title) => `${title}（コピー）`,
+    draftName: '下書きの名前',
+    run: '実行',
+    runHint: 'Ctrl/Cmd + Enter',
+    saveDraft: '下書きを保存',
+    draftSaved: '下書きを保存しました',
+    sourceFailed: 'ソースを読み込めませんでした',
+    line: (line) => `${line}行目`,
+    code: 'スケッチのコード',
+    preview: 'スケッチのプレビュー',
+    intro: (imports) =>
+      `スケッチは \`export default\` で書き出します。\`p\` はインスタンスモードのp5、\`ctx\` はギャラリーのスケッチコンテキストです。使えるimport: ${imports}`,
+  },
+
+  embed: {
+    button: '埋め込み',
+    transparent: '背景を透明にする',
+    passthrough: 'クリックをページに通す',
+    code: '埋め込みコード',
+    copy: 'コードをコピー',
+    copied: 'コピーしました',
+    copyFailed: 'コピーできませんでした。上のコードを選択したので、Ctrl+C または ⌘C でコピーしてください。',
+    hint: '埋め込み先のページからpostMessageでパラメータの変更や一時停止・再開ができます。',
+  },
+
+  slideshow: {
+    title: 'スライドショー',
+    playlist: 'プレイリスト',
+    shuffle: 'すべての作品（シャッフル）',
+    dwell: '1作品あたりの時間',
+    seconds: (seconds) => (seconds < 60 ? `${seconds}秒` : `${seconds / 60}分`),
+    previous: '前へ',
+    next: '次へ',
+    pause: 'スライドショーを一時停止',
+    resume: 'スライドショーを再開',
+    fullscreen: '全画面表示',
+    exitFullscreen: '全画面表示を終了',
+    position: (index, total) => `${index} / ${total}`,
+    open: 'この作品を開く',
+    nothingToPlay: 'このブラウザで動かせる作品がありません。',
+    hint: 'スペースで一時停止、矢印キーで移動、Fで全画面表示',
+  },
+
+  sketches: {
+    'flow-fields': {
+      controls: {
+        num: 'パーティクル数',
+        noiseScale: 'ノイズのスケール',
+        speed: '速さ',
+        opacity: '線の不透明度',
+      },
+    },
+    physarum: {
+      controls: {
+        numAgents: 'エージェント数',
+        sensorAngle: 'センサー角度（°）',
+        sensorDistance: 'センサー距離',
+        rotationAngle: '回転角度（°）',
+        stepSize: '歩幅',
+        depositAmount: '分泌量',
+        decayFactor: '減衰',
+        trailColor: '軌跡の色',
+        agentShare: 'エージェントの割合',
+        cellSize: 'セルの大きさ',
+      },
+    },
+    'reaction-diffusion': {
+      controls: {
+        feed: '供給率',
+        kill: '除去率',
+        dA: '拡散係数 A',
+        dB: '拡散係数 B',
+        stepsPerFrame: '1ステップの反復回数',
+        brushRadius: 'ブラシの半径',
+      },
+    },
+    'kinetic-typography': {
+      hint: '文字の上でマウスを動かしてください',
+    },
+    'audio-reactive': {
+      hint: '擬似的な音声ビジュアライゼーション - クリックでパターンを変更',
+    },
+    voronoi: {
+      controls: {
+        pixelStep: 'ピクセル間隔',
+      },
+    },
+    superformula: {
+      hint: 'マウスを動かして形のパラメータを変更',
+    },
+    'fourier-series': {
+      hint: 'ドラッグで好きな形を描く、クリックで作り直す',
+      status: (mode, epicycles) => `モード: ${mode} | 周転円: ${epicycles}`,
+    },
+    phyllotaxis: {
+      dotsStatus: (n, angle) => `n: ${n} | 黄金角: ${angle}°`,
+      spiralStatus: (n) => `n: ${n} | フィボナッチ螺旋が見えています`,
+      mode: (mode) => `モード: ${mode}`,
+      hint: 'クリックで最初から',
+      dotsMode: 'ドットモード',
+      petalsMode: '花びらモード',
+      spiralMode: 'らせんモード',
+    },
+    'de-jong-attractor': {
+      iterations: (millions) => `反復回数: ${millions}M`,
+      preset: (current, total) => `プリセット: ${current}/${total}`,
+      randomParameters: 'ランダムなパラメータ',
+      presetAction: (number) => `プリセット ${number}`,
+    },
+    'maurer-rose': {
+      petals: (n) => `n: ${n}（花びら）`,
+      stepAngle: (d) => `d: ${d}°（刻み角）`,
+      hint: 'マウスを動かしてパラメータを変更 | クリックでアニメーションを切替',
+      presetAction: (number) => `プリセット ${number}`,
+      randomParameters: 'ランダムなパラメータ',
+    },
+    'voronoi-delaunay': {
+      hint: 'クリックで点を追加',
+      toggleVoronoi: 'ボロノイ図の表示切替',
+      toggleDelaunay: 'ドロネー図の表示切替',
+      togglePoints: '点の表示切替',
+      reset: 'リセット',
+    },
+    'complex-domain-coloring': {
+      view: (zoom, x, y) => `ズーム: ${zoom} | 中心: (${x}, ${y})`,
+      hint: 'スクロール・ピンチ: ズーム | ドラッグ: 移動',
+      previousFunction: '前の関数',
+      nextFunction: '次の関数',
+      toggleAnimation: 'アニメーション切替',
+      resetView: '表示をリセット',
+    },
+    'chladni-patterns': {
+      mode: (n, m) => `モード: n=${n}, m=${m}`,
+      hint: 'マウスを動かして振動モードを変更',
+      toggleField: '振動場の表示切替',
+      toggleParticles: '粒子の表示切替',
+    },
+    'apollonian-gasket': {
+      status: (circles, depth) => `円: ${circles} | 深さ: ${depth}`,
+      hint: 'クリックで最初から',
+      increaseDepth: '最大深度を上げる',
+      decreaseDepth: '最大深度を下げる',
+    },
+    'marching-squares': {
+      status: (contours, noiseScale) => `等高線: ${contours} | ノイズスケール: ${noiseScale}`,
+      hint: 'マウスを動かしてフィールドに触れてみてください',
+      moreContours: '等高線を増やす',
+      fewerContours: '等高線を減らす',
+      largerNoiseScale: 'ノイズスケールを上げる',
+      smallerNoiseScale: 'ノイズスケールを下げる',
+      toggleField: 'フィールドの表示切替',
+      toggleAnimation: 'アニメーションの切替',
+    },
+    'levy-flight': {
+      steps: (count, max) => `ステップ: ${count} / ${max}`,
+      pause: '描画の一時停止／再開',
+      restart: '最初から描き直す',
+    },
+    'gravitational-attractor': {
+      reset: 'リセット',
+      clearTrails: '軌跡を消去',
+    },
+    'double-pendulum': {
+      hint: 'クリック: リセット',
+      toggleArms: 'アームの表示切替',
+      randomize: 'ランダムに初期化',
+      clearTrails: '軌跡を消去',
+    },
+    'particle-painting': {
+      status: (mode, particles) => `モード: ${mode} | パーティクル: ${particles}`,
+      hint: 'ドラッグで描画',
+      fireBrush: '炎のブラシ',
+      smokeBrush: '煙のブラシ',
+      magicBrush: '魔法のブラシ',
+      clearCanvas: 'キャンバスを消去',
+    },
+    'autonomous-agents': {
+      hint: '動かして追い払う | クリック: ターゲットを追加',
+      reset: 'リセット',
+      toggleTrails: '軌跡の表示切替',
+      toggleWander: 'さまよいの強さを切替',
+    },
+    flocking: {
+      controls: {
+        alignWeight: '整列',
+        cohesionWeight: '結合',
+        separationWeight: '分離',
+        perceptionRadius: '知覚半径',
+        separationRadius: '分離半径',
+        showMesh: 'メッシュを表示',
+        connectionDistance: '接続距離',
+        numBoids: 'ボイド数',
+      },
+      boids: (count) => `ボイド: ${count}`,
+      weights: (align, cohesion, separation) => `整列: ${align} | 結合: ${cohesion} | 分離: ${separation}`,
+      toggleMesh: 'メッシュの表示切替',
+      reset: 'リセット',
+      longerConnections: '接続距離を伸ばす',
+      shorterConnections: '接続距離を縮める',
+      strongAlignment: '整列を強める／戻す',
+      strongCohesion: '結合を強める／戻す',
+      strongSeparation: '分離を強める／戻す',
+    },
+    'cellular-automata': {
+      status: (rule, row) => `ルール ${rule} | 行: ${row}`,
+      hint: 'クリック: 新しいルール',
+      restart: '最初から描き直す',
+      classicColors: 'クラシック配色',
+      gradientColors: 'グラデーション配色',
+      hueColors: '色相配色',
+      rule30: 'ルール30（カオス）',
+      rule90: 'ルール90（シェルピンスキーの三角形）',
+      rule110: 'ルール110（チューリング完全）',
+      rule184: 'ルール184（交通流）',
+      largerCells: 'セルを大きく',
+      smallerCells: 'セルを小さく',
+    },
+    'fractal-tree': {
+      status: (style, colors) => `スタイル: ${style} | 配色: ${colors}`,
+      hint: 'マウスを動かすと風が吹きます',
+      naturalStyle: '自然なスタイル',
+      symmetricStyle: '対称スタイル',
+      bonsaiStyle: '盆栽スタイル',
+      greenColors: '緑の配色',
+      autumnColors: '紅葉の配色',
+      cherryColors: '桜の配色',
+      toggleLeaves: '葉の表示切替',
+      deeperBranching: '枝分かれを深く',
+      shallowerBranching: '枝分かれを浅く',
+      newTree: '新しい木',
+    },
+    'genetic-algorithm': {
+      status: (generation, selected) => `第${generation}世代 | 選択: ${selected}/2+`,
+      hint: '個体をクリックして親を選び、Eキーで交配',
+      evolveSelected: '選択した個体を交配',
+      autoEvolve: '自動で交配',
+      mutateSelected: '選択した個体を突然変異',
+      reset: 'リセット',
+    },
+    'neural-creatures': {
+      generation: (generation, alive, population) => `世代: ${generation} | 生存: ${alive}/${population}`,
+      bestFitness: (fitness) => `最高適応度: ${fitness}`,
+      time: (elapsed, duration) => `時間: ${elapsed}/${duration}`,
+      hint: 'クリック: ターゲットを移動',
+      toggleSensors: 'センサーの表示切替',
+      toggleBrain: 'ニューラルネットの表示切替',
+      nextGeneration: '次の世代へ',
+      reset: 'リセット',
+    },
+  },
+};
@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { isLocale, LOCALE_COOKIE, localePath, matchLocale } from '@/lib/i18n';
+
+/**
+ * Sends paths without a locale prefix to the reader's locale: the one they
+ * picked in the switcher, otherwise the best match for their browser.
+ */
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (isLocale(pathname.split('/')[1])) return NextResponse.next();
+
+  const cookie = request.cookies.get(LOCALE_COOKIE)?.value;
+  const locale = isLocale(cookie) ? cookie : matchLocale(request.headers.get('accept-language'));
+
+  const url = request.nextUrl.clone();
+  url.pathname = localePath(locale, pathname);
+  url.search = search;
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  // Not Next's own assets, the playground's source files or anything with an extension
+  matcher: ['/((?!_next/|playground/source/|.*\\..*).*)'],
+};
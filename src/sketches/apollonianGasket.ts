@@ -6,7 +6,8 @@ import type { Sketch } from '@/components/P5Wrapper';
  * A fractal created by recursively filling the space between
  * mutually tangent circles with more tangent circles
  */
-const apollonianGasketSketch: Sketch = (p: p5) => {
+const apollonianGasketSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['apollonian-gasket'];
   interface Circle {
     x: number;
     y: number;
@@ -20,7 +21,6 @@ const apollonianGasketSketch: Sketch = (p: p5) => {
   let queue: Circle[][] = [];
   let maxDepth = 6;
   let animationStep = 0;
-  let animating = true;
   let time = 0;
 
   // Descartes Circle Theorem:
@@ -213,17 +213,17 @@ const apollonianGasketSketch: Sketch = (p: p5) => {
   };
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     initGasket();
   };
 
   p.draw = () => {
     p.background(10, 20, 8);
-    time += 0.01;
+    time += 0.6 * ctx.clock.delta;
 
-    // Animate construction
-    if (animating && queue.length > 0) {
+    // Animate construction, one level per simulation step
+    for (let step = 0; step < ctx.clock.steps && queue.length > 0; step++) {
       generateNextLevel();
     }
 
@@ -262,29 +262,32 @@ const apollonianGasketSketch: Sketch = (p: p5) => {
     p.noStroke();
     p.textSize(14);
     p.textAlign(p.LEFT, p.TOP);
-    p.text(`Circles: ${circles.length} | Depth: ${animationStep}`, 20, 20);
-    p.text('Click to restart | Space to pause', 20, 40);
-    p.text('↑↓: Change max depth', 20, 60);
+    p.text(messages.status(circles.length, animationStep), 20, 20);
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     initGasket();
   };
 
-  p.keyPressed = () => {
-    if (p.key === ' ') {
-      animating = !animating;
-    } else if (p.keyCode === 38) { // UP_ARROW
+  ctx.addAction({
+    keys: ['ArrowUp'],
+    label: messages.increaseDepth,
+    run: () => {
       maxDepth = Math.min(maxDepth + 1, 10);
       initGasket();
-    } else if (p.keyCode === 40) { // DOWN_ARROW
+    },
+  });
+
+  ctx.addAction({
+    keys: ['ArrowDown'],
+    label: messages.decreaseDepth,
+    run: () => {
       maxDepth = Math.max(maxDepth - 1, 2);
       initGasket();
-    }
-  };
+    },
+  });
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     initGasket();
   };
 };
@@ -10,14 +10,14 @@ interface Drop {
   charIndex: number;
 }
 
-const asciiRainSketch: Sketch = (p: p5) => {
+const asciiRainSketch: Sketch = (p: p5, ctx) => {
   const drops: Drop[] = [];
   const fontSize = 16;
   let cols: number;
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789@#$%&*<>[]{}';
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.textFont('monospace');
     p.textSize(fontSize);
@@ -44,7 +44,7 @@ const asciiRainSketch: Sketch = (p: p5) => {
     drops.push({
       x,
       y,
-      speed: p.random(3, 8),
+      speed: p.random(180, 480),
       chars: dropChars,
       length,
       charIndex: 0,
@@ -67,7 +67,7 @@ const asciiRainSketch: Sketch = (p: p5) => {
         if (charY < -fontSize || charY > p.height + fontSize) continue;
 
         // Distance from mouse
-        const distToMouse = p.dist(drop.x, charY, p.mouseX, p.mouseY);
+        const distToMouse = p.dist(drop.x, charY, ctx.input.x, ctx.input.y);
         const mouseInfluence = p.constrain(1 - distToMouse / mouseGlowRadius, 0, 1);
 
         // Fade based on position in trail
@@ -85,20 +85,20 @@ const asciiRainSketch: Sketch = (p: p5) => {
         }
 
         // Randomly change characters
-        if (p.random() < 0.02) {
+        if (p.random() < 1.2 * ctx.clock.delta) {
           drop.chars[j] = chars[Math.floor(p.random(chars.length))];
         }
 
         p.text(drop.chars[j], drop.x, charY);
       }
 
-      // Move drop
-      drop.y += drop.speed;
+      // Move drop (speed is in pixels per second)
+      drop.y += drop.speed * ctx.clock.delta;
 
       // Reset drop when it goes off screen
       if (drop.y - drop.length * fontSize > p.height) {
         drop.y = -drop.length * fontSize;
-        drop.speed = p.random(3, 8);
+        drop.speed = p.random(180, 480);
       }
     }
 
@@ -110,12 +110,11 @@ const asciiRainSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     initDrops();
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     initDrops();
   };
 };
@@ -1,7 +1,7 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
 
-const audioReactiveSketch: Sketch = (p: p5) => {
+const audioReactiveSketch: Sketch = (p: p5, ctx) => {
   // Simulated audio visualization (without actual audio input for simplicity)
   const numBars = 64;
   let waveform: number[] = [];
@@ -9,7 +9,7 @@ const audioReactiveSketch: Sketch = (p: p5) => {
   let time = 0;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.noFill();
 
@@ -21,7 +21,7 @@ const audioReactiveSketch: Sketch = (p: p5) => {
   };
 
   const generateSimulatedAudio = () => {
-    time += 0.05;
+    time += 3 * ctx.clock.delta;
 
     // Generate simulated waveform
     for (let i = 0; i < numBars; i++) {
@@ -74,7 +74,7 @@ const audioReactiveSketch: Sketch = (p: p5) => {
       const x = p.cos(angle) * r;
       const y = p.sin(angle) * r;
 
-      const hue = (p.frameCount + i * 5) % 360;
+      const hue = (ctx.clock.time * 60 + i * 5) % 360;
       p.stroke(hue, 70, 100, 60);
       p.vertex(x, y);
     }
@@ -89,22 +89,9 @@ const audioReactiveSketch: Sketch = (p: p5) => {
     p.ellipse(0, 0, pulseSize * 1.5);
     p.fill(200, 70, 100, 50);
     p.ellipse(0, 0, pulseSize);
-
-    // Reset translation for text
-    p.resetMatrix();
-
-    // Draw instruction
-    p.fill(255, 50);
-    p.textSize(14);
-    p.textAlign(p.CENTER);
-    p.text('Simulated audio visualization - Click to change pattern', p.width / 2, p.height - 30);
-  };
-
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     // Add some randomness to the pattern
     time += p.random(p.PI);
   };
@@ -17,7 +17,8 @@ interface Target {
   hue: number;
 }
 
-const autonomousAgentsSketch: Sketch = (p: p5) => {
+const autonomousAgentsSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['autonomous-agents'];
   let vehicles: Vehicle[] = [];
   let targets: Target[] = [];
   const numVehicles = 150;
@@ -48,7 +49,7 @@ const autonomousAgentsSketch: Sketch = (p: p5) => {
   };
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.background(220, 30, 10);
 
@@ -194,10 +195,12 @@ const autonomousAgentsSketch: Sketch = (p: p5) => {
     vehicle.acc.mult(0);
 
     // Apply behaviors
-    // 1. Flee from mouse
-    const fleeForce = flee(vehicle, p.createVector(p.mouseX, p.mouseY), 150);
-    fleeForce.mult(2);
-    vehicle.acc.add(fleeForce);
+    // 1. Flee from every pointer
+    for (const pointer of ctx.input.pointers) {
+      const fleeForce = flee(vehicle, p.createVector(pointer.x, pointer.y), 150);
+      fleeForce.mult(2);
+      vehicle.acc.add(fleeForce);
+    }
 
     // 2. Seek/Arrive at closest target
     if (closestTarget) {
@@ -275,7 +278,7 @@ const autonomousAgentsSketch: Sketch = (p: p5) => {
 
   const drawTarget = (target: Target) => {
     // Pulsing glow
-    const pulse = Math.sin(p.frameCount * 0.05) * 0.3 + 1;
+    const pulse = Math.sin(ctx.clock.time * 3) * 0.3 + 1;
     const size = 20 * pulse;
 
     // Outer glow
@@ -300,18 +303,22 @@ const autonomousAgentsSketch: Sketch = (p: p5) => {
     p.noStroke();
     p.rect(0, 0, p.width, p.height);
 
-    // Move targets slowly
-    for (const target of targets) {
-      target.pos.x += p.map(p.noise(target.pos.x * 0.01, p.frameCount * 0.005), 0, 1, -0.5, 0.5);
-      target.pos.y += p.map(p.noise(target.pos.y * 0.01, p.frameCount * 0.005 + 100), 0, 1, -0.5, 0.5);
-      target.pos.x = p.constrain(target.pos.x, 50, p.width - 50);
-      target.pos.y = p.constrain(target.pos.y, 50, p.height - 50);
-    }
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      // Move targets slowly
+      const t = ctx.clock.time * 0.3;
+      for (const target of targets) {
+        target.pos.x += p.map(p.noise(target.pos.x * 0.01, t), 0, 1, -0.5, 0.5);
+        target.pos.y += p.map(p.noise(target.pos.y * 0.01, t + 100), 0, 1, -0.5, 0.5);
+        target.pos.x = p.constrain(target.pos.x, 50, p.width - 50);
+        target.pos.y = p.constrain(target.pos.y, 50, p.height - 50);
+      }
 
-    // Update and draw vehicles
-    for (const vehicle of vehicles) {
-      updateVehicle(vehicle);
+      for (const vehicle of vehicles) {
+        updateVehicle(vehicle);
+      }
     }
+
+    // Draw vehicles
     for (const vehicle of vehicles) {
       drawVehicle(vehicle);
     }
@@ -321,54 +328,58 @@ const autonomousAgentsSketch: Sketch = (p: p5) => {
       drawTarget(target);
     }
 
-    // Draw mouse repeller indicator
+    // Draw pointer repeller indicators
     p.noFill();
     p.stroke(0, 80, 100, 30);
     p.strokeWeight(1);
-    p.circle(p.mouseX, p.mouseY, 300);
-
-    // UI
-    p.push();
-    p.fill(0, 0, 80, 70);
-    p.noStroke();
-    p.textSize(12);
-    p.textAlign(p.LEFT, p.TOP);
-    p.text('Move mouse to repel | Click: Add target | R: Reset | T: Toggle trails', 15, 15);
-    p.pop();
+    for (const pointer of ctx.input.pointers) {
+      p.circle(pointer.x, pointer.y, 300);
+    }
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = (pointer) => {
     // Add new target at mouse position
     if (targets.length < 6) {
       targets.push({
-        pos: p.createVector(p.mouseX, p.mouseY),
+        pos: p.createVector(pointer.x, pointer.y),
         hue: p.random(360)
       });
     } else {
       // Move oldest target to mouse position
       targets.shift();
       targets.push({
-        pos: p.createVector(p.mouseX, p.mouseY),
+        pos: p.createVector(pointer.x, pointer.y),
         hue: p.random(360)
       });
     }
   };
 
-  p.keyPressed = () => {
-    if (p.key === 'r' || p.key === 'R') {
+  ctx.addAction({
+    keys: ['r'],
+    label: messages.reset,
+    run: () => {
       p.background(220, 30, 10);
       initializeSystem();
-    }
-    if (p.key === 't' || p.key === 'T') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['t'],
+    label: messages.toggleTrails,
+    run: () => {
       showTrails = !showTrails;
-    }
-    if (p.key === 'w' || p.key === 'W') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['w'],
+    label: messages.toggleWander,
+    run: () => {
       wanderStrength = wanderStrength === 0.5 ? 2 : 0.5;
-    }
-  };
+    },
+  });
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     p.background(220, 30, 10);
     initializeSystem();
   };
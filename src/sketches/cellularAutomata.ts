@@ -1,7 +1,8 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
 
-const cellularAutomataSketch: Sketch = (p: p5) => {
+const cellularAutomataSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['cellular-automata'];
   let cells: number[] = [];
   let cellSize = 4;
   let numCells = 0;
@@ -10,9 +11,13 @@ const cellularAutomataSketch: Sketch = (p: p5) => {
   let ruleSet: number[] = [];
   let colorMode: 'classic' | 'gradient' | 'hue' = 'gradient';
   let baseHue = 200;
+  // Clock time at which the pattern reached the bottom, if it has
+  let finishedAt: number | null = null;
+  // Seconds to show a finished pattern before moving on to a new rule
+  const holdTime = 2;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     initializeCA();
   };
@@ -33,6 +38,7 @@ const cellularAutomataSketch: Sketch = (p: p5) => {
     }
 
     currentRow = 0;
+    finishedAt = null;
     generateRuleSet(rule);
     baseHue = p.random(360);
   };
@@ -98,22 +104,24 @@ const cellularAutomataSketch: Sketch = (p: p5) => {
   };
 
   p.draw = () => {
-    // Draw multiple rows per frame for faster visualization
-    const rowsPerFrame = 3;
+    if (finishedAt !== null) {
+      // Move on to a new rule once the finished pattern has been shown
+      if (ctx.clock.time - finishedAt >= holdTime) {
+        rule = Math.floor(p.random(256));
+        initializeCA();
+      }
+    } else {
+      // Draw multiple rows per simulation step for faster visualization
+      const rowsThisFrame = 3 * ctx.clock.steps;
 
-    for (let r = 0; r < rowsPerFrame; r++) {
-      if (currentRow * cellSize < p.height) {
+      for (let r = 0; r < rowsThisFrame; r++) {
+        if (currentRow * cellSize >= p.height) {
+          finishedAt = ctx.clock.time;
+          break;
+        }
         drawCurrentGeneration();
         calculateNextGeneration();
         currentRow++;
-      } else {
-        // Reset with new rule or same rule
-        setTimeout(() => {
-          rule = Math.floor(p.random(256));
-          initializeCA();
-        }, 2000);
-        p.noLoop();
-        break;
       }
     }
 
@@ -121,76 +129,109 @@ const cellularAutomataSketch: Sketch = (p: p5) => {
     p.push();
     p.fill(0, 0, 8, 80);
     p.noStroke();
-    p.rect(10, 10, 280, 50, 5);
+    p.rect(10, 10, 280, 32, 5);
 
     p.fill(0, 0, 90);
     p.textSize(14);
     p.textAlign(p.LEFT, p.TOP);
-    p.text(`Rule ${rule} | Row: ${currentRow}`, 20, 18);
-    p.textSize(11);
-    p.text('Click: New rule | 1-3: Color mode | R: Restart', 20, 38);
+    p.text(messages.status(rule, currentRow), 20, 18);
     p.pop();
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     // Generate new random rule
     rule = Math.floor(p.random(256));
     initializeCA();
-    p.loop();
   };
 
-  p.keyPressed = () => {
-    if (p.key === 'r' || p.key === 'R') {
+  ctx.addAction({
+    keys: ['r'],
+    label: messages.restart,
+    run: () => {
       initializeCA();
-      p.loop();
-    }
-    if (p.key === '1') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['1'],
+    label: messages.classicColors,
+    run: () => {
       colorMode = 'classic';
-    }
-    if (p.key === '2') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['2'],
+    label: messages.gradientColors,
+    run: () => {
       colorMode = 'gradient';
-    }
-    if (p.key === '3') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['3'],
+    label: messages.hueColors,
+    run: () => {
       colorMode = 'hue';
-    }
-    // Famous rules
-    if (p.key === 'a' || p.key === 'A') {
-      rule = 30; // Rule 30 - chaotic
+    },
+  });
+
+  ctx.addAction({
+    keys: ['a'],
+    label: messages.rule30,
+    run: () => {
+      rule = 30;
       initializeCA();
-      p.loop();
-    }
-    if (p.key === 'b' || p.key === 'B') {
-      rule = 90; // Rule 90 - Sierpinski triangle
+    },
+  });
+
+  ctx.addAction({
+    keys: ['b'],
+    label: messages.rule90,
+    run: () => {
+      rule = 90;
       initializeCA();
-      p.loop();
-    }
-    if (p.key === 'c' || p.key === 'C') {
-      rule = 110; // Rule 110 - Turing complete
+    },
+  });
+
+  ctx.addAction({
+    keys: ['c'],
+    label: messages.rule110,
+    run: () => {
+      rule = 110;
       initializeCA();
-      p.loop();
-    }
-    if (p.key === 'd' || p.key === 'D') {
-      rule = 184; // Rule 184 - traffic flow
+    },
+  });
+
+  ctx.addAction({
+    keys: ['d'],
+    label: messages.rule184,
+    run: () => {
+      rule = 184;
       initializeCA();
-      p.loop();
-    }
-    // Adjust cell size
-    if (p.key === '+' || p.key === '=') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['+', '='],
+    label: messages.largerCells,
+    run: () => {
       cellSize = Math.min(cellSize + 1, 10);
       initializeCA();
-      p.loop();
-    }
-    if (p.key === '-' || p.key === '_') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['-', '_'],
+    label: messages.smallerCells,
+    run: () => {
       cellSize = Math.max(cellSize - 1, 2);
       initializeCA();
-      p.loop();
-    }
-  };
+    },
+  });
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     initializeCA();
-    p.loop();
   };
 };
 
@@ -7,11 +7,11 @@ import type { Sketch } from '@/components/P5Wrapper';
  * Based on the wave equation: Z = sin(n*π*x/L) * sin(m*π*y/L)
  * Points where Z = 0 form the nodal lines
  */
-const chladniPatternsSketch: Sketch = (p: p5) => {
+const chladniPatternsSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['chladni-patterns'];
   let n = 3; // Mode number for x
   let m = 4; // Mode number for y
   let phase = 0;
-  let animating = true;
 
   interface Particle {
     x: number;
@@ -66,7 +66,7 @@ const chladniPatternsSketch: Sketch = (p: p5) => {
   };
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     initParticles();
   };
@@ -75,13 +75,11 @@ const chladniPatternsSketch: Sketch = (p: p5) => {
     // Semi-transparent background for trails
     p.background(15, 30, 10, showParticles ? 10 : 100);
 
-    if (animating) {
-      phase += 0.02;
-    }
+    phase += 1.2 * ctx.clock.delta;
 
     // Interactive mode control
-    n = Math.floor(p.map(p.mouseX, 0, p.width, 1, 8));
-    m = Math.floor(p.map(p.mouseY, 0, p.height, 1, 8));
+    n = Math.floor(p.map(ctx.input.x, 0, p.width, 1, 8));
+    m = Math.floor(p.map(ctx.input.y, 0, p.height, 1, 8));
 
     // Draw the field visualization
     if (showField) {
@@ -90,7 +88,9 @@ const chladniPatternsSketch: Sketch = (p: p5) => {
 
     // Update and draw particles
     if (showParticles) {
-      updateParticles();
+      for (let step = 0; step < ctx.clock.steps; step++) {
+        updateParticles();
+      }
       drawParticles();
     }
 
@@ -102,9 +102,7 @@ const chladniPatternsSketch: Sketch = (p: p5) => {
     p.noStroke();
     p.textSize(14);
     p.textAlign(p.LEFT, p.TOP);
-    p.text(`Mode: n=${n}, m=${m}`, 20, 20);
-    p.text('Move mouse to change vibration modes', 20, 40);
-    p.text('F: Toggle field | P: Toggle particles | Space: Pause | Click: Reset particles', 20, 60);
+    p.text(messages.mode(n, m), 20, 20);
   };
 
   const drawField = () => {
@@ -195,22 +193,28 @@ const chladniPatternsSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.keyPressed = () => {
-    if (p.key === ' ') {
-      animating = !animating;
-    } else if (p.key === 'f' || p.key === 'F') {
+  ctx.addAction({
+    keys: ['f'],
+    label: messages.toggleField,
+    run: () => {
       showField = !showField;
-    } else if (p.key === 'p' || p.key === 'P') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['p'],
+    label: messages.toggleParticles,
+    run: () => {
       showParticles = !showParticles;
-    }
-  };
+    },
+  });
 
-  p.mousePressed = () => {
+  ctx.onReset = () => {
+    phase = 0;
     initParticles();
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     initParticles();
   };
 };
@@ -9,14 +9,14 @@ interface Circle {
   color: p5.Color;
 }
 
-const circlePackingSketch: Sketch = (p: p5) => {
+const circlePackingSketch: Sketch = (p: p5, ctx) => {
   const circles: Circle[] = [];
   const maxCircles = 1000;
   const maxAttempts = 100;
   let finished = false;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.noStroke();
     finished = false;
@@ -67,37 +67,41 @@ const circlePackingSketch: Sketch = (p: p5) => {
     return false;
   };
 
-  p.draw = () => {
-    p.background(20);
-
-    if (!finished) {
-      // Try to add new circles
-      for (let i = 0; i < 5; i++) {
-        if (circles.length < maxCircles) {
-          const newCircle = addNewCircle();
-          if (newCircle) {
-            circles.push(newCircle);
-          }
+  const grow = () => {
+    // Try to add new circles
+    for (let i = 0; i < 5; i++) {
+      if (circles.length < maxCircles) {
+        const newCircle = addNewCircle();
+        if (newCircle) {
+          circles.push(newCircle);
         }
       }
+    }
 
-      // Grow circles
-      let stillGrowing = false;
-      for (const circle of circles) {
-        if (circle.growing) {
-          circle.r += 0.5;
-          if (isColliding(circle)) {
-            circle.r -= 0.5;
-            circle.growing = false;
-          } else {
-            stillGrowing = true;
-          }
+    // Grow circles
+    let stillGrowing = false;
+    for (const circle of circles) {
+      if (circle.growing) {
+        circle.r += 0.5;
+        if (isColliding(circle)) {
+          circle.r -= 0.5;
+          circle.growing = false;
+        } else {
+          stillGrowing = true;
         }
       }
+    }
 
-      if (!stillGrowing && circles.length >= maxCircles) {
-        finished = true;
-      }
+    if (!stillGrowing && circles.length >= maxCircles) {
+      finished = true;
+    }
+  };
+
+  p.draw = () => {
+    p.background(20);
+
+    for (let step = 0; step < ctx.clock.steps && !finished; step++) {
+      grow();
     }
 
     // Draw circles
@@ -111,13 +115,12 @@ const circlePackingSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     circles.length = 0;
     finished = false;
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     circles.length = 0;
     finished = false;
   };
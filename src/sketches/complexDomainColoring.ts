@@ -7,7 +7,8 @@ import type { Sketch } from '@/components/P5Wrapper';
  * Argument (angle) → Hue
  * Magnitude → Brightness
  */
-const complexDomainColoringSketch: Sketch = (p: p5) => {
+const complexDomainColoringSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['complex-domain-coloring'];
   let currentFunction = 0;
   let zoom = 3;
   let centerX = 0;
@@ -93,7 +94,7 @@ const complexDomainColoringSketch: Sketch = (p: p5) => {
   };
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.pixelDensity(1);
     p.noStroke();
@@ -101,7 +102,7 @@ const complexDomainColoringSketch: Sketch = (p: p5) => {
 
   p.draw = () => {
     if (animating) {
-      time += 0.01;
+      time += 0.6 * ctx.clock.delta;
     }
 
     p.loadPixels();
@@ -166,15 +167,13 @@ const complexDomainColoringSketch: Sketch = (p: p5) => {
     // UI
     p.noStroke();
     p.fill(0, 0, 0, 70);
-    p.rect(10, 10, 350, 100);
+    p.rect(10, 10, 350, 70);
 
     p.fill(0, 0, 100);
     p.textSize(16);
     p.textAlign(p.LEFT, p.TOP);
     p.text(`f(z) = ${functionNames[currentFunction]}`, 20, 20);
-    p.text(`Zoom: ${zoom.toFixed(2)} | Center: (${centerX.toFixed(2)}, ${centerY.toFixed(2)})`, 20, 45);
-    p.textSize(12);
-    p.text('←→: Change function | Scroll: Zoom | Drag: Pan | Space: Animate', 20, 75);
+    p.text(messages.view(zoom.toFixed(2), centerX.toFixed(2), centerY.toFixed(2)), 20, 45);
   };
 
   const hsbToRgb = (h: number, s: number, b: number) => {
@@ -189,55 +188,51 @@ const complexDomainColoringSketch: Sketch = (p: p5) => {
     };
   };
 
-  let isDragging = false;
-  let lastMouseX = 0;
-  let lastMouseY = 0;
-
-  p.mousePressed = () => {
-    isDragging = true;
-    lastMouseX = p.mouseX;
-    lastMouseY = p.mouseY;
-  };
-
-  p.mouseDragged = () => {
-    if (isDragging) {
-      const dx = (p.mouseX - lastMouseX) / (p.width / 2) * zoom;
-      const dy = (p.mouseY - lastMouseY) / (p.height / 2) * zoom;
-      centerX -= dx;
-      centerY -= dy;
-      lastMouseX = p.mouseX;
-      lastMouseY = p.mouseY;
-    }
+  // Drag to pan; a second finger pinches to zoom instead
+  ctx.onPointerMove = (pointer) => {
+    if (!pointer.pressed || pointer !== ctx.input.primary) return;
+    centerX -= pointer.dx / (p.width / 2) * zoom;
+    centerY -= pointer.dy / (p.height / 2) * zoom;
   };
 
-  p.mouseReleased = () => {
-    isDragging = false;
+  // Wheel or pinch
+  ctx.onGesture = (gesture) => {
+    zoom = p.constrain(zoom / gesture.zoom, 0.1, 20);
   };
 
-  p.mouseWheel = (event: WheelEvent) => {
-    const zoomFactor = event.deltaY > 0 ? 1.1 : 0.9;
-    zoom *= zoomFactor;
-    zoom = p.constrain(zoom, 0.1, 20);
-    return false;
-  };
-
-  p.keyPressed = () => {
-    if (p.keyCode === 37) { // LEFT_ARROW
+  ctx.addAction({
+    keys: ['ArrowLeft'],
+    label: messages.previousFunction,
+    run: () => {
       currentFunction = (currentFunction - 1 + functionNames.length) % functionNames.length;
-    } else if (p.keyCode === 39) { // RIGHT_ARROW
+    },
+  });
+
+  ctx.addAction({
+    keys: ['ArrowRight'],
+    label: messages.nextFunction,
+    run: () => {
       currentFunction = (currentFunction + 1) % functionNames.length;
-    } else if (p.key === ' ') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['a'],
+    label: messages.toggleAnimation,
+    run: () => {
       animating = !animating;
-    } else if (p.key === 'r' || p.key === 'R') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['r'],
+    label: messages.resetView,
+    run: () => {
       zoom = 3;
       centerX = 0;
       centerY = 0;
-    }
-  };
-
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
-  };
+    },
+  });
 };
 
 export default complexDomainColoringSketch;
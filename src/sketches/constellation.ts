@@ -9,13 +9,13 @@ interface Particle {
   size: number;
 }
 
-const constellationSketch: Sketch = (p: p5) => {
+const constellationSketch: Sketch = (p: p5, ctx) => {
   const particles: Particle[] = [];
   const numParticles = 120;
   const connectionDistance = 120;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
 
     for (let i = 0; i < numParticles; i++) {
@@ -31,15 +31,8 @@ const constellationSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.draw = () => {
-    p.background(220, 30, 15);
-
-    const mouseX = p.mouseX;
-    const mouseY = p.mouseY;
-
-    for (let i = 0; i < particles.length; i++) {
-      const particle = particles[i];
-
+  const update = (mouseX: number, mouseY: number) => {
+    for (const particle of particles) {
       // Mouse interaction - repel particles
       const dx = particle.x - mouseX;
       const dy = particle.y - mouseY;
@@ -61,6 +54,21 @@ const constellationSketch: Sketch = (p: p5) => {
       // Keep in bounds
       particle.x = p.constrain(particle.x, 0, p.width);
       particle.y = p.constrain(particle.y, 0, p.height);
+    }
+  };
+
+  p.draw = () => {
+    p.background(220, 30, 15);
+
+    const mouseX = ctx.input.x;
+    const mouseY = ctx.input.y;
+
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      update(mouseX, mouseY);
+    }
+
+    for (let i = 0; i < particles.length; i++) {
+      const particle = particles[i];
 
       // Draw connections
       for (let j = i + 1; j < particles.length; j++) {
@@ -93,11 +101,7 @@ const constellationSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
-  };
-
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     // Reset particles
     for (let i = 0; i < particles.length; i++) {
       const angle = p.random(p.TWO_PI);
@@ -1,5 +1,6 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
+import { FIXED_STEP } from '@/lib/sketchRuntime';
 
 interface TrailPoint {
   x: number;
@@ -13,39 +14,54 @@ interface TrailPoint {
   type: 'circle' | 'square' | 'triangle';
 }
 
-const cursorTrailSketch: Sketch = (p: p5) => {
+const cursorTrailSketch: Sketch = (p: p5, ctx) => {
   const trail: TrailPoint[] = [];
   const maxTrailLength = 100;
-  let lastMouseX = 0;
-  let lastMouseY = 0;
   let hueOffset = 0;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.noStroke();
-    lastMouseX = p.mouseX;
-    lastMouseY = p.mouseY;
+  };
+
+  const updateTrail = () => {
+    for (let i = trail.length - 1; i >= 0; i--) {
+      const point = trail[i];
+
+      // Apply physics
+      point.x += point.vx;
+      point.y += point.vy;
+      point.vy += 0.1; // Gravity
+      point.vx *= 0.98; // Friction
+      point.vy *= 0.98;
+      point.life -= 1 / point.maxLife;
+
+      if (point.life <= 0) {
+        trail.splice(i, 1);
+      }
+    }
   };
 
   p.draw = () => {
     p.background(250, 10, 15, 15);
-    hueOffset += 0.5;
+    hueOffset += 30 * ctx.clock.delta;
 
-    // Calculate mouse velocity
-    const vx = p.mouseX - lastMouseX;
-    const vy = p.mouseY - lastMouseY;
-    const speed = p.sqrt(vx * vx + vy * vy);
+    // Add new trail points behind every moving pointer
+    for (const pointer of ctx.input.pointers) {
+      // Movement per simulation step
+      const vx = pointer.vx * FIXED_STEP;
+      const vy = pointer.vy * FIXED_STEP;
+      const speed = p.sqrt(vx * vx + vy * vy);
+      if (speed <= 1) continue;
 
-    // Add new trail points based on mouse movement
-    if (speed > 1) {
       const numPoints = Math.min(Math.ceil(speed / 3), 5);
       for (let i = 0; i < numPoints; i++) {
         if (trail.length < maxTrailLength) {
           const types: ('circle' | 'square' | 'triangle')[] = ['circle', 'square', 'triangle'];
           trail.push({
-            x: p.mouseX + p.random(-5, 5),
-            y: p.mouseY + p.random(-5, 5),
+            x: pointer.x + p.random(-5, 5),
+            y: pointer.y + p.random(-5, 5),
             vx: vx * 0.2 + p.random(-2, 2),
             vy: vy * 0.2 + p.random(-2, 2),
             life: 1,
@@ -58,23 +74,15 @@ const cursorTrailSketch: Sketch = (p: p5) => {
       }
     }
 
-    // Update and draw trail points
+    // Update trail physics
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      updateTrail();
+    }
+
+    // Draw trail points
     for (let i = trail.length - 1; i >= 0; i--) {
       const point = trail[i];
 
-      // Apply physics
-      point.x += point.vx;
-      point.y += point.vy;
-      point.vy += 0.1; // Gravity
-      point.vx *= 0.98; // Friction
-      point.vy *= 0.98;
-      point.life -= 1 / point.maxLife;
-
-      if (point.life <= 0) {
-        trail.splice(i, 1);
-        continue;
-      }
-
       // Draw point
       const alpha = point.life * 80;
       const size = point.size * point.life;
@@ -83,7 +91,7 @@ const cursorTrailSketch: Sketch = (p: p5) => {
 
       p.push();
       p.translate(point.x, point.y);
-      p.rotate(p.frameCount * 0.05 + i);
+      p.rotate(ctx.clock.time * 3 + i);
 
       switch (point.type) {
         case 'circle':
@@ -104,25 +112,24 @@ const cursorTrailSketch: Sketch = (p: p5) => {
 
     // Draw cursor glow
     p.noStroke();
-    for (let i = 3; i > 0; i--) {
-      const alpha = p.map(i, 3, 0, 20, 0);
-      p.fill(hueOffset % 360, 60, 100, alpha);
-      p.ellipse(p.mouseX, p.mouseY, i * 20, i * 20);
+    for (const pointer of ctx.input.pointers) {
+      for (let i = 3; i > 0; i--) {
+        const alpha = p.map(i, 3, 0, 20, 0);
+        p.fill(hueOffset % 360, 60, 100, alpha);
+        p.ellipse(pointer.x, pointer.y, i * 20, i * 20);
+      }
     }
-
-    lastMouseX = p.mouseX;
-    lastMouseY = p.mouseY;
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = (pointer) => {
     // Burst effect on click
     for (let i = 0; i < 30; i++) {
       const angle = p.random(p.TWO_PI);
       const speed = p.random(5, 15);
       const types: ('circle' | 'square' | 'triangle')[] = ['circle', 'square', 'triangle'];
       trail.push({
-        x: p.mouseX,
-        y: p.mouseY,
+        x: pointer.x,
+        y: pointer.y,
         vx: p.cos(angle) * speed,
         vy: p.sin(angle) * speed,
         life: 1,
@@ -133,10 +140,8 @@ const cursorTrailSketch: Sketch = (p: p5) => {
       });
     }
   };
-
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
-  };
 };
 
+cursorTrailSketch.requires = ['pointer'];
+
 export default cursorTrailSketch;
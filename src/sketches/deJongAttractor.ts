@@ -8,7 +8,8 @@ import type { Sketch } from '@/components/P5Wrapper';
  * x_{n+1} = sin(a * y_n) - cos(b * x_n)
  * y_{n+1} = sin(c * x_n) - cos(d * y_n)
  */
-const deJongAttractorSketch: Sketch = (p: p5) => {
+const deJongAttractorSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['de-jong-attractor'];
   // Attractor parameters
   let a = 1.4;
   let b = -2.3;
@@ -18,7 +19,7 @@ const deJongAttractorSketch: Sketch = (p: p5) => {
   // Rendering parameters
   let x = 0;
   let y = 0;
-  const iterationsPerFrame = 5000;
+  const iterationsPerStep = 5000;
   let totalIterations = 0;
   const maxIterations = 2000000;
 
@@ -28,7 +29,6 @@ const deJongAttractorSketch: Sketch = (p: p5) => {
 
   // Color parameters
   let hueBase = 0;
-  let isAnimating = true;
 
   const presets = [
     { a: 1.4, b: -2.3, c: 2.4, d: -2.1 },
@@ -70,7 +70,7 @@ const deJongAttractorSketch: Sketch = (p: p5) => {
   };
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.pixelDensity(1);
     initBuffer();
@@ -79,10 +79,10 @@ const deJongAttractorSketch: Sketch = (p: p5) => {
   };
 
   p.draw = () => {
-    if (!isAnimating || totalIterations >= maxIterations) return;
+    if (totalIterations >= maxIterations) return;
 
     // Iterate the attractor
-    for (let i = 0; i < iterationsPerFrame; i++) {
+    for (let i = 0; i < iterationsPerStep * ctx.clock.steps; i++) {
       // De Jong equations
       const xNew = Math.sin(a * y) - Math.cos(b * x);
       const yNew = Math.sin(c * x) - Math.cos(d * y);
@@ -138,9 +138,9 @@ const deJongAttractorSketch: Sketch = (p: p5) => {
     p.noStroke();
     p.textSize(14);
     p.textAlign(p.LEFT, p.TOP);
-    p.text(`Iterations: ${(totalIterations / 1000000).toFixed(2)}M`, 20, 20);
+    p.text(messages.iterations((totalIterations / 1000000).toFixed(2)), 20, 20);
     p.text(`a: ${a.toFixed(3)} b: ${b.toFixed(3)} c: ${c.toFixed(3)} d: ${d.toFixed(3)}`, 20, 40);
-    p.text(`Preset: ${currentPreset + 1}/${presets.length} | Press 1-6 for presets, R for random, SPACE to pause`, 20, 60);
+    p.text(messages.preset(currentPreset + 1, presets.length), 20, 60);
   };
 
   // Helper function to convert HSB to RGB
@@ -156,30 +156,49 @@ const deJongAttractorSketch: Sketch = (p: p5) => {
     };
   };
 
-  p.keyPressed = () => {
-    if (p.key === ' ') {
-      isAnimating = !isAnimating;
-    } else if (p.key === 'r' || p.key === 'R') {
+  ctx.addAction({
+    keys: ['r'],
+    label: messages.randomParameters,
+    run: () => {
       a = p.random(-3, 3);
       b = p.random(-3, 3);
       c = p.random(-3, 3);
       d = p.random(-3, 3);
       reset();
-    } else if (p.key >= '1' && p.key <= '6') {
-      currentPreset = parseInt(p.key) - 1;
-      applyPreset(currentPreset);
-    }
+    },
+  });
+
+  presets.forEach((_, index) => {
+    ctx.addAction({
+      keys: [String(index + 1)],
+      label: messages.presetAction(index + 1),
+      run: () => {
+        currentPreset = index;
+        applyPreset(currentPreset);
+      },
+    });
+  });
+
+  ctx.onPointerDown = (pointer) => {
+    // Mouse position affects parameters
+    a = p.map(pointer.x, 0, p.width, -3, 3);
+    b = p.map(pointer.y, 0, p.height, -3, 3);
+    reset();
   };
 
-  p.mousePressed = () => {
-    // Mouse position affects parameters
-    a = p.map(p.mouseX, 0, p.width, -3, 3);
-    b = p.map(p.mouseY, 0, p.height, -3, 3);
+  ctx.onSerialize = () => ({ a, b, c, d, hue: hueBase });
+
+  ctx.onRestore = (data) => {
+    const saved = (data ?? {}) as Record<string, unknown>;
+    const values = [saved.a, saved.b, saved.c, saved.d];
+    if (!values.every((value): value is number => Number.isFinite(value))) return;
+
+    [a, b, c, d] = values;
     reset();
+    if (typeof saved.hue === 'number' && Number.isFinite(saved.hue)) hueBase = saved.hue;
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     reset();
   };
 };
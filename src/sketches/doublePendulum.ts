@@ -16,7 +16,8 @@ interface Pendulum {
   originY: number;
 }
 
-const doublePendulumSketch: Sketch = (p: p5) => {
+const doublePendulumSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['double-pendulum'];
   let pendulums: Pendulum[] = [];
   const numPendulums = 5;
   const g = 1; // Gravity
@@ -24,7 +25,7 @@ const doublePendulumSketch: Sketch = (p: p5) => {
   let showArms = true;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.background(0, 0, 8);
 
@@ -149,33 +150,36 @@ const doublePendulumSketch: Sketch = (p: p5) => {
     p.noStroke();
     p.rect(0, 0, p.width, p.height);
 
-    // Update and draw each pendulum
+    // Integrate on the fixed timestep so the motion doesn't depend on frame rate
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      for (const pend of pendulums) {
+        updatePendulum(pend);
+      }
+    }
+
     for (const pend of pendulums) {
-      updatePendulum(pend);
       drawPendulum(pend);
     }
-
-    // Draw legend
-    p.push();
-    p.fill(0, 0, 80, 60);
-    p.noStroke();
-    p.textSize(12);
-    p.textAlign(p.LEFT, p.TOP);
-    p.text('Click: Reset | Space: Toggle arms | R: Randomize', 15, 15);
-    p.pop();
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     // Reset with new random initial conditions
     p.background(0, 0, 8);
     initializePendulums();
   };
 
-  p.keyPressed = () => {
-    if (p.key === ' ') {
+  ctx.addAction({
+    keys: ['a'],
+    label: messages.toggleArms,
+    run: () => {
       showArms = !showArms;
-    }
-    if (p.key === 'r' || p.key === 'R') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['r'],
+    label: messages.randomize,
+    run: () => {
       p.background(0, 0, 8);
       pendulums = [];
       const baseLength = Math.min(p.width, p.height) * 0.15;
@@ -196,17 +200,21 @@ const doublePendulumSketch: Sketch = (p: p5) => {
           originY: p.height * 0.35
         });
       }
-    }
-    if (p.key === 'c' || p.key === 'C') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['c'],
+    label: messages.clearTrails,
+    run: () => {
       p.background(0, 0, 8);
       for (const pend of pendulums) {
         pend.trail = [];
       }
-    }
-  };
+    },
+  });
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     p.background(0, 0, 8);
     initializePendulums();
   };
@@ -1,5 +1,7 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
+import type { ParamSchema, ParamValues } from '@/lib/params';
+import type { QualitySchema, QualityValues } from '@/lib/quality';
 
 interface Boid {
   pos: p5.Vector;
@@ -10,19 +12,27 @@ interface Boid {
   hue: number;
 }
 
-const flockingSketch: Sketch = (p: p5) => {
+const paramSchema = {
+  alignWeight: { type: 'number', min: 0, max: 3, step: 0.1, default: 1.0 },
+  cohesionWeight: { type: 'number', min: 0, max: 3, step: 0.1, default: 1.0 },
+  separationWeight: { type: 'number', min: 0, max: 4, step: 0.1, default: 1.5 },
+  perceptionRadius: { type: 'number', min: 10, max: 150, step: 1, default: 50 },
+  separationRadius: { type: 'number', min: 5, max: 100, step: 1, default: 25 },
+  showMesh: { type: 'boolean', default: true },
+  connectionDistance: { type: 'number', min: 20, max: 150, step: 10, default: 50 },
+} satisfies ParamSchema;
+
+// Neighbor searches are O(n²), so the boid count is the main cost
+const qualitySchema = {
+  numBoids: { low: 60, high: 200, integer: true },
+} satisfies QualitySchema;
+
+const flockingSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches.flocking;
+  const params = ctx.params as ParamValues<typeof paramSchema>;
+  const quality = ctx.quality as QualityValues<typeof qualitySchema>;
   let boids: Boid[] = [];
-  const numBoids = 200;
-  let showMesh = true;
-  let connectionDistance = 50;
-
-  // Flocking parameters
-  let alignWeight = 1.0;
-  let cohesionWeight = 1.0;
-  let separationWeight = 1.5;
-
-  const perceptionRadius = 50;
-  const separationRadius = 25;
+  let boidTarget = quality.numBoids;
 
   // Helper functions
   const randomVector = () => {
@@ -39,26 +49,30 @@ const flockingSketch: Sketch = (p: p5) => {
   };
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.background(210, 40, 12);
 
     initializeBoids();
   };
 
+  const createBoid = (x: number, y: number): Boid => {
+    const vel = randomVector();
+    vel.mult(p.random(2, 4));
+    return {
+      pos: p.createVector(x, y),
+      vel: vel,
+      acc: p.createVector(0, 0),
+      maxSpeed: p.random(3, 5),
+      maxForce: 0.2,
+      hue: p.random(180, 240)
+    };
+  };
+
   const initializeBoids = () => {
     boids = [];
-    for (let i = 0; i < numBoids; i++) {
-      const vel = randomVector();
-      vel.mult(p.random(2, 4));
-      boids.push({
-        pos: p.createVector(p.random(p.width), p.random(p.height)),
-        vel: vel,
-        acc: p.createVector(0, 0),
-        maxSpeed: p.random(3, 5),
-        maxForce: 0.2,
-        hue: p.random(180, 240)
-      });
+    for (let i = 0; i < quality.numBoids; i++) {
+      boids.push(createBoid(p.random(p.width), p.random(p.height)));
     }
   };
 
@@ -69,7 +83,7 @@ const flockingSketch: Sketch = (p: p5) => {
 
     for (const other of boids) {
       const d = vectorDist(boid.pos, other.pos);
-      if (other !== boid && d < perceptionRadius) {
+      if (other !== boid && d < params.perceptionRadius) {
         steering.add(other.vel);
         total++;
       }
@@ -92,7 +106,7 @@ const flockingSketch: Sketch = (p: p5) => {
 
     for (const other of boids) {
       const d = vectorDist(boid.pos, other.pos);
-      if (other !== boid && d < perceptionRadius) {
+      if (other !== boid && d < params.perceptionRadius) {
         steering.add(other.pos);
         total++;
       }
@@ -116,7 +130,7 @@ const flockingSketch: Sketch = (p: p5) => {
 
     for (const other of boids) {
       const d = vectorDist(boid.pos, other.pos);
-      if (other !== boid && d < separationRadius) {
+      if (other !== boid && d < params.separationRadius) {
         const diff = vectorSub(boid.pos, other.pos);
         diff.div(d * d); // Weight by distance squared
         steering.add(diff);
@@ -134,22 +148,26 @@ const flockingSketch: Sketch = (p: p5) => {
     return steering;
   };
 
-  // Flee from mouse
+  // Flee from every pointer
   const flee = (boid: Boid): p5.Vector => {
-    const mouse = p.createVector(p.mouseX, p.mouseY);
-    const d = vectorDist(boid.pos, mouse);
+    const force = p.createVector(0, 0);
     const fleeRadius = 100;
 
-    if (d < fleeRadius) {
-      const desired = vectorSub(boid.pos, mouse);
-      const strength = p.map(d, 0, fleeRadius, boid.maxSpeed * 2, 0);
-      desired.setMag(strength);
-      const steer = vectorSub(desired, boid.vel);
-      steer.limit(boid.maxForce * 3);
-      return steer;
+    for (const pointer of ctx.input.pointers) {
+      const position = p.createVector(pointer.x, pointer.y);
+      const d = vectorDist(boid.pos, position);
+
+      if (d < fleeRadius) {
+        const desired = vectorSub(boid.pos, position);
+        const strength = p.map(d, 0, fleeRadius, boid.maxSpeed * 2, 0);
+        desired.setMag(strength);
+        const steer = vectorSub(desired, boid.vel);
+        steer.limit(boid.maxForce * 3);
+        force.add(steer);
+      }
     }
 
-    return p.createVector(0, 0);
+    return force;
   };
 
   const updateBoid = (boid: Boid) => {
@@ -162,9 +180,9 @@ const flockingSketch: Sketch = (p: p5) => {
     const separationForce = separation(boid);
     const fleeForce = flee(boid);
 
-    alignForce.mult(alignWeight);
-    cohesionForce.mult(cohesionWeight);
-    separationForce.mult(separationWeight);
+    alignForce.mult(params.alignWeight);
+    cohesionForce.mult(params.cohesionWeight);
+    separationForce.mult(params.separationWeight);
 
     boid.acc.add(alignForce);
     boid.acc.add(cohesionForce);
@@ -187,7 +205,7 @@ const flockingSketch: Sketch = (p: p5) => {
     let neighborCount = 0;
     for (const other of boids) {
       const d = vectorDist(boid.pos, other.pos);
-      if (other !== boid && d < perceptionRadius) {
+      if (other !== boid && d < params.perceptionRadius) {
         neighborHue += other.hue;
         neighborCount++;
       }
@@ -212,6 +230,7 @@ const flockingSketch: Sketch = (p: p5) => {
   };
 
   const drawConnections = () => {
+    const { connectionDistance } = params;
     for (let i = 0; i < boids.length; i++) {
       for (let j = i + 1; j < boids.length; j++) {
         const d = vectorDist(boids[i].pos, boids[j].pos);
@@ -232,21 +251,29 @@ const flockingSketch: Sketch = (p: p5) => {
     p.rect(0, 0, p.width, p.height);
 
     // Draw connections first (behind boids)
-    if (showMesh) {
-      drawConnections();
+    if (params.showMesh) {
+      ctx.measure('mesh', drawConnections);
     }
 
     // Update and draw all boids
+    ctx.measure('update', () => {
+      for (let step = 0; step < ctx.clock.steps; step++) {
+        for (const boid of boids) {
+          updateBoid(boid);
+        }
+      }
+    });
     for (const boid of boids) {
-      updateBoid(boid);
       drawBoid(boid);
     }
 
-    // Draw mouse repel indicator
+    // Draw pointer repel indicators
     p.noFill();
     p.stroke(0, 80, 100, 20);
     p.strokeWeight(1);
-    p.circle(p.mouseX, p.mouseY, 200);
+    for (const pointer of ctx.input.pointers) {
+      p.circle(pointer.x, pointer.y, 200);
+    }
 
     // UI
     p.push();
@@ -254,24 +281,23 @@ const flockingSketch: Sketch = (p: p5) => {
     p.noStroke();
     p.textSize(12);
     p.textAlign(p.LEFT, p.TOP);
-    p.text(`Boids: ${boids.length} | M: Toggle mesh | R: Reset | +/-: Connection distance`, 15, 15);
-    p.text(`Align: ${alignWeight.toFixed(1)} | Cohesion: ${cohesionWeight.toFixed(1)} | Separation: ${separationWeight.toFixed(1)}`, 15, 32);
+    p.text(messages.boids(boids.length), 15, 15);
+    p.text(
+      messages.weights(
+        params.alignWeight.toFixed(1),
+        params.cohesionWeight.toFixed(1),
+        params.separationWeight.toFixed(1),
+      ),
+      15,
+      32,
+    );
     p.pop();
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = (pointer) => {
     // Add boids at mouse position
     for (let i = 0; i < 10; i++) {
-      const vel = randomVector();
-      vel.mult(p.random(2, 4));
-      boids.push({
-        pos: p.createVector(p.mouseX + p.random(-20, 20), p.mouseY + p.random(-20, 20)),
-        vel: vel,
-        acc: p.createVector(0, 0),
-        maxSpeed: p.random(3, 5),
-        maxForce: 0.2,
-        hue: p.random(180, 240)
-      });
+      boids.push(createBoid(pointer.x + p.random(-20, 20), pointer.y + p.random(-20, 20)));
     }
 
     // Limit total boids
@@ -280,36 +306,81 @@ const flockingSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.keyPressed = () => {
-    if (p.key === 'm' || p.key === 'M') {
-      showMesh = !showMesh;
-    }
-    if (p.key === 'r' || p.key === 'R') {
+  ctx.addAction({
+    keys: ['m'],
+    label: messages.toggleMesh,
+    run: () => {
+      ctx.setParam('showMesh', !params.showMesh);
+    },
+  });
+
+  ctx.addAction({
+    keys: ['r'],
+    label: messages.reset,
+    run: () => {
       p.background(210, 40, 12);
       initializeBoids();
-    }
-    if (p.key === '=' || p.key === '+') {
-      connectionDistance = Math.min(connectionDistance + 10, 150);
-    }
-    if (p.key === '-' || p.key === '_') {
-      connectionDistance = Math.max(connectionDistance - 10, 20);
-    }
-    // Adjust weights
-    if (p.key === '1') {
-      alignWeight = alignWeight === 1.0 ? 2.0 : 1.0;
-    }
-    if (p.key === '2') {
-      cohesionWeight = cohesionWeight === 1.0 ? 2.0 : 1.0;
-    }
-    if (p.key === '3') {
-      separationWeight = separationWeight === 1.5 ? 3.0 : 1.5;
-    }
+    },
+  });
+
+  ctx.addAction({
+    keys: ['+', '='],
+    label: messages.longerConnections,
+    run: () => {
+      ctx.setParam('connectionDistance', params.connectionDistance + 10);
+    },
+  });
+
+  ctx.addAction({
+    keys: ['-', '_'],
+    label: messages.shorterConnections,
+    run: () => {
+      ctx.setParam('connectionDistance', params.connectionDistance - 10);
+    },
+  });
+
+  ctx.addAction({
+    keys: ['1'],
+    label: messages.strongAlignment,
+    run: () => {
+      ctx.setParam('alignWeight', params.alignWeight === 1.0 ? 2.0 : 1.0);
+    },
+  });
+
+  ctx.addAction({
+    keys: ['2'],
+    label: messages.strongCohesion,
+    run: () => {
+      ctx.setParam('cohesionWeight', params.cohesionWeight === 1.0 ? 2.0 : 1.0);
+    },
+  });
+
+  ctx.addAction({
+    keys: ['3'],
+    label: messages.strongSeparation,
+    run: () => {
+      ctx.setParam('separationWeight', params.separationWeight === 1.5 ? 3.0 : 1.5);
+    },
+  });
+
+  ctx.onResize = () => {
+    p.background(210, 40, 12);
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
-    p.background(210, 40, 12);
+  ctx.onQualityChange = () => {
+    // Drop the oldest boids or add new ones, keeping any added by clicking
+    const change = quality.numBoids - boidTarget;
+    boidTarget = quality.numBoids;
+    if (change < 0) {
+      boids.splice(0, Math.min(-change, boids.length));
+    }
+    for (let i = 0; i < change; i++) {
+      boids.push(createBoid(p.random(p.width), p.random(p.height)));
+    }
   };
 };
 
+flockingSketch.params = paramSchema;
+flockingSketch.quality = qualitySchema;
+
 export default flockingSketch;
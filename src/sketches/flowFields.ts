@@ -1,44 +1,62 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
+import type { ParamSchema, ParamValues } from '@/lib/params';
 
-const flowFieldsSketch: Sketch = (p: p5) => {
+const paramSchema = {
+  num: { type: 'number', min: 200, max: 5000, step: 100, default: 2000 },
+  noiseScale: { type: 'number', min: 0.001, max: 0.05, step: 0.001, default: 0.01 },
+  speed: { type: 'number', min: 0.5, max: 5, step: 0.1, default: 1.5 },
+  opacity: { type: 'number', min: 1, max: 60, step: 1, default: 15 },
+} satisfies ParamSchema;
+
+const flowFieldsSketch: Sketch = (p: p5, ctx) => {
+  const params = ctx.params as ParamValues<typeof paramSchema>;
   const particles: p5.Vector[] = [];
-  const num = 2000;
-  const noiseScale = 0.01;
   let time = 0;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.background(20);
     p.colorMode(p.HSB, 360, 100, 100, 100);
 
-    for (let i = 0; i < num; i++) {
-      particles.push(p.createVector(p.random(p.width), p.random(p.height)));
-    }
+    initParticles();
 
     p.stroke(255, 50);
     p.strokeWeight(1);
   };
 
+  const initParticles = () => {
+    particles.length = 0;
+    for (let i = 0; i < params.num; i++) {
+      particles.push(p.createVector(p.random(p.width), p.random(p.height)));
+    }
+  };
+
   p.draw = () => {
-    time += 0.002;
+    const { noiseScale, speed } = params;
+    const hueShift = ctx.clock.time * 6;
 
-    for (let i = 0; i < num; i++) {
-      const particle = particles[i];
-      const n = p.noise(particle.x * noiseScale, particle.y * noiseScale, time);
-      const angle = p.TAU * n * 2;
+    // Particles leave their trail one fixed step at a time
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      time += 0.002;
 
-      particle.x += p.cos(angle) * 1.5;
-      particle.y += p.sin(angle) * 1.5;
+      for (let i = 0; i < particles.length; i++) {
+        const particle = particles[i];
+        const n = p.noise(particle.x * noiseScale, particle.y * noiseScale, time);
+        const angle = p.TAU * n * 2;
 
-      if (!onScreen(particle)) {
-        particle.x = p.random(p.width);
-        particle.y = p.random(p.height);
-      }
+        particle.x += p.cos(angle) * speed;
+        particle.y += p.sin(angle) * speed;
+
+        if (!onScreen(particle)) {
+          particle.x = p.random(p.width);
+          particle.y = p.random(p.height);
+        }
 
-      const hue = (n * 360 + p.frameCount * 0.1) % 360;
-      p.stroke(hue, 70, 90, 15);
-      p.point(particle.x, particle.y);
+        const hue = (n * 360 + hueShift) % 360;
+        p.stroke(hue, 70, 90, params.opacity);
+        p.point(particle.x, particle.y);
+      }
     }
   };
 
@@ -46,18 +64,26 @@ const flowFieldsSketch: Sketch = (p: p5) => {
     return v.x >= 0 && v.x <= p.width && v.y >= 0 && v.y <= p.height;
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     p.background(20);
   };
 
-  p.mousePressed = () => {
+  ctx.onReset = () => {
+    time = 0;
     p.background(20);
-    for (let i = 0; i < num; i++) {
+    for (let i = 0; i < particles.length; i++) {
       particles[i].x = p.random(p.width);
       particles[i].y = p.random(p.height);
     }
   };
+
+  ctx.onParamChange = (key) => {
+    if (key === 'num') {
+      initParticles();
+    }
+  };
 };
 
+flowFieldsSketch.params = paramSchema;
+
 export default flowFieldsSketch;
@@ -6,7 +6,8 @@ import type { Sketch } from '@/components/P5Wrapper';
  * Any complex closed curve can be represented as a sum of rotating circles (epicycles)
  * f(t) = a0/2 + Σ(an*cos(nωt) + bn*sin(nωt))
  */
-const fourierSeriesSketch: Sketch = (p: p5) => {
+const fourierSeriesSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['fourier-series'];
   interface Epicycle {
     freq: number;
     amp: number;
@@ -82,6 +83,18 @@ const fourierSeriesSketch: Sketch = (p: p5) => {
     path = [];
   };
 
+  // Pen position of a set of epicycles at the current time, without drawing
+  const sumEpicycles = (rotation: number, epicycles: Epicycle[]) => {
+    let x = 0;
+    let y = 0;
+    for (let i = 0; i < Math.min(epicycles.length, 50); i++) {
+      const { freq, amp, phase } = epicycles[i];
+      x += amp * p.cos(freq * time + phase + rotation);
+      y += amp * p.sin(freq * time + phase + rotation);
+    }
+    return { x, y };
+  };
+
   const drawEpicycles = (x: number, y: number, rotation: number, epicycles: Epicycle[]): p5.Vector => {
     for (let i = 0; i < Math.min(epicycles.length, 50); i++) {
       const prevX = x;
@@ -111,7 +124,7 @@ const fourierSeriesSketch: Sketch = (p: p5) => {
   };
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     generatePresetShape();
   };
@@ -144,8 +157,25 @@ const fourierSeriesSketch: Sketch = (p: p5) => {
     p.line(150 + vY.x, centerY + vY.y, drawX, drawY);
     p.line(centerX + vX.x, 150 + vX.y, drawX, drawY);
 
-    // Add point to path
-    path.unshift(p.createVector(drawX, drawY));
+    // Trace one sample of the drawing per simulation step
+    const dt = p.TWO_PI / drawing.length;
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      const penX = sumEpicycles(0, epicyclesX).x;
+      const penY = sumEpicycles(p.HALF_PI, epicyclesY).y;
+      path.unshift(p.createVector(centerX + penX, centerY + penY));
+      time += dt;
+
+      // Limit path length
+      if (path.length > drawing.length) {
+        path.pop();
+      }
+
+      // Reset when complete
+      if (time > p.TWO_PI) {
+        time = 0;
+        path = [];
+      }
+    }
 
     // Draw the traced path
     p.beginShape();
@@ -164,32 +194,16 @@ const fourierSeriesSketch: Sketch = (p: p5) => {
     p.noStroke();
     p.ellipse(drawX, drawY, 10);
 
-    // Update time
-    const dt = p.TWO_PI / drawing.length;
-    time += dt;
-
-    // Limit path length
-    if (path.length > drawing.length) {
-      path.pop();
-    }
-
-    // Reset when complete
-    if (time > p.TWO_PI) {
-      time = 0;
-      path = [];
-    }
-
-    // Instructions
+    // Status
     p.fill(0, 0, 100);
     p.noStroke();
     p.textSize(14);
     p.textAlign(p.LEFT, p.TOP);
-    p.text('Click and drag to draw a custom shape, or click to regenerate', 20, 20);
-    p.text(`Mode: ${mode} | Epicycles: ${Math.min(epicyclesX.length, 50)}`, 20, 40);
+    p.text(messages.status(mode, Math.min(epicyclesX.length, 50)), 20, 20);
   };
 
-  p.mousePressed = () => {
-    if (p.mouseX > 250 && p.mouseY > 200) {
+  ctx.onPointerDown = (pointer) => {
+    if (pointer.x > 250 && pointer.y > 200) {
       userDrawing = [];
       isDrawing = true;
       mode = 'custom';
@@ -199,15 +213,15 @@ const fourierSeriesSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.mouseDragged = () => {
-    if (isDrawing && p.mouseX > 250 && p.mouseY > 200) {
-      const x = p.mouseX - p.width / 2;
-      const y = p.mouseY - p.height / 2;
+  ctx.onPointerMove = (pointer) => {
+    if (isDrawing && pointer.pressed && pointer.x > 250 && pointer.y > 200) {
+      const x = pointer.x - p.width / 2;
+      const y = pointer.y - p.height / 2;
       userDrawing.push(p.createVector(x, y));
     }
   };
 
-  p.mouseReleased = () => {
+  ctx.onPointerUp = () => {
     if (isDrawing && userDrawing.length > 10) {
       // Resample to fixed number of points
       const resampled: p5.Vector[] = [];
@@ -224,8 +238,26 @@ const fourierSeriesSketch: Sketch = (p: p5) => {
     isDrawing = false;
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  // Only custom drawings need saving; the preset comes back on its own. Points
+  // are stored relative to the canvas size so they fit any screen.
+  ctx.onSerialize = () =>
+    mode === 'custom'
+      ? { points: drawing.map((v) => [+(v.x / p.width).toFixed(4), +(v.y / p.height).toFixed(4)]) }
+      : undefined;
+
+  ctx.onRestore = (data) => {
+    const saved = ((data ?? {}) as Record<string, unknown>).points;
+    if (!Array.isArray(saved)) return;
+
+    const points = saved.filter(
+      (point): point is [number, number] =>
+        Array.isArray(point) && Number.isFinite(point[0]) && Number.isFinite(point[1]),
+    );
+    if (points.length < 2) return;
+
+    drawing = points.map(([x, y]) => p.createVector(x * p.width, y * p.height));
+    mode = 'custom';
+    computeFourier();
   };
 };
 
@@ -1,7 +1,8 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
 
-const fractalTreeSketch: Sketch = (p: p5) => {
+const fractalTreeSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['fractal-tree'];
   let baseAngle = p.PI / 6;
   let lengthRatio = 0.67;
   let initialLength = 0;
@@ -11,9 +12,10 @@ const fractalTreeSketch: Sketch = (p: p5) => {
   let treeStyle: 'natural' | 'symmetric' | 'bonsai' = 'natural';
   let showLeaves = true;
   let colorScheme: 'green' | 'autumn' | 'cherry' = 'green';
+  let treeSeed = ctx.seed;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     initialLength = Math.min(p.height * 0.25, 180);
   };
@@ -151,9 +153,11 @@ const fractalTreeSketch: Sketch = (p: p5) => {
     p.background(220, 15, 10);
 
     // Update wind based on mouse
-    const targetWind = p.map(p.mouseX, 0, p.width, -0.3, 0.3);
-    windStrength = p.lerp(windStrength, targetWind, 0.05);
-    windOffset += 0.01;
+    const targetWind = p.map(ctx.input.x, 0, p.width, -0.3, 0.3);
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      windStrength = p.lerp(windStrength, targetWind, 0.05);
+    }
+    windOffset += 0.6 * ctx.clock.delta;
 
     // Draw ground
     p.noStroke();
@@ -171,7 +175,7 @@ const fractalTreeSketch: Sketch = (p: p5) => {
     p.pop();
 
     // Draw the tree
-    p.randomSeed(42); // Consistent tree shape
+    p.randomSeed(treeSeed); // Consistent tree shape
     drawBranch(treeX, treeY, initialLength, 0, 0);
 
     // UI
@@ -180,46 +184,91 @@ const fractalTreeSketch: Sketch = (p: p5) => {
     p.textSize(12);
     p.textAlign(p.LEFT, p.TOP);
     p.noStroke();
-    p.text(`Style: ${treeStyle} | Color: ${colorScheme} | Move mouse to add wind`, 15, 15);
-    p.text('1-3: Style | Q/W/E: Colors | L: Leaves | +/-: Depth', 15, 32);
+    p.text(messages.status(treeStyle, colorScheme), 15, 15);
     p.pop();
   };
 
-  p.keyPressed = () => {
-    if (p.key === '1') {
+  ctx.addAction({
+    keys: ['1'],
+    label: messages.naturalStyle,
+    run: () => {
       treeStyle = 'natural';
-    }
-    if (p.key === '2') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['2'],
+    label: messages.symmetricStyle,
+    run: () => {
       treeStyle = 'symmetric';
-    }
-    if (p.key === '3') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['3'],
+    label: messages.bonsaiStyle,
+    run: () => {
       treeStyle = 'bonsai';
-    }
-    if (p.key === 'q' || p.key === 'Q') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['q'],
+    label: messages.greenColors,
+    run: () => {
       colorScheme = 'green';
-    }
-    if (p.key === 'w' || p.key === 'W') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['w'],
+    label: messages.autumnColors,
+    run: () => {
       colorScheme = 'autumn';
-    }
-    if (p.key === 'e' || p.key === 'E') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['e'],
+    label: messages.cherryColors,
+    run: () => {
       colorScheme = 'cherry';
-    }
-    if (p.key === 'l' || p.key === 'L') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['l'],
+    label: messages.toggleLeaves,
+    run: () => {
       showLeaves = !showLeaves;
-    }
-    if (p.key === '+' || p.key === '=') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['+', '='],
+    label: messages.deeperBranching,
+    run: () => {
       maxDepth = Math.min(maxDepth + 1, 14);
-    }
-    if (p.key === '-' || p.key === '_') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['-', '_'],
+    label: messages.shallowerBranching,
+    run: () => {
       maxDepth = Math.max(maxDepth - 1, 4);
-    }
-    if (p.key === 'r' || p.key === 'R') {
-      p.randomSeed(Math.floor(p.random(10000)));
-    }
-  };
+    },
+  });
+
+  ctx.addAction({
+    keys: ['r'],
+    label: messages.newTree,
+    run: () => {
+      treeSeed = Math.floor(p.random(10000));
+    },
+  });
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     initialLength = Math.min(p.height * 0.25, 180);
   };
 };
@@ -19,7 +19,8 @@ interface Organism {
   selected: boolean;
 }
 
-const geneticAlgorithmSketch: Sketch = (p: p5) => {
+const geneticAlgorithmSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['genetic-algorithm'];
   let population: Organism[] = [];
   const populationSize = 12;
   const genesPerOrganism = 8;
@@ -31,7 +32,7 @@ const geneticAlgorithmSketch: Sketch = (p: p5) => {
   let gridRows = 3;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     calculateLayout();
     initializePopulation();
@@ -263,11 +264,7 @@ const geneticAlgorithmSketch: Sketch = (p: p5) => {
     p.textSize(18);
     p.textAlign(p.CENTER, p.TOP);
     p.noStroke();
-    p.text(`Generation ${generation} | Selected: ${selectedParents.length}/2+`, p.width / 2, 15);
-
-    p.textSize(12);
-    p.fill(0, 0, 70);
-    p.text('Click organisms to select parents, then press SPACE to evolve', p.width / 2, 42);
+    p.text(messages.status(generation, selectedParents.length), p.width / 2, 15);
 
     // Draw population
     const startX = (p.width - gridCols * (organismSize + 20)) / 2 + 10;
@@ -281,16 +278,10 @@ const geneticAlgorithmSketch: Sketch = (p: p5) => {
 
       drawOrganism(population[i], x, y, organismSize);
     }
-
-    // Instructions at bottom
-    p.fill(0, 0, 60);
-    p.textSize(11);
-    p.textAlign(p.CENTER, p.BOTTOM);
-    p.text('SPACE: Evolve | R: Reset | M: Mutate selected', p.width / 2, p.height - 10);
   };
 
-  p.mousePressed = () => {
-    const organism = getOrganismAtPosition(p.mouseX, p.mouseY);
+  ctx.onPointerDown = (pointer) => {
+    const organism = getOrganismAtPosition(pointer.x, pointer.y);
     if (organism) {
       organism.selected = !organism.selected;
 
@@ -302,27 +293,21 @@ const geneticAlgorithmSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.keyPressed = () => {
-    if (p.key === ' ') {
+  ctx.addAction({
+    keys: ['e'],
+    label: messages.evolveSelected,
+    run: () => {
       if (selectedParents.length >= 2) {
         evolve();
       }
-    }
-    if (p.key === 'r' || p.key === 'R') {
-      initializePopulation();
-    }
-    if (p.key === 'm' || p.key === 'M') {
-      // Mutate all selected
-      for (const org of selectedParents) {
-        const idx = population.indexOf(org);
-        if (idx !== -1) {
-          population[idx] = mutate(org);
-          population[idx].selected = true;
-        }
-      }
-    }
-    if (p.key === 'a' || p.key === 'A') {
-      // Auto-evolve: select random 2-3 and evolve
+    },
+  });
+
+  ctx.addAction({
+    keys: ['a'],
+    label: messages.autoEvolve,
+    run: () => {
+      // Select random 2-3 and evolve
       selectedParents = [];
       const numSelect = Math.floor(p.random(2, 4));
       const shuffled = [...population].sort(() => p.random() - 0.5);
@@ -331,13 +316,91 @@ const geneticAlgorithmSketch: Sketch = (p: p5) => {
         selectedParents.push(shuffled[i]);
       }
       evolve();
-    }
-  };
+    },
+  });
+
+  ctx.addAction({
+    keys: ['m'],
+    label: messages.mutateSelected,
+    run: () => {
+      for (const org of selectedParents) {
+        const idx = population.indexOf(org);
+        if (idx !== -1) {
+          population[idx] = mutate(org);
+          population[idx].selected = true;
+        }
+      }
+    },
+  });
+
+  ctx.addAction({
+    keys: ['r'],
+    label: messages.reset,
+    run: () => {
+      initializePopulation();
+    },
+  });
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     calculateLayout();
   };
+
+  const shapes = ['circle', 'square', 'triangle', 'star'] as const;
+
+  // Genes are saved as compact tuples to keep snapshot links short
+  ctx.onSerialize = () => ({
+    generation,
+    population: population.map((organism) =>
+      organism.genes.map((gene) => [
+        Math.round(gene.hue),
+        Math.round(gene.saturation),
+        Math.round(gene.brightness),
+        +gene.size.toFixed(3),
+        +gene.x.toFixed(3),
+        +gene.y.toFixed(3),
+        +gene.rotation.toFixed(3),
+        shapes.indexOf(gene.shape),
+        Math.round(gene.alpha),
+      ]),
+    ),
+  });
+
+  ctx.onRestore = (data) => {
+    const saved = (data ?? {}) as Record<string, unknown>;
+    if (!Array.isArray(saved.population)) return;
+
+    const restored: Organism[] = [];
+    for (const genes of saved.population.slice(0, populationSize)) {
+      if (!Array.isArray(genes)) return;
+      const valid = genes.every(
+        (gene) => Array.isArray(gene) && gene.length === 9 && gene.every(Number.isFinite) && shapes[gene[7]] !== undefined,
+      );
+      if (!valid || genes.length !== genesPerOrganism) return;
+
+      restored.push({
+        genes: genes.map(([hue, saturation, brightness, size, x, y, rotation, shape, alpha]) => ({
+          hue,
+          saturation,
+          brightness,
+          size,
+          x,
+          y,
+          rotation,
+          shape: shapes[shape],
+          alpha,
+        })),
+        fitness: 0,
+        selected: false,
+      });
+    }
+    if (restored.length === 0) return;
+
+    population = restored;
+    selectedParents = [];
+    generation = Number.isInteger(saved.generation) ? (saved.generation as number) : 1;
+  };
 };
 
+geneticAlgorithmSketch.requires = ['pointer'];
+
 export default geneticAlgorithmSketch;
@@ -1,7 +1,7 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
 
-const geometricWaveSketch: Sketch = (p: p5) => {
+const geometricWaveSketch: Sketch = (p: p5, ctx) => {
   const spacing = 40;
   let cols: number;
   let rows: number;
@@ -9,7 +9,7 @@ const geometricWaveSketch: Sketch = (p: p5) => {
   let waveAmplitude = 1;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.rectMode(p.CENTER);
     calculateGrid();
@@ -23,12 +23,14 @@ const geometricWaveSketch: Sketch = (p: p5) => {
   p.draw = () => {
     p.background(220, 15, 95);
 
-    const time = p.millis() * 0.001;
+    const time = ctx.clock.time;
 
     // Mouse influence
-    const mouseDist = p.dist(p.mouseX, p.mouseY, p.width / 2, p.height / 2);
+    const mouseDist = p.dist(ctx.input.x, ctx.input.y, p.width / 2, p.height / 2);
     const mouseInfluence = p.map(mouseDist, 0, p.width / 2, 1.5, 0.5);
-    waveAmplitude = p.lerp(waveAmplitude, mouseInfluence, 0.05);
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      waveAmplitude = p.lerp(waveAmplitude, mouseInfluence, 0.05);
+    }
 
     const offsetX = (p.width - (cols - 1) * spacing) / 2;
     const offsetY = (p.height - (rows - 1) * spacing) / 2;
@@ -40,7 +42,7 @@ const geometricWaveSketch: Sketch = (p: p5) => {
 
         // Distance from center and mouse
         const distFromCenter = p.dist(x, y, p.width / 2, p.height / 2);
-        const distFromMouse = p.dist(x, y, p.mouseX, p.mouseY);
+        const distFromMouse = p.dist(x, y, ctx.input.x, ctx.input.y);
 
         // Wave calculations
         const wave1 = p.sin(distFromCenter * 0.02 - time * 2) * waveAmplitude;
@@ -102,12 +104,11 @@ const geometricWaveSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     calculateGrid();
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     waveSpeed = p.random(0.02, 0.05);
   };
 };
@@ -12,15 +12,17 @@ interface GlitchBlock {
   life: number;
 }
 
-const glitchEffectSketch: Sketch = (p: p5) => {
+const glitchEffectSketch: Sketch = (p: p5, ctx) => {
   let baseGraphics: p5.Graphics;
   const glitchBlocks: GlitchBlock[] = [];
   let glitchIntensity = 0;
   let targetIntensity = 0;
   let lastGlitchTime = 0;
+  // Reduced motion: no random or click bursts, and only mild glitching near the pointer
+  const REDUCED_MAX_INTENSITY = 0.25;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.pixelDensity(1);
 
@@ -65,22 +67,25 @@ const glitchEffectSketch: Sketch = (p: p5) => {
   };
 
   p.draw = () => {
-    const time = p.millis();
+    const time = ctx.clock.time * 1000;
 
     // Random glitch triggers
-    if (time - lastGlitchTime > p.random(500, 2000)) {
+    if (!ctx.reducedMotion && time - lastGlitchTime > p.random(500, 2000)) {
       targetIntensity = p.random() < 0.3 ? p.random(0.5, 1) : 0;
       lastGlitchTime = time;
     }
 
     // Mouse proximity increases glitch intensity
-    const centerDist = p.dist(p.mouseX, p.mouseY, p.width / 2, p.height / 2);
+    const centerDist = p.dist(ctx.input.x, ctx.input.y, p.width / 2, p.height / 2);
     const mouseIntensity = p.map(centerDist, 0, p.width / 2, 0.8, 0);
     targetIntensity = p.max(targetIntensity, mouseIntensity);
+    if (ctx.reducedMotion) targetIntensity = p.min(targetIntensity, REDUCED_MAX_INTENSITY);
 
     // Smooth intensity transition
-    glitchIntensity = p.lerp(glitchIntensity, targetIntensity, 0.1);
-    targetIntensity *= 0.95;
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      glitchIntensity = p.lerp(glitchIntensity, targetIntensity, 0.1);
+      targetIntensity *= 0.95;
+    }
 
     // Draw base image
     p.image(baseGraphics, 0, 0);
@@ -155,7 +160,7 @@ const glitchEffectSketch: Sketch = (p: p5) => {
       p.image(slice, block.x + block.offsetX, block.y + block.offsetY);
       p.pop();
 
-      block.life--;
+      block.life -= ctx.clock.steps;
       if (block.life <= 0) {
         glitchBlocks.splice(i, 1);
       }
@@ -186,13 +191,20 @@ const glitchEffectSketch: Sketch = (p: p5) => {
     p.noTint();
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     baseGraphics.resizeCanvas(p.width, p.height);
     drawBasePattern();
   };
 
-  p.mousePressed = () => {
+  ctx.onReducedMotionChange = () => {
+    if (!ctx.reducedMotion) return;
+    glitchBlocks.length = 0;
+    glitchIntensity = p.min(glitchIntensity, REDUCED_MAX_INTENSITY);
+  };
+
+  ctx.onPointerDown = () => {
+    if (ctx.reducedMotion) return;
+
     // Trigger intense glitch
     glitchIntensity = 1;
     targetIntensity = 1;
@@ -15,7 +15,8 @@ interface Attractor {
   mass: number;
 }
 
-const gravitationalAttractorSketch: Sketch = (p: p5) => {
+const gravitationalAttractorSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['gravitational-attractor'];
   let particles: Particle[] = [];
   let attractors: Attractor[] = [];
   const numParticles = 200;
@@ -30,7 +31,7 @@ const gravitationalAttractorSketch: Sketch = (p: p5) => {
   };
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.background(240, 20, 8);
 
@@ -159,12 +160,7 @@ const gravitationalAttractorSketch: Sketch = (p: p5) => {
     p.circle(attractor.pos.x, attractor.pos.y, size * 0.5);
   };
 
-  p.draw = () => {
-    // Semi-transparent background for trail effect
-    p.fill(240, 20, 8, 10);
-    p.noStroke();
-    p.rect(0, 0, p.width, p.height);
-
+  const simulate = () => {
     time++;
 
     // Slowly move attractors for dynamic patterns
@@ -178,9 +174,22 @@ const gravitationalAttractorSketch: Sketch = (p: p5) => {
       attractor.pos.y = p.lerp(attractor.pos.y, targetY, 0.01);
     }
 
-    // Update and draw particles
     for (const particle of particles) {
       updateParticle(particle);
+    }
+  };
+
+  p.draw = () => {
+    // Semi-transparent background for trail effect
+    p.fill(240, 20, 8, 10);
+    p.noStroke();
+    p.rect(0, 0, p.width, p.height);
+
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      simulate();
+    }
+
+    for (const particle of particles) {
       drawParticle(particle);
     }
 
@@ -190,11 +199,11 @@ const gravitationalAttractorSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = (pointer) => {
     // Add new attractor at mouse position
     if (attractors.length < 6) {
       attractors.push({
-        pos: p.createVector(p.mouseX, p.mouseY),
+        pos: p.createVector(pointer.x, pointer.y),
         mass: p.random(800, 1500)
       });
     } else {
@@ -203,22 +212,27 @@ const gravitationalAttractorSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.keyPressed = () => {
-    if (p.key === 'r' || p.key === 'R') {
+  ctx.addAction({
+    keys: ['r'],
+    label: messages.reset,
+    run: () => {
       p.background(240, 20, 8);
       initializeSystem();
-    }
-    if (p.key === 'c' || p.key === 'C') {
-      // Clear trails
+    },
+  });
+
+  ctx.addAction({
+    keys: ['c'],
+    label: messages.clearTrails,
+    run: () => {
       for (const particle of particles) {
         particle.trail = [];
       }
       p.background(240, 20, 8);
-    }
-  };
+    },
+  });
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     p.background(240, 20, 8);
     initializeSystem();
   };
@@ -12,7 +12,7 @@ interface Particle {
   color: p5.Color;
 }
 
-const kineticTypographySketch: Sketch = (p: p5) => {
+const kineticTypographySketch: Sketch = (p: p5, ctx) => {
   let particles: Particle[] = [];
   const text = 'ART';
   const textSize = 200;
@@ -22,7 +22,7 @@ const kineticTypographySketch: Sketch = (p: p5) => {
   let graphics: p5.Graphics;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
 
     createTextParticles();
@@ -64,21 +64,20 @@ const kineticTypographySketch: Sketch = (p: p5) => {
     }
   };
 
-  p.draw = () => {
-    p.background(20);
-
+  const update = () => {
     for (const particle of particles) {
-      // Calculate distance to mouse
-      const dx = p.mouseX - particle.x;
-      const dy = p.mouseY - particle.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-
-      // Repel from mouse
-      if (dist < repelRadius) {
-        const force = (repelRadius - dist) / repelRadius;
-        const angle = Math.atan2(dy, dx);
-        particle.vx -= Math.cos(angle) * force * 10;
-        particle.vy -= Math.sin(angle) * force * 10;
+      // Repel from every pointer, so several fingers can push at once
+      for (const pointer of ctx.input.pointers) {
+        const dx = pointer.x - particle.x;
+        const dy = pointer.y - particle.y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+
+        if (dist < repelRadius) {
+          const force = (repelRadius - dist) / repelRadius;
+          const angle = Math.atan2(dy, dx);
+          particle.vx -= Math.cos(angle) * force * 10;
+          particle.vy -= Math.sin(angle) * force * 10;
+        }
       }
 
       // Return to origin
@@ -94,26 +93,28 @@ const kineticTypographySketch: Sketch = (p: p5) => {
       // Update position
       particle.x += particle.vx;
       particle.y += particle.vy;
+    }
+  };
 
-      // Draw particle
-      p.noStroke();
+  p.draw = () => {
+    p.background(20);
+
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      update();
+    }
+
+    p.noStroke();
+    for (const particle of particles) {
       p.fill(particle.color);
       p.ellipse(particle.x, particle.y, particle.size);
     }
-
-    // Draw instruction
-    p.fill(255, 50);
-    p.textSize(14);
-    p.textAlign(p.CENTER);
-    p.text('Move your mouse over the text', p.width / 2, p.height - 30);
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     createTextParticles();
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     // Explode particles
     for (const particle of particles) {
       particle.vx = p.random(-20, 20);
@@ -9,7 +9,8 @@ interface Walker {
   hue: number;
 }
 
-const levyFlightSketch: Sketch = (p: p5) => {
+const levyFlightSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['levy-flight'];
   let walkers: Walker[] = [];
   const numWalkers = 8;
   const maxSteps = 50000;
@@ -22,7 +23,7 @@ const levyFlightSketch: Sketch = (p: p5) => {
   const maxStep = 100;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.background(0, 0, 5);
 
@@ -61,10 +62,10 @@ const levyFlightSketch: Sketch = (p: p5) => {
       return;
     }
 
-    // Draw multiple steps per frame for faster visualization
-    const stepsPerFrame = 100;
+    // Draw many walk steps per simulation step for faster visualization
+    const walkStepsPerTick = 100 * ctx.clock.steps;
 
-    for (let s = 0; s < stepsPerFrame && stepCount < maxSteps; s++) {
+    for (let s = 0; s < walkStepsPerTick && stepCount < maxSteps; s++) {
       for (let i = 0; i < walkers.length; i++) {
         const walker = walkers[i];
 
@@ -125,12 +126,12 @@ const levyFlightSketch: Sketch = (p: p5) => {
       p.fill(0, 0, 80);
       p.textSize(12);
       p.textAlign(p.LEFT, p.CENTER);
-      p.text(`Steps: ${stepCount.toLocaleString()} / ${maxSteps.toLocaleString()}`, 15, p.height - 18);
+      p.text(messages.steps(stepCount.toLocaleString(ctx.locale), maxSteps.toLocaleString(ctx.locale)), 15, p.height - 18);
       p.pop();
     }
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = (pointer) => {
     // Reset on click
     p.background(0, 0, 5);
     stepCount = 0;
@@ -138,21 +139,28 @@ const levyFlightSketch: Sketch = (p: p5) => {
 
     for (let i = 0; i < numWalkers; i++) {
       walkers.push({
-        x: p.mouseX,
-        y: p.mouseY,
-        prevX: p.mouseX,
-        prevY: p.mouseY,
+        x: pointer.x,
+        y: pointer.y,
+        prevX: pointer.x,
+        prevY: pointer.y,
         hue: (i * 360 / numWalkers + p.random(-20, 20)) % 360
       });
     }
     isDrawing = true;
   };
 
-  p.keyPressed = () => {
-    if (p.key === ' ') {
+  ctx.addAction({
+    keys: ['d'],
+    label: messages.pause,
+    run: () => {
       isDrawing = !isDrawing;
-    }
-    if (p.key === 'r' || p.key === 'R') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['r'],
+    label: messages.restart,
+    run: () => {
       p.background(0, 0, 5);
       stepCount = 0;
       walkers = [];
@@ -169,11 +177,10 @@ const levyFlightSketch: Sketch = (p: p5) => {
         walkers[i].prevY = walkers[i].y;
       }
       isDrawing = true;
-    }
-  };
+    },
+  });
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     p.background(0, 0, 5);
     stepCount = 0;
     walkers = [];
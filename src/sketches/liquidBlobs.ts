@@ -12,13 +12,13 @@ interface Blob {
   noiseScale: number;
 }
 
-const liquidBlobsSketch: Sketch = (p: p5) => {
+const liquidBlobsSketch: Sketch = (p: p5, ctx) => {
   const blobs: Blob[] = [];
   const numBlobs = 5;
   let time = 0;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.noStroke();
     initBlobs();
@@ -40,13 +40,7 @@ const liquidBlobsSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.draw = () => {
-    p.background(250, 15, 95);
-    time += 0.01;
-
-    const mouseX = p.mouseX;
-    const mouseY = p.mouseY;
-
+  const update = (mouseX: number, mouseY: number) => {
     for (const blob of blobs) {
       // Move blob
       blob.x += blob.speedX;
@@ -68,8 +62,19 @@ const liquidBlobsSketch: Sketch = (p: p5) => {
 
       blob.x = p.constrain(blob.x, padding, p.width - padding);
       blob.y = p.constrain(blob.y, padding, p.height - padding);
+    }
+  };
 
-      // Draw blob with noise-deformed vertices
+  p.draw = () => {
+    p.background(250, 15, 95);
+    time += 0.6 * ctx.clock.delta;
+
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      update(ctx.input.x, ctx.input.y);
+    }
+
+    // Draw blobs with noise-deformed vertices
+    for (const blob of blobs) {
       drawBlob(blob);
     }
   };
@@ -113,12 +118,11 @@ const liquidBlobsSketch: Sketch = (p: p5) => {
     );
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     initBlobs();
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     initBlobs();
   };
 };
@@ -1,14 +1,14 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
 
-const magneticGridSketch: Sketch = (p: p5) => {
+const magneticGridSketch: Sketch = (p: p5, ctx) => {
   const spacing = 30;
   const lineLength = 15;
   let cols: number;
   let rows: number;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     calculateGrid();
   };
@@ -21,8 +21,8 @@ const magneticGridSketch: Sketch = (p: p5) => {
   p.draw = () => {
     p.background(0, 0, 10);
 
-    const mouseX = p.mouseX;
-    const mouseY = p.mouseY;
+    const mouseX = ctx.input.x;
+    const mouseY = ctx.input.y;
 
     for (let i = 0; i < cols; i++) {
       for (let j = 0; j < rows; j++) {
@@ -74,12 +74,11 @@ const magneticGridSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     calculateGrid();
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     // No specific reset needed, just a visual pulse could be added
   };
 };
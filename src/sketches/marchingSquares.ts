@@ -6,7 +6,8 @@ import type { Sketch } from '@/components/P5Wrapper';
  * An algorithm to generate contour lines (isosurfaces) from scalar fields
  * Uses 3D Perlin noise to create animated organic patterns
  */
-const marchingSquaresSketch: Sketch = (p: p5) => {
+const marchingSquaresSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['marching-squares'];
   let cols: number;
   let rows: number;
   const resolution = 10;
@@ -28,7 +29,7 @@ const marchingSquaresSketch: Sketch = (p: p5) => {
   };
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     initField();
   };
@@ -42,7 +43,7 @@ const marchingSquaresSketch: Sketch = (p: p5) => {
         const x = i * resolution;
         const y = j * resolution;
         // Use mouse position to influence the field
-        const distToMouse = p.dist(x, y, p.mouseX, p.mouseY);
+        const distToMouse = p.dist(x, y, ctx.input.x, ctx.input.y);
         const mouseInfluence = p.map(distToMouse, 0, 300, 0.5, 0, true);
 
         field[i][j] = p.noise(i * noiseScale, j * noiseScale, zOffset) + mouseInfluence;
@@ -50,7 +51,7 @@ const marchingSquaresSketch: Sketch = (p: p5) => {
     }
 
     if (animating) {
-      zOffset += 0.01;
+      zOffset += 0.6 * ctx.clock.delta;
     }
 
     // Draw scalar field visualization
@@ -72,9 +73,7 @@ const marchingSquaresSketch: Sketch = (p: p5) => {
     p.noStroke();
     p.textSize(14);
     p.textAlign(p.LEFT, p.TOP);
-    p.text(`Contours: ${numContours} | Noise scale: ${noiseScale.toFixed(3)}`, 20, 20);
-    p.text('↑↓: Contours | ←→: Noise scale | F: Toggle field | Space: Pause', 20, 40);
-    p.text('Move mouse to interact with the field', 20, 60);
+    p.text(messages.status(numContours, noiseScale.toFixed(3)), 20, 20);
   };
 
   const drawField = () => {
@@ -203,28 +202,59 @@ const marchingSquaresSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.keyPressed = () => {
-    if (p.key === ' ') {
-      animating = !animating;
-    } else if (p.key === 'f' || p.key === 'F') {
-      showField = !showField;
-    } else if (p.keyCode === 38) { // UP_ARROW
+  ctx.addAction({
+    keys: ['ArrowUp'],
+    label: messages.moreContours,
+    run: () => {
       numContours = Math.min(numContours + 1, 20);
-    } else if (p.keyCode === 40) { // DOWN_ARROW
+    },
+  });
+
+  ctx.addAction({
+    keys: ['ArrowDown'],
+    label: messages.fewerContours,
+    run: () => {
       numContours = Math.max(numContours - 1, 1);
-    } else if (p.keyCode === 37) { // LEFT_ARROW
-      noiseScale = Math.max(noiseScale - 0.005, 0.005);
-    } else if (p.keyCode === 39) { // RIGHT_ARROW
+    },
+  });
+
+  ctx.addAction({
+    keys: ['ArrowRight'],
+    label: messages.largerNoiseScale,
+    run: () => {
       noiseScale = Math.min(noiseScale + 0.005, 0.1);
-    }
-  };
+    },
+  });
+
+  ctx.addAction({
+    keys: ['ArrowLeft'],
+    label: messages.smallerNoiseScale,
+    run: () => {
+      noiseScale = Math.max(noiseScale - 0.005, 0.005);
+    },
+  });
+
+  ctx.addAction({
+    keys: ['f'],
+    label: messages.toggleField,
+    run: () => {
+      showField = !showField;
+    },
+  });
+
+  ctx.addAction({
+    keys: ['a'],
+    label: messages.toggleAnimation,
+    run: () => {
+      animating = !animating;
+    },
+  });
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     zOffset += 0.5; // Jump to a new slice
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     initField();
   };
 };
@@ -7,7 +7,8 @@ import type { Sketch } from '@/components/P5Wrapper';
  * Rose curve: r = sin(n * θ)
  * Connect points at angles k, 2k, 3k, ... degrees
  */
-const maurerRoseSketch: Sketch = (p: p5) => {
+const maurerRoseSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['maurer-rose'];
   let n = 6;  // Number of petals (if n is even) or 2n petals (if n is odd)
   let d = 71; // Angular step in degrees
 
@@ -36,7 +37,7 @@ const maurerRoseSketch: Sketch = (p: p5) => {
   };
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.angleMode(p.DEGREES);
     generateRoses();
@@ -46,12 +47,12 @@ const maurerRoseSketch: Sketch = (p: p5) => {
     p.background(10, 20, 8);
     p.translate(p.width / 2, p.height / 2);
 
-    time += 0.5;
+    time += 30 * ctx.clock.delta;
 
     // Interactive parameters based on mouse
     if (animating) {
-      animatedN = p.map(p.mouseX, 0, p.width, 2, 10);
-      animatedD = p.map(p.mouseY, 0, p.height, 1, 180);
+      animatedN = p.map(ctx.input.x, 0, p.width, 2, 10);
+      animatedD = p.map(ctx.input.y, 0, p.height, 1, 180);
     }
 
     const baseRadius = p.min(p.width, p.height) * 0.35;
@@ -83,10 +84,8 @@ const maurerRoseSketch: Sketch = (p: p5) => {
     p.noStroke();
     p.textSize(14);
     p.textAlign(p.LEFT, p.TOP);
-    p.text(`n: ${animatedN.toFixed(2)} (petals)`, 20, 20);
-    p.text(`d: ${animatedD.toFixed(1)}° (step angle)`, 20, 40);
-    p.text('Move mouse to change parameters', 20, 60);
-    p.text('Click to toggle animation', 20, 80);
+    p.text(messages.petals(animatedN.toFixed(2)), 20, 20);
+    p.text(messages.stepAngle(animatedD.toFixed(1)), 20, 40);
     p.pop();
   };
 
@@ -140,7 +139,7 @@ const maurerRoseSketch: Sketch = (p: p5) => {
     p.endShape();
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     animating = !animating;
     if (!animating) {
       n = animatedN;
@@ -148,34 +147,39 @@ const maurerRoseSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.keyPressed = () => {
-    // Number keys for quick presets
-    const presets: { n: number; d: number }[] = [
-      { n: 2, d: 29 },
-      { n: 3, d: 47 },
-      { n: 4, d: 31 },
-      { n: 5, d: 97 },
-      { n: 6, d: 71 },
-      { n: 7, d: 19 },
-      { n: 8, d: 83 },
-      { n: 9, d: 37 },
-    ];
-
-    const num = parseInt(p.key);
-    if (num >= 1 && num <= 8) {
-      animatedN = presets[num - 1].n;
-      animatedD = presets[num - 1].d;
-      animating = false;
-    } else if (p.key === 'r' || p.key === 'R') {
+  // Quick presets on the number keys
+  const presets: { n: number; d: number }[] = [
+    { n: 2, d: 29 },
+    { n: 3, d: 47 },
+    { n: 4, d: 31 },
+    { n: 5, d: 97 },
+    { n: 6, d: 71 },
+    { n: 7, d: 19 },
+    { n: 8, d: 83 },
+    { n: 9, d: 37 },
+  ];
+
+  presets.forEach((preset, index) => {
+    ctx.addAction({
+      keys: [String(index + 1)],
+      label: messages.presetAction(index + 1),
+      run: () => {
+        animatedN = preset.n;
+        animatedD = preset.d;
+        animating = false;
+      },
+    });
+  });
+
+  ctx.addAction({
+    keys: ['r'],
+    label: messages.randomParameters,
+    run: () => {
       animatedN = p.random(2, 10);
       animatedD = p.random(1, 180);
       animating = false;
-    }
-  };
-
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
-  };
+    },
+  });
 };
 
 export default maurerRoseSketch;
@@ -26,7 +26,8 @@ interface Obstacle {
   radius: number;
 }
 
-const neuralCreaturesSketch: Sketch = (p: p5) => {
+const neuralCreaturesSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['neural-creatures'];
   let creatures: Creature[] = [];
   let obstacles: Obstacle[] = [];
   const populationSize = 30;
@@ -42,7 +43,7 @@ const neuralCreaturesSketch: Sketch = (p: p5) => {
   let target: p5.Vector;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     target = p.createVector(p.width * 0.8, p.height * 0.5);
     initializeWorld();
@@ -312,6 +313,52 @@ const neuralCreaturesSketch: Sketch = (p: p5) => {
     p.pop();
   };
 
+  // Network of the fittest creature still alive, as a node-link diagram
+  const drawBrain = () => {
+    const alive = creatures.filter((creature) => creature.alive);
+    if (alive.length === 0) return;
+    const best = alive.reduce((a, b) => (b.fitness > a.fitness ? b : a));
+
+    const panelWidth = 200;
+    const panelHeight = 150;
+    const left = p.width - panelWidth - 10;
+    const top = 10;
+    const layers = [numSensors, 4, 2];
+    const node = (layer: number, index: number) => ({
+      x: left + 30 + layer * (panelWidth - 60) / 2,
+      y: top + 20 + (index + 0.5) * (panelHeight - 40) / layers[layer],
+    });
+
+    p.push();
+    p.noStroke();
+    p.fill(0, 0, 8, 70);
+    p.rect(left, top, panelWidth, panelHeight, 5);
+
+    const weights = [best.brain.inputWeights, best.brain.hiddenWeights];
+    weights.forEach((matrix, layer) => {
+      matrix.forEach((row, to) => {
+        row.forEach((weight, from) => {
+          const a = node(layer, from);
+          const b = node(layer + 1, to);
+          p.stroke(weight > 0 ? 200 : 0, 70, 90, 70);
+          p.strokeWeight(Math.abs(weight) * 3);
+          p.line(a.x, a.y, b.x, b.y);
+        });
+      });
+    });
+
+    p.noStroke();
+    layers.forEach((count, layer) => {
+      for (let i = 0; i < count; i++) {
+        const { x, y } = node(layer, i);
+        // Inputs glow brighter the clearer that sensor's path is
+        p.fill(best.hue, 60, layer === 0 ? 40 + best.sensors[i] * 60 : 80);
+        p.circle(x, y, 12);
+      }
+    });
+    p.pop();
+  };
+
   const evolvePopulation = () => {
     // Sort by fitness
     creatures.sort((a, b) => b.fitness - a.fitness);
@@ -343,8 +390,6 @@ const neuralCreaturesSketch: Sketch = (p: p5) => {
   p.draw = () => {
     p.background(220, 20, 10);
 
-    generationTimer++;
-
     // Draw target
     p.noStroke();
     for (let i = 3; i > 0; i--) {
@@ -363,19 +408,24 @@ const neuralCreaturesSketch: Sketch = (p: p5) => {
       p.circle(obs.x, obs.y, obs.radius * 1.8);
     }
 
-    // Update and draw creatures
-    let aliveCount = 0;
-    for (const creature of creatures) {
-      updateCreature(creature);
-      if (creature.alive) aliveCount++;
+    // Update creatures, evolving when time's up or all dead
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      generationTimer++;
+      for (const creature of creatures) {
+        updateCreature(creature);
+      }
+      if (generationTimer >= generationDuration || creatures.every((creature) => !creature.alive)) {
+        evolvePopulation();
+      }
     }
+    const aliveCount = creatures.filter((creature) => creature.alive).length;
+
     for (const creature of creatures) {
       drawCreature(creature);
     }
 
-    // Evolve when time's up or all dead
-    if (generationTimer >= generationDuration || aliveCount === 0) {
-      evolvePopulation();
+    if (showBrain) {
+      drawBrain();
     }
 
     // UI
@@ -388,43 +438,53 @@ const neuralCreaturesSketch: Sketch = (p: p5) => {
     p.textSize(14);
     p.textAlign(p.LEFT, p.TOP);
     p.noStroke();
-    p.text(`Generation: ${generation} | Alive: ${aliveCount}/${populationSize}`, 20, 18);
-    p.text(`Best Fitness: ${bestFitness.toFixed(0)}`, 20, 38);
-    p.text(`Time: ${generationTimer}/${generationDuration}`, 20, 58);
-
-    p.textSize(11);
-    p.fill(0, 0, 70);
-    p.textAlign(p.LEFT, p.BOTTOM);
-    p.text('S: Toggle sensors | R: Reset | Click: Move target', 15, p.height - 10);
+    p.text(messages.generation(generation, aliveCount, populationSize), 20, 18);
+    p.text(messages.bestFitness(bestFitness.toFixed(0)), 20, 38);
+    p.text(messages.time(generationTimer, generationDuration), 20, 58);
     p.pop();
   };
 
-  p.mousePressed = () => {
-    target.x = p.mouseX;
-    target.y = p.mouseY;
+  ctx.onPointerDown = (pointer) => {
+    target.x = pointer.x;
+    target.y = pointer.y;
   };
 
-  p.keyPressed = () => {
-    if (p.key === 's' || p.key === 'S') {
+  ctx.addAction({
+    keys: ['s'],
+    label: messages.toggleSensors,
+    run: () => {
       showSensors = !showSensors;
-    }
-    if (p.key === 'b' || p.key === 'B') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['b'],
+    label: messages.toggleBrain,
+    run: () => {
       showBrain = !showBrain;
-    }
-    if (p.key === 'r' || p.key === 'R') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['n'],
+    label: messages.nextGeneration,
+    run: () => {
+      evolvePopulation();
+    },
+  });
+
+  ctx.addAction({
+    keys: ['r'],
+    label: messages.reset,
+    run: () => {
       generation = 1;
       bestFitness = 0;
       initializeWorld();
       initializePopulation();
-    }
-    if (p.key === 'n' || p.key === 'N') {
-      // Skip to next generation
-      evolvePopulation();
-    }
-  };
+    },
+  });
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     target = p.createVector(p.width * 0.8, p.height * 0.5);
     initializeWorld();
     initializePopulation();
@@ -12,13 +12,13 @@ interface Particle {
   hue: number;
 }
 
-const parallaxParticlesSketch: Sketch = (p: p5) => {
+const parallaxParticlesSketch: Sketch = (p: p5, ctx) => {
   const particles: Particle[] = [];
   const numParticles = 80;
   const maxOffset = 100;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     initParticles();
   };
@@ -51,8 +51,8 @@ const parallaxParticlesSketch: Sketch = (p: p5) => {
     // Calculate offset based on mouse position
     const centerX = p.width / 2;
     const centerY = p.height / 2;
-    const mouseOffsetX = (p.mouseX - centerX) / centerX;
-    const mouseOffsetY = (p.mouseY - centerY) / centerY;
+    const mouseOffsetX = (ctx.input.x - centerX) / centerX;
+    const mouseOffsetY = (ctx.input.y - centerY) / centerY;
 
     for (const particle of particles) {
       // Parallax effect - deeper particles move less
@@ -78,7 +78,7 @@ const parallaxParticlesSketch: Sketch = (p: p5) => {
       p.translate(wrappedX, wrappedY);
 
       // Subtle rotation based on time and depth
-      const rotation = p.frameCount * 0.01 * particle.z;
+      const rotation = ctx.clock.time * 0.6 * particle.z;
       p.rotate(rotation);
 
       switch (particle.shape) {
@@ -121,12 +121,11 @@ const parallaxParticlesSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     initParticles();
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     initParticles();
   };
 };
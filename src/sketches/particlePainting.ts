@@ -1,5 +1,7 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
+import type { SketchPointer } from '@/lib/input';
+import { FIXED_STEP } from '@/lib/sketchRuntime';
 
 interface Particle {
   pos: p5.Vector;
@@ -13,20 +15,16 @@ interface Particle {
   type: 'spark' | 'smoke' | 'ember';
 }
 
-const particlePaintingSketch: Sketch = (p: p5) => {
+const particlePaintingSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['particle-painting'];
   let particles: Particle[] = [];
-  let prevMouseX = 0;
-  let prevMouseY = 0;
   let currentHue = 0;
   let brushMode: 'fire' | 'smoke' | 'magic' = 'fire';
-  let isEmitting = false;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.background(0, 0, 5);
-    prevMouseX = p.mouseX;
-    prevMouseY = p.mouseY;
   };
 
   const createParticle = (x: number, y: number, velX: number, velY: number): Particle => {
@@ -76,12 +74,13 @@ const particlePaintingSketch: Sketch = (p: p5) => {
     };
   };
 
-  const emitParticles = (x: number, y: number, velX: number, velY: number) => {
+  // Harder pen strokes emit more; mice and plain touches report 0.5
+  const emitParticles = (pointer: SketchPointer, velX: number, velY: number) => {
     const speed = Math.sqrt(velX * velX + velY * velY);
-    const numParticles = Math.floor(p.map(speed, 0, 50, 2, 15));
+    const numParticles = Math.floor(p.map(speed, 0, 50, 2, 15) * pointer.pressure * 2);
 
     for (let i = 0; i < numParticles; i++) {
-      particles.push(createParticle(x, y, velX, velY));
+      particles.push(createParticle(pointer.x, pointer.y, velX, velY));
     }
   };
 
@@ -95,13 +94,15 @@ const particlePaintingSketch: Sketch = (p: p5) => {
         break;
       case 'ember':
         particle.acc.y = -0.03; // Rise slowly
-        const wobble = p.noise(particle.pos.x * 0.01, particle.pos.y * 0.01, p.frameCount * 0.02);
+        const wobble = p.noise(particle.pos.x * 0.01, particle.pos.y * 0.01, ctx.clock.time * 1.2);
         particle.acc.x = p.map(wobble, 0, 1, -0.1, 0.1);
         particle.vel.mult(0.98);
+        // Shift hue towards red as it cools
+        particle.hue = p.lerp(particle.hue, 10, 0.02);
         break;
       case 'smoke':
         particle.acc.y = -0.02; // Rise very slowly
-        particle.acc.x = p.map(p.noise(particle.pos.y * 0.005, p.frameCount * 0.01), 0, 1, -0.05, 0.05);
+        particle.acc.x = p.map(p.noise(particle.pos.y * 0.005, ctx.clock.time * 0.6), 0, 1, -0.05, 0.05);
         particle.vel.mult(0.99);
         break;
     }
@@ -133,8 +134,6 @@ const particlePaintingSketch: Sketch = (p: p5) => {
         alpha = lifeRatio * 60;
         brightness = p.map(lifeRatio, 0, 1, 40, 100);
         size = particle.size * (0.5 + lifeRatio * 0.5);
-        // Shift hue towards red as it cools
-        particle.hue = p.lerp(particle.hue, 10, 0.02);
         break;
       case 'smoke':
         alpha = lifeRatio * 25;
@@ -163,93 +162,102 @@ const particlePaintingSketch: Sketch = (p: p5) => {
     p.noStroke();
     p.rect(0, 0, p.width, p.height);
 
-    // Calculate mouse velocity
-    const velX = p.mouseX - prevMouseX;
-    const velY = p.mouseY - prevMouseY;
-
-    // Emit particles while mouse is pressed
-    if (isEmitting) {
-      emitParticles(p.mouseX, p.mouseY, velX, velY);
+    // Emit particles under every pressed pointer, using its movement per step
+    for (const pointer of ctx.input.pointers) {
+      if (pointer.pressed) {
+        emitParticles(pointer, pointer.vx * FIXED_STEP, pointer.vy * FIXED_STEP);
+      }
     }
 
     // Update hue for magic mode
-    currentHue = (currentHue + 0.5) % 360;
-
-    // Update and draw particles
-    for (let i = particles.length - 1; i >= 0; i--) {
-      const alive = updateParticle(particles[i]);
-      if (!alive) {
-        particles.splice(i, 1);
-      } else {
-        drawParticle(particles[i]);
+    currentHue = (currentHue + 30 * ctx.clock.delta) % 360;
+
+    // Update particles on the fixed timestep
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      for (let i = particles.length - 1; i >= 0; i--) {
+        if (!updateParticle(particles[i])) {
+          particles.splice(i, 1);
+        }
       }
     }
 
+    for (const particle of particles) {
+      drawParticle(particle);
+    }
+
     // Limit particle count for performance
     if (particles.length > 3000) {
       particles.splice(0, particles.length - 3000);
     }
 
-    // Store previous mouse position
-    prevMouseX = p.mouseX;
-    prevMouseY = p.mouseY;
-
     // Draw UI
     p.push();
     p.fill(0, 0, 80, 70);
     p.noStroke();
     p.textSize(12);
     p.textAlign(p.LEFT, p.TOP);
-    p.text(`Mode: ${brushMode.toUpperCase()} | Particles: ${particles.length}`, 15, 15);
-    p.text('Click & Drag to paint | 1-3: Change brush | C: Clear', 15, 32);
+    p.text(messages.status(brushMode.toUpperCase(), particles.length), 15, 15);
     p.pop();
   };
 
-  p.mousePressed = () => {
-    isEmitting = true;
-    prevMouseX = p.mouseX;
-    prevMouseY = p.mouseY;
-
+  ctx.onPointerDown = (pointer) => {
     // Burst effect on click
     for (let i = 0; i < 20; i++) {
       const angle = p.random(p.TWO_PI);
       const speed = p.random(2, 6);
       particles.push(createParticle(
-        p.mouseX,
-        p.mouseY,
+        pointer.x,
+        pointer.y,
         Math.cos(angle) * speed,
         Math.sin(angle) * speed
       ));
     }
   };
 
-  p.mouseReleased = () => {
-    isEmitting = false;
-  };
-
-  p.mouseDragged = () => {
-    const velX = p.mouseX - prevMouseX;
-    const velY = p.mouseY - prevMouseY;
-    emitParticles(p.mouseX, p.mouseY, velX, velY);
+  ctx.onPointerMove = (pointer) => {
+    if (pointer.pressed) {
+      emitParticles(pointer, pointer.dx, pointer.dy);
+    }
   };
 
-  p.keyPressed = () => {
-    if (p.key === '1') {
+  ctx.addAction({
+    keys: ['1'],
+    label: messages.fireBrush,
+    run: () => {
       brushMode = 'fire';
-    } else if (p.key === '2') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['2'],
+    label: messages.smokeBrush,
+    run: () => {
       brushMode = 'smoke';
-    } else if (p.key === '3') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['3'],
+    label: messages.magicBrush,
+    run: () => {
       brushMode = 'magic';
-    } else if (p.key === 'c' || p.key === 'C') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['c'],
+    label: messages.clearCanvas,
+    run: () => {
       particles = [];
       p.background(0, 0, 5);
-    }
-  };
+    },
+  });
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     p.background(0, 0, 5);
   };
 };
 
+particlePaintingSketch.requires = ['pointer'];
+
 export default particlePaintingSketch;
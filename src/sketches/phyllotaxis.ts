@@ -8,7 +8,8 @@ import type { Sketch } from '@/components/P5Wrapper';
  * θ = n × 137.5° (golden angle)
  * r = c × √n (distance from center)
  */
-const phyllotaxisSketch: Sketch = (p: p5) => {
+const phyllotaxisSketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches.phyllotaxis;
   let n = 0;
   let c = 8; // Scale coefficient
   const goldenAngle = 137.5; // Golden angle in degrees
@@ -21,7 +22,7 @@ const phyllotaxisSketch: Sketch = (p: p5) => {
   let spiralPoints: { x: number; y: number; n: number }[] = [];
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.angleMode(p.DEGREES);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.background(10, 20, 8);
@@ -43,15 +44,15 @@ const phyllotaxisSketch: Sketch = (p: p5) => {
     p.translate(p.width / 2, p.height / 2);
 
     if (growing && n < maxN) {
-      // Draw multiple points per frame for faster filling
-      const pointsPerFrame = 5;
-      for (let i = 0; i < pointsPerFrame && n < maxN; i++) {
+      // Draw multiple points per simulation step for faster filling
+      const pointsThisFrame = 5 * ctx.clock.steps;
+      for (let i = 0; i < pointsThisFrame && n < maxN; i++) {
         drawPhyllotaxisPoint(n);
         n++;
       }
     }
 
-    hueOffset += 0.1;
+    hueOffset += 6 * ctx.clock.delta;
 
     // Display info
     p.push();
@@ -60,8 +61,8 @@ const phyllotaxisSketch: Sketch = (p: p5) => {
     p.noStroke();
     p.textSize(14);
     p.textAlign(p.LEFT, p.TOP);
-    p.text(`n: ${n} | Golden angle: ${goldenAngle}°`, 20, 20);
-    p.text(`Mode: ${mode} (Press 1-3 to change, click to restart)`, 20, 40);
+    p.text(messages.dotsStatus(n, goldenAngle), 20, 20);
+    p.text(messages.mode(mode), 20, 40);
     p.pop();
   };
 
@@ -116,8 +117,8 @@ const phyllotaxisSketch: Sketch = (p: p5) => {
     p.background(10, 20, 8, 10);
     p.translate(p.width / 2, p.height / 2);
 
-    // Add new points
-    if (n < maxN) {
+    // Add one point per simulation step
+    for (let step = 0; step < ctx.clock.steps && n < maxN; step++) {
       const angle = n * goldenAngle;
       const r = c * p.sqrt(n);
       spiralPoints.push({
@@ -158,7 +159,7 @@ const phyllotaxisSketch: Sketch = (p: p5) => {
       p.ellipse(pt.x, pt.y, 4);
     }
 
-    hueOffset += 0.5;
+    hueOffset += 30 * ctx.clock.delta;
 
     // Display info
     p.push();
@@ -167,23 +168,37 @@ const phyllotaxisSketch: Sketch = (p: p5) => {
     p.noStroke();
     p.textSize(14);
     p.textAlign(p.LEFT, p.TOP);
-    p.text(`n: ${n} | Fibonacci spirals visible`, 20, 20);
-    p.text(`Mode: ${mode} (Press 1-3 to change, click to restart)`, 20, 40);
+    p.text(messages.spiralStatus(n), 20, 20);
+    p.text(messages.mode(mode), 20, 40);
     p.pop();
   };
 
-  p.keyPressed = () => {
-    if (p.key === '1') {
+  ctx.addAction({
+    keys: ['1'],
+    label: messages.dotsMode,
+    run: () => {
       mode = 'dots';
       reset();
-    } else if (p.key === '2') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['2'],
+    label: messages.petalsMode,
+    run: () => {
       mode = 'petals';
       reset();
-    } else if (p.key === '3') {
+    },
+  });
+
+  ctx.addAction({
+    keys: ['3'],
+    label: messages.spiralMode,
+    run: () => {
       mode = 'spiral';
       reset();
-    }
-  };
+    },
+  });
 
   const reset = () => {
     n = 0;
@@ -193,12 +208,11 @@ const phyllotaxisSketch: Sketch = (p: p5) => {
     maxN = calculateMaxN();
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     reset();
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     reset();
   };
 };
@@ -1,5 +1,7 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
+import { hexToRgb, type ParamSchema, type ParamValues } from '@/lib/params';
+import type { QualitySchema, QualityValues } from '@/lib/quality';
 
 interface Agent {
   x: number;
@@ -7,45 +9,75 @@ interface Agent {
   angle: number;
 }
 
-const physarumSketch: Sketch = (p: p5) => {
+const paramSchema = {
+  numAgents: { type: 'number', min: 500, max: 10000, step: 500, default: 5000 },
+  sensorAngle: { type: 'number', min: 5, max: 90, step: 1, default: 45 },
+  sensorDistance: { type: 'number', min: 1, max: 30, step: 1, default: 9 },
+  rotationAngle: { type: 'number', min: 5, max: 90, step: 1, default: 45 },
+  stepSize: { type: 'number', min: 0.5, max: 3, step: 0.1, default: 1 },
+  depositAmount: { type: 'number', min: 10, max: 255, step: 5, default: 255 },
+  decayFactor: { type: 'number', min: 0.8, max: 0.99, step: 0.01, default: 0.95 },
+  trailColor: { type: 'color', default: '#4dccff' },
+} satisfies ParamSchema;
+
+// The trail map is simulated on a grid of `cellSize` pixels and scaled up
+const qualitySchema = {
+  agentShare: { low: 0.25, high: 1 },
+  cellSize: { low: 3, high: 1, integer: true },
+} satisfies QualitySchema;
+
+const physarumSketch: Sketch = (p: p5, ctx) => {
+  const params = ctx.params as ParamValues<typeof paramSchema>;
+  const quality = ctx.quality as QualityValues<typeof qualitySchema>;
   let agents: Agent[] = [];
-  const numAgents = 5000;
-  const sensorAngle = p.PI / 4;
-  const sensorDistance = 9;
-  const rotationAngle = p.PI / 4;
-  const stepSize = 1;
-  const depositAmount = 255;
-  const decayFactor = 0.95;
 
   let trailMap: number[];
+  let trailImage: p5.Image;
+  let cellSize: number;
   let pixelWidth: number;
   let pixelHeight: number;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.pixelDensity(1);
-    pixelWidth = p.width;
-    pixelHeight = p.height;
+    initGrid();
+    initAgents();
 
+    p.background(0);
+  };
+
+  const initGrid = () => {
+    cellSize = quality.cellSize;
+    pixelWidth = Math.max(1, Math.floor(p.width / cellSize));
+    pixelHeight = Math.max(1, Math.floor(p.height / cellSize));
     trailMap = new Array(pixelWidth * pixelHeight).fill(0);
+    trailImage = p.createImage(pixelWidth, pixelHeight);
+  };
 
-    for (let i = 0; i < numAgents; i++) {
-      const angle = p.random(p.TWO_PI);
-      const radius = p.random(p.min(p.width, p.height) * 0.3);
-      agents.push({
-        x: p.width / 2 + p.cos(angle) * radius,
-        y: p.height / 2 + p.sin(angle) * radius,
-        angle: p.random(p.TWO_PI),
-      });
-    }
+  const agentCount = () => Math.round(params.numAgents * quality.agentShare);
 
-    p.background(0);
+  const spawnAgent = (): Agent => {
+    const angle = p.random(p.TWO_PI);
+    const radius = p.random(p.min(pixelWidth, pixelHeight) * 0.3);
+    return {
+      x: pixelWidth / 2 + p.cos(angle) * radius,
+      y: pixelHeight / 2 + p.sin(angle) * radius,
+      angle: p.random(p.TWO_PI),
+    };
+  };
+
+  const initAgents = () => {
+    agents = [];
+    for (let i = 0; i < agentCount(); i++) {
+      agents.push(spawnAgent());
+    }
   };
 
   const sense = (agent: Agent, angleOffset: number): number => {
     const senseAngle = agent.angle + angleOffset;
-    const senseX = Math.floor(agent.x + p.cos(senseAngle) * sensorDistance);
-    const senseY = Math.floor(agent.y + p.sin(senseAngle) * sensorDistance);
+    const distance = params.sensorDistance / cellSize;
+    const senseX = Math.floor(agent.x + p.cos(senseAngle) * distance);
+    const senseY = Math.floor(agent.y + p.sin(senseAngle) * distance);
 
     if (senseX >= 0 && senseX < pixelWidth && senseY >= 0 && senseY < pixelHeight) {
       return trailMap[senseY * pixelWidth + senseX];
@@ -53,7 +85,12 @@ const physarumSketch: Sketch = (p: p5) => {
     return 0;
   };
 
-  p.draw = () => {
+  const moveAgents = () => {
+    const sensorAngle = p.radians(params.sensorAngle);
+    const rotationAngle = p.radians(params.rotationAngle);
+    const stepSize = params.stepSize / cellSize;
+    const { depositAmount } = params;
+
     for (let i = 0; i < agents.length; i++) {
       const agent = agents[i];
 
@@ -83,8 +120,11 @@ const physarumSketch: Sketch = (p: p5) => {
       const idx = Math.floor(agent.y) * pixelWidth + Math.floor(agent.x);
       trailMap[idx] = Math.min(trailMap[idx] + depositAmount, 255);
     }
+  };
 
-    // Diffuse and decay
+  // Diffuse and decay
+  const diffuse = () => {
+    const { decayFactor } = params;
     const newTrailMap = new Array(pixelWidth * pixelHeight).fill(0);
     for (let y = 1; y < pixelHeight - 1; y++) {
       for (let x = 1; x < pixelWidth - 1; x++) {
@@ -98,48 +138,73 @@ const physarumSketch: Sketch = (p: p5) => {
       }
     }
     trailMap = newTrailMap;
+  };
 
-    // Render
-    p.loadPixels();
+  const render = () => {
+    const tint = hexToRgb(params.trailColor);
+    trailImage.loadPixels();
     for (let i = 0; i < trailMap.length; i++) {
-      const brightness = trailMap[i];
+      const brightness = trailMap[i] / 255;
       const idx = i * 4;
-      p.pixels[idx] = brightness * 0.3;
-      p.pixels[idx + 1] = brightness * 0.8;
-      p.pixels[idx + 2] = brightness;
-      p.pixels[idx + 3] = 255;
+      trailImage.pixels[idx] = brightness * tint.r;
+      trailImage.pixels[idx + 1] = brightness * tint.g;
+      trailImage.pixels[idx + 2] = brightness * tint.b;
+      trailImage.pixels[idx + 3] = 255;
     }
-    p.updatePixels();
+    trailImage.updatePixels();
+    p.image(trailImage, 0, 0, p.width, p.height);
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
-    pixelWidth = p.width;
-    pixelHeight = p.height;
-    trailMap = new Array(pixelWidth * pixelHeight).fill(0);
-    agents = [];
-    for (let i = 0; i < numAgents; i++) {
-      const angle = p.random(p.TWO_PI);
-      const radius = p.random(p.min(p.width, p.height) * 0.3);
-      agents.push({
-        x: p.width / 2 + p.cos(angle) * radius,
-        y: p.height / 2 + p.sin(angle) * radius,
-        angle: p.random(p.TWO_PI),
-      });
+  p.draw = () => {
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      ctx.measure('agents', moveAgents);
+      ctx.measure('diffuse', diffuse);
     }
+
+    ctx.measure('render', render);
+  };
+
+  ctx.onResize = () => {
+    initGrid();
+    initAgents();
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = (pointer) => {
     trailMap = new Array(pixelWidth * pixelHeight).fill(0);
     agents = [];
-    for (let i = 0; i < numAgents; i++) {
+    for (let i = 0; i < agentCount(); i++) {
       agents.push({
-        x: p.mouseX + p.random(-50, 50),
-        y: p.mouseY + p.random(-50, 50),
+        x: p.constrain((pointer.x + p.random(-50, 50)) / cellSize, 0, pixelWidth - 1),
+        y: p.constrain((pointer.y + p.random(-50, 50)) / cellSize, 0, pixelHeight - 1),
         angle: p.random(p.TWO_PI),
       });
     }
   };
+
+  ctx.onParamChange = (key) => {
+    if (key === 'numAgents') {
+      initAgents();
+    }
+  };
+
+  ctx.onQualityChange = () => {
+    if (quality.cellSize !== cellSize) {
+      // Keep the agents where they were on screen; the trails start over
+      const scale = cellSize / quality.cellSize;
+      initGrid();
+      for (const agent of agents) {
+        agent.x = Math.min(agent.x * scale, pixelWidth - 1);
+        agent.y = Math.min(agent.y * scale, pixelHeight - 1);
+      }
+    }
+
+    const count = agentCount();
+    if (agents.length > count) agents.length = count;
+    while (agents.length < count) agents.push(spawnAgent());
+  };
 };
 
+physarumSketch.params = paramSchema;
+physarumSketch.quality = qualitySchema;
+
 export default physarumSketch;
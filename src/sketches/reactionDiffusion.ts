@@ -1,24 +1,31 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
+import type { ParamSchema, ParamValues } from '@/lib/params';
 
 interface Cell {
   a: number;
   b: number;
 }
 
-const reactionDiffusionSketch: Sketch = (p: p5) => {
+const paramSchema = {
+  feed: { type: 'number', min: 0.01, max: 0.1, step: 0.001, default: 0.055 },
+  kill: { type: 'number', min: 0.03, max: 0.075, step: 0.001, default: 0.062 },
+  dA: { type: 'number', min: 0.2, max: 1.5, step: 0.01, default: 1.0 },
+  dB: { type: 'number', min: 0.1, max: 1.0, step: 0.01, default: 0.5 },
+  stepsPerFrame: { type: 'number', min: 1, max: 20, step: 1, default: 5 },
+  brushRadius: { type: 'number', min: 1, max: 20, step: 1, default: 5 },
+} satisfies ParamSchema;
+
+const reactionDiffusionSketch: Sketch = (p: p5, ctx) => {
+  const params = ctx.params as ParamValues<typeof paramSchema>;
   let grid: Cell[][];
   let next: Cell[][];
-  const dA = 1.0;
-  const dB = 0.5;
-  const feed = 0.055;
-  const kill = 0.062;
   const scale = 4;
   let cols: number;
   let rows: number;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.pixelDensity(1);
 
     cols = Math.floor(p.width / scale);
@@ -85,7 +92,9 @@ const reactionDiffusionSketch: Sketch = (p: p5) => {
   };
 
   p.draw = () => {
-    for (let i = 0; i < 5; i++) {
+    const { dA, dB, feed, kill } = params;
+
+    for (let i = 0; i < params.stepsPerFrame * ctx.clock.steps; i++) {
       for (let x = 0; x < cols; x++) {
         for (let y = 0; y < rows; y++) {
           const a = grid[x][y].a;
@@ -157,17 +166,18 @@ const reactionDiffusionSketch: Sketch = (p: p5) => {
     return { r: Math.round(r * 255), g: Math.round(g * 255), b: Math.round(b * 255) };
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     cols = Math.floor(p.width / scale);
     rows = Math.floor(p.height / scale);
     initGrid();
   };
 
-  p.mouseDragged = () => {
-    const x = Math.floor(p.mouseX / scale);
-    const y = Math.floor(p.mouseY / scale);
-    const radius = 5;
+  // Every finger paints
+  ctx.onPointerMove = (pointer) => {
+    if (!pointer.pressed) return;
+    const x = Math.floor(pointer.x / scale);
+    const y = Math.floor(pointer.y / scale);
+    const radius = params.brushRadius;
 
     for (let i = -radius; i <= radius; i++) {
       for (let j = -radius; j <= radius; j++) {
@@ -181,4 +191,6 @@ const reactionDiffusionSketch: Sketch = (p: p5) => {
   };
 };
 
+reactionDiffusionSketch.params = paramSchema;
+
 export default reactionDiffusionSketch;
@@ -1,7 +1,7 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
 
-const recursiveSubdivisionSketch: Sketch = (p: p5) => {
+const recursiveSubdivisionSketch: Sketch = (p: p5, ctx) => {
   const colors: string[] = [
     '#FF0000', '#FFFF00', '#0000FF', '#FFFFFF', '#000000',
   ];
@@ -9,7 +9,7 @@ const recursiveSubdivisionSketch: Sketch = (p: p5) => {
   const minSize = 30;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.noLoop();
     drawMondrian();
   };
@@ -63,12 +63,11 @@ const recursiveSubdivisionSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     drawMondrian();
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     drawMondrian();
   };
 };
@@ -1,9 +1,8 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
 
-const shaderArtSketch: Sketch = (p: p5) => {
-  let theShader: p5.Shader | null = null;
-  let shaderReady = false;
+const shaderArtSketch: Sketch = (p: p5, ctx) => {
+  let theShader: p5.Shader;
 
   const vertexShader = `
     attribute vec3 aPosition;
@@ -59,51 +58,21 @@ const shaderArtSketch: Sketch = (p: p5) => {
   `;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight, p.WEBGL);
+    p.createCanvas(ctx.width, ctx.height, p.WEBGL);
     p.noStroke();
 
-    try {
-      theShader = p.createShader(vertexShader, fragmentShader);
-      shaderReady = true;
-    } catch (e) {
-      console.error('Shader compilation failed:', e);
-      shaderReady = false;
-    }
+    theShader = p.createShader(vertexShader, fragmentShader);
   };
 
   p.draw = () => {
-    if (shaderReady && theShader) {
-      p.shader(theShader);
-      theShader.setUniform('u_resolution', [p.width, p.height]);
-      theShader.setUniform('u_time', p.millis() / 1000.0);
-      theShader.setUniform('u_mouse', [p.mouseX / p.width, 1.0 - p.mouseY / p.height]);
-      p.rect(0, 0, p.width, p.height);
-    } else {
-      // Fallback if shader fails
-      p.background(20);
-      p.fill(255);
-      p.textAlign(p.CENTER, p.CENTER);
-      p.textSize(20);
-      p.text('Shader visualization', 0, 0);
-
-      // Draw a simple pattern as fallback
-      const time = p.millis() / 1000;
-      for (let i = 0; i < 50; i++) {
-        const angle = (i / 50) * p.TWO_PI + time;
-        const r = 100 + p.sin(time * 2 + i * 0.2) * 50;
-        const x = p.cos(angle) * r;
-        const y = p.sin(angle) * r;
-        const hue = (i * 7 + p.frameCount) % 360;
-        p.fill(p.color(`hsl(${hue}, 70%, 50%)`));
-        p.noStroke();
-        p.ellipse(x, y, 20 + p.sin(time * 3 + i) * 10);
-      }
-    }
-  };
-
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+    p.shader(theShader);
+    theShader.setUniform('u_resolution', [p.width, p.height]);
+    theShader.setUniform('u_time', ctx.clock.time);
+    theShader.setUniform('u_mouse', [ctx.input.x / p.width, 1.0 - ctx.input.y / p.height]);
+    p.rect(0, 0, p.width, p.height);
   };
 };
 
+shaderArtSketch.requires = ['webgl'];
+
 export default shaderArtSketch;
@@ -1,7 +1,7 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
 
-const strangeAttractorsSketch: Sketch = (p: p5) => {
+const strangeAttractorsSketch: Sketch = (p: p5, ctx) => {
   let x = 0.01;
   let y = 0;
   let z = 0;
@@ -20,15 +20,15 @@ const strangeAttractorsSketch: Sketch = (p: p5) => {
   let zoom = 5;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight, p.WEBGL);
+    p.createCanvas(ctx.width, ctx.height, p.WEBGL);
     p.colorMode(p.HSB, 360, 100, 100, 100);
   };
 
   p.draw = () => {
     p.background(10);
 
-    // Calculate new points
-    for (let i = 0; i < 10; i++) {
+    // Calculate new points, 10 integration steps per simulation step
+    for (let i = 0; i < 10 * ctx.clock.steps; i++) {
       const dx = sigma * (y - x) * dt;
       const dy = (x * (rho - z) - y) * dt;
       const dz = (x * y - beta * z) * dt;
@@ -45,7 +45,7 @@ const strangeAttractorsSketch: Sketch = (p: p5) => {
     }
 
     // Camera controls
-    rotationY += 0.003;
+    rotationY += 0.18 * ctx.clock.delta;
 
     p.scale(zoom);
     p.rotateX(rotationX);
@@ -78,22 +78,18 @@ const strangeAttractorsSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.mouseDragged = () => {
-    rotationY += (p.mouseX - p.pmouseX) * 0.01;
-    rotationX += (p.mouseY - p.pmouseY) * 0.01;
+  ctx.onPointerMove = (pointer) => {
+    if (!pointer.pressed || pointer !== ctx.input.primary) return;
+    rotationY += pointer.dx * 0.01;
+    rotationX += pointer.dy * 0.01;
   };
 
-  p.mouseWheel = (event: WheelEvent) => {
-    zoom -= event.deltaY * 0.005;
-    zoom = p.constrain(zoom, 2, 15);
-    return false;
+  // Wheel or pinch
+  ctx.onGesture = (gesture) => {
+    zoom = p.constrain(zoom * gesture.zoom, 2, 15);
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
-  };
-
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     // Reset with slightly different initial conditions
     x = p.random(-0.1, 0.1);
     y = p.random(-0.1, 0.1);
@@ -102,4 +98,6 @@ const strangeAttractorsSketch: Sketch = (p: p5) => {
   };
 };
 
+strangeAttractorsSketch.requires = ['webgl'];
+
 export default strangeAttractorsSketch;
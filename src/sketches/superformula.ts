@@ -7,7 +7,7 @@ import type { Sketch } from '@/components/P5Wrapper';
  *
  * r(θ) = (|cos(mθ/4)/a|^n2 + |sin(mθ/4)/b|^n3)^(-1/n1)
  */
-const superformulaSketch: Sketch = (p: p5) => {
+const superformulaSketch: Sketch = (p: p5, ctx) => {
   // Superformula parameters
   let m = 6;      // Symmetry
   let n1 = 1;     // Overall shape
@@ -58,7 +58,7 @@ const superformulaSketch: Sketch = (p: p5) => {
   };
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.noFill();
     generateShapes();
@@ -68,11 +68,11 @@ const superformulaSketch: Sketch = (p: p5) => {
     p.background(10, 20, 15);
     p.translate(p.width / 2, p.height / 2);
 
-    time += 0.01;
+    time += 0.6 * ctx.clock.delta;
 
     // Animate parameters based on mouse position
-    m = p.map(p.mouseX, 0, p.width, 2, 12);
-    n1 = p.map(p.mouseY, 0, p.height, 0.2, 4);
+    m = p.map(ctx.input.x, 0, p.width, 2, 12);
+    n1 = p.map(ctx.input.y, 0, p.height, 0.2, 4);
     n2 = 1 + p.sin(time) * 2;
     n3 = 1 + p.cos(time * 0.7) * 2;
 
@@ -106,7 +106,6 @@ const superformulaSketch: Sketch = (p: p5) => {
     p.textSize(14);
     p.textAlign(p.LEFT, p.TOP);
     p.text(`m: ${m.toFixed(2)}  n1: ${n1.toFixed(2)}  n2: ${n2.toFixed(2)}  n3: ${n3.toFixed(2)}`, 20, 20);
-    p.text('Move mouse to change shape parameters', 20, 40);
     p.pop();
   };
 
@@ -153,11 +152,7 @@ const superformulaSketch: Sketch = (p: p5) => {
     p.pop();
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
-  };
-
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     generateShapes();
   };
 };
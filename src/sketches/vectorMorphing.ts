@@ -1,18 +1,19 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
 
-const vectorMorphingSketch: Sketch = (p: p5) => {
+const vectorMorphingSketch: Sketch = (p: p5, ctx) => {
   const numPoints = 100;
   let currentShape: p5.Vector[] = [];
   let targetShape: p5.Vector[] = [];
   let morphProgress = 0;
   let shapeIndex = 0;
-  const morphSpeed = 0.02;
+  // Morphs per second
+  const morphSpeed = 1.2;
 
   const shapes = ['circle', 'star', 'square', 'triangle', 'heart'];
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
 
     currentShape = generateShape(shapes[0]);
@@ -108,7 +109,7 @@ const vectorMorphingSketch: Sketch = (p: p5) => {
     p.background(20);
 
     // Interpolate between shapes
-    morphProgress += morphSpeed;
+    morphProgress += morphSpeed * ctx.clock.delta;
 
     if (morphProgress >= 1) {
       morphProgress = 0;
@@ -132,7 +133,7 @@ const vectorMorphingSketch: Sketch = (p: p5) => {
       const x = p.lerp(current.x, target.x, eased);
       const y = p.lerp(current.y, target.y, eased);
 
-      const hue = (i * 3.6 + p.frameCount) % 360;
+      const hue = (i * 3.6 + ctx.clock.time * 60) % 360;
       p.stroke(hue, 70, 90, 90);
       p.vertex(x, y);
     }
@@ -146,7 +147,7 @@ const vectorMorphingSketch: Sketch = (p: p5) => {
       const x = p.lerp(current.x, target.x, eased);
       const y = p.lerp(current.y, target.y, eased);
 
-      const hue = (i * 3.6 + p.frameCount) % 360;
+      const hue = (i * 3.6 + ctx.clock.time * 60) % 360;
       p.fill(hue, 70, 100);
       p.noStroke();
       p.ellipse(x, y, 8);
@@ -163,13 +164,12 @@ const vectorMorphingSketch: Sketch = (p: p5) => {
     return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     currentShape = generateShape(shapes[shapeIndex]);
     targetShape = generateShape(shapes[(shapeIndex + 1) % shapes.length]);
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     // Skip to next shape
     morphProgress = 0;
     shapeIndex = (shapeIndex + 1) % shapes.length;
@@ -1,5 +1,6 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
+import type { QualitySchema, QualityValues } from '@/lib/quality';
 
 interface Point {
   x: number;
@@ -9,12 +10,17 @@ interface Point {
   hue: number;
 }
 
-const voronoiSketch: Sketch = (p: p5) => {
+const qualitySchema = {
+  pixelStep: { low: 12, high: 4, integer: true },
+} satisfies QualitySchema;
+
+const voronoiSketch: Sketch = (p: p5, ctx) => {
+  const quality = ctx.quality as QualityValues<typeof qualitySchema>;
   const points: Point[] = [];
   const numPoints = 30;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.pixelDensity(1);
     initPoints();
@@ -33,36 +39,11 @@ const voronoiSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.draw = () => {
-    // Add mouse as a dynamic point
-    const allPoints = [...points];
-    if (p.mouseX > 0 && p.mouseX < p.width && p.mouseY > 0 && p.mouseY < p.height) {
-      allPoints.push({
-        x: p.mouseX,
-        y: p.mouseY,
-        vx: 0,
-        vy: 0,
-        hue: 60,
-      });
-    }
-
-    // Update point positions
-    for (const point of points) {
-      point.x += point.vx;
-      point.y += point.vy;
-
-      // Bounce off edges
-      if (point.x < 0 || point.x > p.width) point.vx *= -1;
-      if (point.y < 0 || point.y > p.height) point.vy *= -1;
-
-      point.x = p.constrain(point.x, 0, p.width);
-      point.y = p.constrain(point.y, 0, p.height);
-    }
-
-    // Draw Voronoi cells using pixel-based approach
+  // Draw Voronoi cells using pixel-based approach
+  const drawCells = (allPoints: Point[]) => {
     p.loadPixels();
 
-    const step = 4; // Skip pixels for performance
+    const step = quality.pixelStep; // Skip pixels for performance
     for (let x = 0; x < p.width; x += step) {
       for (let y = 0; y < p.height; y += step) {
         let minDist = Infinity;
@@ -102,6 +83,37 @@ const voronoiSketch: Sketch = (p: p5) => {
     }
 
     p.updatePixels();
+  };
+
+  p.draw = () => {
+    // Add each pointer as a dynamic point
+    const allPoints = [...points];
+    for (const pointer of ctx.input.pointers) {
+      allPoints.push({
+        x: pointer.x,
+        y: pointer.y,
+        vx: 0,
+        vy: 0,
+        hue: 60,
+      });
+    }
+
+    // Update point positions
+    for (let step = 0; step < ctx.clock.steps; step++) {
+      for (const point of points) {
+        point.x += point.vx;
+        point.y += point.vy;
+
+        // Bounce off edges
+        if (point.x < 0 || point.x > p.width) point.vx *= -1;
+        if (point.y < 0 || point.y > p.height) point.vy *= -1;
+
+        point.x = p.constrain(point.x, 0, p.width);
+        point.y = p.constrain(point.y, 0, p.height);
+      }
+    }
+
+    ctx.measure('cells', () => drawCells(allPoints));
 
     // Draw cell centers
     p.noStroke();
@@ -111,14 +123,15 @@ const voronoiSketch: Sketch = (p: p5) => {
     }
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
+  ctx.onResize = () => {
     initPoints();
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     initPoints();
   };
 };
 
+voronoiSketch.quality = qualitySchema;
+
 export default voronoiSketch;
@@ -7,7 +7,8 @@ import type { Sketch } from '@/components/P5Wrapper';
  * Voronoi: Regions closest to each point
  * Delaunay: Triangulation connecting the points
  */
-const voronoiDelaunaySketch: Sketch = (p: p5) => {
+const voronoiDelaunaySketch: Sketch = (p: p5, ctx) => {
+  const messages = ctx.messages.sketches['voronoi-delaunay'];
   interface Point {
     x: number;
     y: number;
@@ -21,7 +22,6 @@ const voronoiDelaunaySketch: Sketch = (p: p5) => {
   let showVoronoi = true;
   let showDelaunay = true;
   let showPoints = true;
-  let animating = true;
   let time = 0;
 
   const initPoints = () => {
@@ -38,7 +38,7 @@ const voronoiDelaunaySketch: Sketch = (p: p5) => {
   };
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
+    p.createCanvas(ctx.width, ctx.height);
     p.colorMode(p.HSB, 360, 100, 100, 100);
     p.pixelDensity(1);
     initPoints();
@@ -46,10 +46,10 @@ const voronoiDelaunaySketch: Sketch = (p: p5) => {
 
   p.draw = () => {
     p.background(15, 25, 12);
-    time += 0.01;
+    time += 0.6 * ctx.clock.delta;
 
     // Update points
-    if (animating) {
+    for (let step = 0; step < ctx.clock.steps; step++) {
       for (const pt of points) {
         pt.x += pt.vx;
         pt.y += pt.vy;
@@ -63,8 +63,8 @@ const voronoiDelaunaySketch: Sketch = (p: p5) => {
         pt.y = p.constrain(pt.y, 0, p.height);
 
         // Add mouse attraction
-        const dx = p.mouseX - pt.x;
-        const dy = p.mouseY - pt.y;
+        const dx = ctx.input.x - pt.x;
+        const dy = ctx.input.y - pt.y;
         const dist = p.sqrt(dx * dx + dy * dy);
         if (dist < 200 && dist > 0) {
           pt.vx += (dx / dist) * 0.1;
@@ -99,14 +99,6 @@ const voronoiDelaunaySketch: Sketch = (p: p5) => {
         p.ellipse(pt.x, pt.y, 8);
       }
     }
-
-    // Instructions
-    p.fill(0, 0, 100);
-    p.noStroke();
-    p.textSize(14);
-    p.textAlign(p.LEFT, p.TOP);
-    p.text('V: Toggle Voronoi | D: Toggle Delaunay | P: Toggle Points | Space: Pause', 20, 20);
-    p.text('Click to add point | R: Reset', 20, 40);
   };
 
   const drawVoronoi = () => {
@@ -243,27 +235,70 @@ const voronoiDelaunaySketch: Sketch = (p: p5) => {
     return { x, y, r };
   };
 
-  p.mousePressed = () => {
+  ctx.onPointerDown = (pointer) => {
     points.push({
-      x: p.mouseX,
-      y: p.mouseY,
+      x: pointer.x,
+      y: pointer.y,
       vx: p.random(-1, 1),
       vy: p.random(-1, 1),
       hue: p.random(360),
     });
   };
 
-  p.keyPressed = () => {
-    if (p.key === 'v' || p.key === 'V') showVoronoi = !showVoronoi;
-    if (p.key === 'd' || p.key === 'D') showDelaunay = !showDelaunay;
-    if (p.key === 'p' || p.key === 'P') showPoints = !showPoints;
-    if (p.key === 'r' || p.key === 'R') initPoints();
-    if (p.key === ' ') animating = !animating;
+  ctx.addAction({
+    keys: ['v'],
+    label: messages.toggleVoronoi,
+    run: () => {
+      showVoronoi = !showVoronoi;
+    },
+  });
+
+  ctx.addAction({
+    keys: ['d'],
+    label: messages.toggleDelaunay,
+    run: () => {
+      showDelaunay = !showDelaunay;
+    },
+  });
+
+  ctx.addAction({
+    keys: ['p'],
+    label: messages.togglePoints,
+    run: () => {
+      showPoints = !showPoints;
+    },
+  });
+
+  ctx.addAction({
+    keys: ['r'],
+    label: messages.reset,
+    run: () => {
+      initPoints();
+    },
+  });
+
+  ctx.onResize = () => {
+    initPoints();
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
-    initPoints();
+  // Positions are stored relative to the canvas so they fit any screen
+  ctx.onSerialize = () => ({
+    points: points.map((pt) => [
+      +(pt.x / p.width).toFixed(4),
+      +(pt.y / p.height).toFixed(4),
+      +pt.vx.toFixed(3),
+      +pt.vy.toFixed(3),
+      Math.round(pt.hue),
+    ]),
+  });
+
+  ctx.onRestore = (data) => {
+    const saved = ((data ?? {}) as Record<string, unknown>).points;
+    if (!Array.isArray(saved)) return;
+
+    points = saved
+      .filter((values): values is number[] => Array.isArray(values) && values.length === 5 && values.every(Number.isFinite))
+      .map(([x, y, vx, vy, hue]) => ({ x: x * p.width, y: y * p.height, vx, vy, hue }));
   };
 };
 
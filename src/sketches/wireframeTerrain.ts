@@ -1,7 +1,7 @@
 import type p5 from 'p5';
 import type { Sketch } from '@/components/P5Wrapper';
 
-const wireframeTerrainSketch: Sketch = (p: p5) => {
+const wireframeTerrainSketch: Sketch = (p: p5, ctx) => {
   const cols = 50;
   const rows = 50;
   const scl = 30;
@@ -9,7 +9,7 @@ const wireframeTerrainSketch: Sketch = (p: p5) => {
   let flying = 0;
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight, p.WEBGL);
+    p.createCanvas(ctx.width, ctx.height, p.WEBGL);
     p.colorMode(p.HSB, 360, 100, 100, 100);
 
     // Initialize terrain array
@@ -20,9 +20,9 @@ const wireframeTerrainSketch: Sketch = (p: p5) => {
   };
 
   p.draw = () => {
-    // Use mouse to control flight speed
-    const speed = p.map(p.mouseY, 0, p.height, 0.02, 0.08);
-    flying -= speed;
+    // Use mouse to control flight speed (noise units per second)
+    const speed = p.map(ctx.input.y, 0, p.height, 1.2, 4.8);
+    flying -= speed * ctx.clock.delta;
 
     // Generate terrain using Perlin noise
     let yoff = flying;
@@ -38,7 +38,7 @@ const wireframeTerrainSketch: Sketch = (p: p5) => {
     p.background(240, 20, 10);
 
     // Tilt control with mouse X
-    const rotX = p.map(p.mouseX, 0, p.width, p.PI / 2.5, p.PI / 3.5);
+    const rotX = p.map(ctx.input.x, 0, p.width, p.PI / 2.5, p.PI / 3.5);
 
     p.push();
     p.translate(0, 50, -200);
@@ -81,15 +81,13 @@ const wireframeTerrainSketch: Sketch = (p: p5) => {
     p.pop();
   };
 
-  p.windowResized = () => {
-    p.resizeCanvas(p.windowWidth, p.windowHeight);
-  };
-
-  p.mousePressed = () => {
+  ctx.onPointerDown = () => {
     // Reset with new noise seed
     p.noiseSeed(p.random(1000));
     flying = 0;
   };
 };
 
+wireframeTerrainSketch.requires = ['webgl'];
+
 export default wireframeTerrainSketch;
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { getArtwork } from '@/lib/artworks';
+import {
+  collections,
+  getCollection,
+  getCollectionArtworks,
+  getCollectionsFor,
+  getNeighbours,
+  isCollectionId,
+} from '@/lib/collections';
+
+test('collections are found by id', () => {
+  assert.ok(collections.length > 0);
+  for (const collection of collections) {
+    assert.ok(isCollectionId(collection.id));
+    assert.equal(getCollection(collection.id), collection);
+  }
+  assert.equal(isCollectionId('missing'), false);
+  assert.equal(getCollection('missing'), undefined);
+});
+
+test('every collection lists real artworks, its cover among them', () => {
+  for (const collection of collections) {
+    const list = getCollectionArtworks(collection);
+    assert.deepEqual(
+      list.map(({ id }) => id),
+      collection.artworkIds,
+    );
+    assert.ok(collection.artworkIds.includes(collection.cover));
+  }
+});
+
+test('getCollectionsFor lists the collections an artwork is in', () => {
+  const [first] = collections;
+  const artworkId = first.artworkIds[0];
+  const found = getCollectionsFor(artworkId);
+  assert.ok(found.includes(first));
+  assert.ok(found.every((collection) => collection.artworkIds.includes(artworkId)));
+  assert.deepEqual(getCollectionsFor('missing'), []);
+});
+
+test('neighbours are the artworks either side, null at the ends', () => {
+  const [collection] = collections;
+  const ids = collection.artworkIds;
+
+  assert.deepEqual(getNeighbours(collection, ids[0]), { index: 0, previous: null, next: getArtwork(ids[1]) });
+  assert.deepEqual(getNeighbours(collection, ids[1]), {
+    index: 1,
+    previous: getArtwork(ids[0]),
+    next: getArtwork(ids[2]) ?? null,
+  });
+  assert.deepEqual(getNeighbours(collection, ids.at(-1)!), {
+    index: ids.length - 1,
+    previous: getArtwork(ids.at(-2)!),
+    next: null,
+  });
+});
+
+test('an artwork outside the collection has no neighbours', () => {
+  const collection = collections.find(({ artworkIds }) => !artworkIds.includes('flow-fields'))!;
+  assert.deepEqual(getNeighbours(collection, 'flow-fields'), { index: -1, previous: null, next: null });
+});
@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { inflateSync } from 'node:zlib';
+import { crc32 } from '@/lib/crc32';
+import { createPngEncoder } from '@/lib/png';
+import { createZipWriter } from '@/lib/zip';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+test('crc32 matches the standard check value', () => {
+  assert.equal(crc32(bytes('123456789')), 0xcbf43926);
+  assert.equal(crc32(new Uint8Array(0)), 0);
+});
+
+const WIDTH = 3;
+const HEIGHT = 2;
+const pixels = new Uint8ClampedArray([
+  255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0,
+  10, 20, 30, 255, 200, 100, 50, 64, 255, 255, 255, 255,
+]);
+
+/** Reads back the size and pixels of an 8-bit RGBA PNG */
+async function decodePng(png: Blob) {
+  const data = new Uint8Array(await png.arrayBuffer());
+  const view = new DataView(data.buffer);
+  let width = 0;
+  let height = 0;
+  const idat: Uint8Array[] = [];
+  for (let offset = 8; offset < data.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+    }
+    if (type === 'IDAT') idat.push(data.subarray(offset + 8, offset + 8 + length));
+    offset += 12 + length;
+  }
+
+  // Every row is stored with the Sub filter: each byte is the difference from the pixel to its left
+  const filtered = inflateSync(Buffer.concat(idat));
+  const stride = width * 4;
+  const rgba = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    assert.equal(filtered[y * (stride + 1)], 1);
+    for (let i = 0; i < stride; i++) {
+      const left = i >= 4 ? rgba[y * stride + i - 4] : 0;
+      rgba[y * stride + i] = filtered[y * (stride + 1) + 1 + i] + left;
+    }
+  }
+  return { width, height, data: rgba };
+}
+
+test('the PNG encoder writes an image decoders read back exactly', async () => {
+  const encoder = createPngEncoder(WIDTH, HEIGHT);
+  // Added in two bands, as exports do
+  await encoder.addRows(pixels.subarray(0, WIDTH * 4), 1);
+  await encoder.addRows(pixels.subarray(WIDTH * 4), 1);
+  const png = await encoder.finish();
+
+  assert.equal(png.type, 'image/png');
+  const decoded = await decodePng(png);
+  assert.deepEqual([decoded.width, decoded.height], [WIDTH, HEIGHT]);
+  assert.deepEqual([...decoded.data], [...pixels]);
+});
+
+test('every PNG chunk carries a valid checksum', async () => {
+  const encoder = createPngEncoder(WIDTH, HEIGHT);
+  await encoder.addRows(pixels, HEIGHT);
+  const png = new Uint8Array(await (await encoder.finish()).arrayBuffer());
+  const view = new DataView(png.buffer);
+
+  const types: string[] = [];
+  for (let offset = 8; offset < png.length; ) {
+    const length = view.getUint32(offset);
+    types.push(String.fromCharCode(...png.subarray(offset + 4, offset + 8)));
+    assert.equal(view.getUint32(offset + 8 + length), crc32(png.subarray(offset + 4, offset + 8 + length)));
+    offset += 12 + length;
+  }
+  assert.equal(types[0], 'IHDR');
+  assert.ok(types.includes('IDAT'));
+  assert.equal(types.at(-1), 'IEND');
+});
+
+test('the PNG encoder refuses the wrong number of rows', async () => {
+  const short = createPngEncoder(WIDTH, HEIGHT);
+  await short.addRows(pixels, 1);
+  await assert.rejects(short.finish(), /expected 2 rows/);
+
+  const long = createPngEncoder(WIDTH, HEIGHT);
+  await assert.rejects(long.addRows(pixels, 3), /Too many rows/);
+});
+
+test('zip archives list every file with its name, size and checksum', async () => {
+  const files = { 'frame-0001.png': 'first frame', 'frame-0002.png': 'second, longer frame' };
+  const zip = createZipWriter();
+  for (const [name, text] of Object.entries(files)) await zip.add(name, new Blob([text]));
+  const archive = zip.finish();
+  assert.equal(archive.type, 'application/zip');
+
+  const data = new Uint8Array(await archive.arrayBuffer());
+  const view = new DataView(data.buffer);
+  const end = data.length - 22;
+  assert.equal(view.getUint32(end, true), 0x06054b50);
+  assert.equal(view.getUint16(end + 10, true), 2);
+
+  // Walk the central directory to each local entry
+  let record = view.getUint32(end + 16, true);
+  for (const [name, text] of Object.entries(files)) {
+    assert.equal(view.getUint32(record, true), 0x02014b50);
+    const nameLength = view.getUint16(record + 28, true);
+    assert.equal(new TextDecoder().decode(data.subarray(record + 46, record + 46 + nameLength)), name);
+
+    const local = view.getUint32(record + 42, true);
+    assert.equal(view.getUint32(local, true), 0x04034b50);
+    const size = view.getUint32(local + 18, true);
+    const start = local + 30 + view.getUint16(local + 26, true);
+    const content = data.subarray(start, start + size);
+    assert.equal(new TextDecoder().decode(content), text);
+    assert.equal(view.getUint32(local + 14, true), crc32(content));
+    assert.equal(view.getUint32(record + 16, true), crc32(content));
+
+    record += 46 + nameLength;
+  }
+});
+
+test('zip archives refuse to grow past what 32-bit offsets can address', async () => {
+  // Only the size is read before the check, so nothing this big is allocated
+  const huge = { size: 0xffffffff } as Blob;
+  await assert.rejects(createZipWriter().add('huge.bin', huge), /larger than 4 GiB/);
+});
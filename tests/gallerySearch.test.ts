@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { artworks, difficulties } from '@/lib/artworks';
+import { getCollection } from '@/lib/collections';
+import { countFacets, emptyFilters, filterArtworks, filtersToQuery, parseFilters, type GalleryFilters } from '@/lib/gallerySearch';
+
+const ids = (list: readonly { id: string }[]) => list.map(({ id }) => id);
+
+test('filters round-trip through the query string', () => {
+  const filters: GalleryFilters = {
+    query: 'slime mold',
+    tags: ['Particles', 'Organic'],
+    difficulty: 'hard',
+    collection: 'nature-of-code',
+    sort: 'title',
+  };
+  assert.deepEqual(parseFilters(filtersToQuery(filters)), filters);
+});
+
+test('default filters leave the query string empty', () => {
+  assert.equal(filtersToQuery(emptyFilters).toString(), '');
+  assert.equal(filtersToQuery({ ...emptyFilters, query: '   ' }).toString(), '');
+});
+
+test('parseFilters drops values outside the vocabulary', () => {
+  const query = new URLSearchParams('tag=Particles&tag=Nonsense&tag=Particles&difficulty=extreme&collection=nope&sort=random');
+  assert.deepEqual(parseFilters(query), { ...emptyFilters, tags: ['Particles'] });
+});
+
+test('with no filters every artwork is listed in gallery order', () => {
+  assert.deepEqual(ids(filterArtworks(artworks, emptyFilters, 'en')), ids(artworks));
+});
+
+test('a search matches every word, in any language', () => {
+  const english = filterArtworks(artworks, { ...emptyFilters, query: 'FLOW   fields' }, 'en');
+  assert.ok(ids(english).includes('flow-fields'));
+  assert.ok(english.every(({ title, description, tags }) => /flow/i.test([title.en, description.en, ...tags].join(' '))));
+
+  // The Japanese title, found while browsing in English
+  assert.ok(ids(filterArtworks(artworks, { ...emptyFilters, query: 'フローフィールド' }, 'en')).includes('flow-fields'));
+  assert.deepEqual(filterArtworks(artworks, { ...emptyFilters, query: 'flow zzzz' }, 'en'), []);
+});
+
+test('tags, difficulty and collection must all match', () => {
+  const filters: GalleryFilters = { ...emptyFilters, tags: ['Particles'], difficulty: 'easy', collection: 'foundations' };
+  const found = filterArtworks(artworks, filters, 'en');
+  assert.ok(found.length > 0);
+  for (const artwork of found) {
+    assert.ok(artwork.tags.includes('Particles'));
+    assert.equal(artwork.difficulty, 'easy');
+    assert.ok(getCollection('foundations')!.artworkIds.includes(artwork.id));
+  }
+});
+
+test('sorting by difficulty keeps gallery order within each level', () => {
+  const easiest = filterArtworks(artworks, { ...emptyFilters, sort: 'easiest' }, 'en');
+  const expected = difficulties.flatMap((level) => ids(artworks.filter(({ difficulty }) => difficulty === level)));
+  assert.deepEqual(ids(easiest), expected);
+
+  const hardest = filterArtworks(artworks, { ...emptyFilters, sort: 'hardest' }, 'en');
+  assert.equal(hardest[0].difficulty, 'hard');
+  assert.equal(hardest.at(-1)!.difficulty, 'easy');
+});
+
+test('sorting by title follows the reading locale', () => {
+  for (const locale of ['en', 'ja'] as const) {
+    const titles = filterArtworks(artworks, { ...emptyFilters, sort: 'title' }, locale).map(({ title }) => title[locale]);
+    assert.deepEqual(titles, [...titles].sort((a, b) => a.localeCompare(b, locale)));
+  }
+});
+
+test('facet counts say how many results picking each facet would give', () => {
+  const filters: GalleryFilters = { ...emptyFilters, tags: ['Particles'], difficulty: 'easy' };
+  const counts = countFacets(artworks, filters);
+
+  for (const level of difficulties) {
+    assert.equal(counts.difficulties[level], filterArtworks(artworks, { ...filters, difficulty: level }, 'en').length);
+  }
+  assert.equal(
+    counts.collections.foundations,
+    filterArtworks(artworks, { ...filters, collection: 'foundations' }, 'en').length,
+  );
+  // Tag counts are among the current results, so every one carries the selected tag
+  assert.equal(counts.tags.get('Particles'), filterArtworks(artworks, filters, 'en').length);
+  assert.ok([...counts.tags.values()].every((count) => count > 0));
+});
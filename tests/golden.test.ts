@@ -0,0 +1,190 @@
+import assert from 'node:assert/strict';
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { test } from 'node:test';
+import { createCanvas, ImageData, loadImage } from '@napi-rs/canvas';
+import pixelmatch from 'pixelmatch';
+import { installHeadlessDom } from '../scripts/headless';
+import type { Sketch } from '@/components/P5Wrapper';
+import { artworks, loadSketch } from '@/lib/artworks';
+import { mountOffscreen } from '@/lib/offscreen';
+import { FIXED_STEP } from '@/lib/sketchRuntime';
+
+/**
+ * Renders every registered sketch for a fixed number of frames with a fixed
+ * seed and a scripted drag, and compares the result with the reference image
+ * in tests/golden. A frame of one flat colour fails, reference or not. Run
+ * with UPDATE_GOLDEN=1 to accept new output or write the reference for a new
+ * sketch; failures leave the actual image and a diff in tests/__output__.
+ */
+
+const SIZE = { width: 240, height: 180 };
+// Sketches whose composition doesn't fit the default frame
+const SIZES: Record<string, { width: number; height: number }> = {
+  // Its word is set at 200px, wider than the default frame
+  'kinetic-typography': { width: 480, height: 360 },
+};
+const SEED = 1234;
+const FRAMES = 30;
+
+// Per-pixel colour distance pixelmatch tolerates (0–1, YIQ space)
+const THRESHOLD = 0.1;
+// Share of pixels allowed to differ, for font and antialiasing differences between machines
+const MAX_DIFF_RATIO = 0.01;
+
+/**
+ * Sketches that need WebGL, which the headless canvas doesn't provide. They
+ * have no reference image and are only checked in the browser. The test fails
+ * if a sketch starts or stops needing WebGL without this list being updated.
+ */
+const WEBGL_SKETCHES: readonly string[] = ['shader-art', 'strange-attractors', 'wireframe-terrain'];
+
+const GOLDEN_DIR = join(__dirname, 'golden');
+const OUTPUT_DIR = join(__dirname, '__output__');
+const update = process.env.UPDATE_GOLDEN === '1';
+
+const window = installHeadlessDom();
+
+// Event timestamps and the runtime both read the clock; stepping it by hand
+// keeps pointer velocities the same on every run
+let now = 0;
+Date.now = () => now;
+performance.now = () => now;
+window.performance.now = () => now;
+
+// Frames of the scripted pointer: press, drag along a wave, release, hover back
+const DRAG_START = 5;
+const DRAG_END = 15;
+const HOVER_END = 25;
+
+const pathPoint = ({ width, height }: typeof SIZE, t: number) => ({
+  x: width * (0.25 + 0.5 * t),
+  y: height * (0.5 + 0.25 * Math.sin(t * Math.PI * 2)),
+});
+
+function pointerEvent(frame: number): { type: string; t: number; buttons: number } | null {
+  if (frame === DRAG_START) return { type: 'pointerdown', t: 0, buttons: 1 };
+  if (frame > DRAG_START && frame < DRAG_END) {
+    return { type: 'pointermove', t: (frame - DRAG_START) / (DRAG_END - DRAG_START), buttons: 1 };
+  }
+  if (frame === DRAG_END) return { type: 'pointerup', t: 1, buttons: 0 };
+  if (frame > DRAG_END && frame <= HOVER_END) {
+    return { type: 'pointermove', t: 1 - (frame - DRAG_END) / (HOVER_END - DRAG_END), buttons: 0 };
+  }
+  return null;
+}
+
+async function render(sketch: Sketch, size: typeof SIZE): Promise<ImageData> {
+  now = 0;
+  const offscreen = await mountOffscreen(sketch, {
+    seed: SEED,
+    ...size,
+    pixelDensity: 1,
+    fixedTimestep: FIXED_STEP,
+  });
+
+  try {
+    for (let frame = 1; frame <= FRAMES; frame++) {
+      now += FIXED_STEP * 1000;
+      const event = pointerEvent(frame);
+      if (event) {
+        const { x, y } = pathPoint(size, event.t);
+        offscreen.canvas.dispatchEvent(
+          new window.PointerEvent(event.type, {
+            pointerId: 1,
+            pointerType: 'mouse',
+            isPrimary: true,
+            clientX: x,
+            clientY: y,
+            buttons: event.buttons,
+            pressure: event.buttons ? 0.5 : 0,
+          }),
+        );
+      }
+      await offscreen.runtime.step(1);
+    }
+
+    const { width, height } = offscreen.canvas;
+    return offscreen.canvas.getContext('2d')!.getImageData(0, 0, width, height) as unknown as ImageData;
+  } finally {
+    offscreen.remove();
+  }
+}
+
+function encodePng(image: ImageData) {
+  const canvas = createCanvas(image.width, image.height);
+  canvas.getContext('2d').putImageData(image, 0, 0);
+  return canvas.encode('png');
+}
+
+/** Whether every pixel is the same colour, as when a sketch draws nothing over its background */
+function isBlank(image: ImageData) {
+  const pixels = new Uint32Array(image.data.buffer, image.data.byteOffset, image.width * image.height);
+  return pixels.every((pixel) => pixel === pixels[0]);
+}
+
+async function decodePng(png: Buffer): Promise<ImageData> {
+  const image = await loadImage(png);
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0);
+  return context.getImageData(0, 0, image.width, image.height);
+}
+
+for (const { id } of artworks) {
+  test(id, { timeout: 120_000 }, async (t) => {
+    const sketch = await loadSketch(id);
+    assert.ok(sketch, `${id} has no sketch`);
+    const needsWebgl = sketch.requires?.includes('webgl') ?? false;
+    assert.equal(
+      needsWebgl,
+      WEBGL_SKETCHES.includes(id),
+      needsWebgl ? `${id} needs WebGL but isn't in WEBGL_SKETCHES` : `${id} is in WEBGL_SKETCHES but renders in 2D`,
+    );
+    if (needsWebgl) {
+      t.skip('needs WebGL, see WEBGL_SKETCHES');
+      return;
+    }
+    const rendered = await render(sketch, SIZES[id] ?? SIZE);
+    assert.ok(!isBlank(rendered), `${id} rendered a blank frame`);
+    const png = await encodePng(rendered);
+    const referencePath = join(GOLDEN_DIR, `${id}.png`);
+
+    if (update) {
+      await mkdir(GOLDEN_DIR, { recursive: true });
+      await writeFile(referencePath, png);
+      t.diagnostic(`wrote ${referencePath}`);
+      return;
+    }
+    assert.ok(existsSync(referencePath), `${id} has no reference image; run the tests with UPDATE_GOLDEN=1 to create it`);
+
+    // Compare after the same PNG round trip, so encoding can't cause differences
+    const actual = await decodePng(png);
+    const expected = await decodePng(await readFile(referencePath));
+    assert.deepEqual(
+      [actual.width, actual.height],
+      [expected.width, expected.height],
+      `${id} rendered at a different size than its reference`,
+    );
+
+    const diff = new ImageData(actual.width, actual.height);
+    const changed = pixelmatch(expected.data, actual.data, diff.data, actual.width, actual.height, {
+      threshold: THRESHOLD,
+    });
+    const ratio = changed / (actual.width * actual.height);
+    if (ratio <= MAX_DIFF_RATIO) return;
+
+    await mkdir(OUTPUT_DIR, { recursive: true });
+    await writeFile(join(OUTPUT_DIR, `${id}.png`), png);
+    await writeFile(join(OUTPUT_DIR, `${id}.diff.png`), await encodePng(diff));
+    assert.fail(
+      `${id} differs from its reference in ${(ratio * 100).toFixed(2)}% of pixels; see tests/__output__/${id}.diff.png`,
+    );
+  });
+}
+
+test('every reference image belongs to a sketch that renders headless', async () => {
+  const expected = artworks.filter(({ id }) => !WEBGL_SKETCHES.includes(id)).map(({ id }) => `${id}.png`);
+  assert.deepEqual((await readdir(GOLDEN_DIR)).sort(), expected.sort());
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { installHeadlessDom } from '../scripts/headless';
+import type { Sketch } from '@/components/P5Wrapper';
+import { mountOffscreen } from '@/lib/offscreen';
+
+const WIDTH = 300;
+const HEIGHT = 200;
+
+installHeadlessDom();
+
+/** The box around every lit pixel of a sketch's first frame */
+async function inkBounds(sketch: Sketch) {
+  const offscreen = await mountOffscreen(sketch, { seed: 1, width: WIDTH, height: HEIGHT, pixelDensity: 1 });
+  try {
+    await offscreen.runtime.step(1);
+    const { data } = offscreen.canvas.getContext('2d')!.getImageData(0, 0, WIDTH, HEIGHT);
+    const bounds = { left: WIDTH, top: HEIGHT, right: -1, bottom: -1 };
+    for (let y = 0; y < HEIGHT; y++) {
+      for (let x = 0; x < WIDTH; x++) {
+        if (data[(y * WIDTH + x) * 4] < 128) continue;
+        bounds.left = Math.min(bounds.left, x);
+        bounds.top = Math.min(bounds.top, y);
+        bounds.right = Math.max(bounds.right, x);
+        bounds.bottom = Math.max(bounds.bottom, y);
+      }
+    }
+    return bounds;
+  } finally {
+    offscreen.remove();
+  }
+}
+
+test('text aligned to the centre is drawn around the point it was given', async () => {
+  for (const size of [40, 120]) {
+    const bounds = await inkBounds((p, ctx) => {
+      p.setup = () => p.createCanvas(ctx.width, ctx.height);
+      p.draw = () => {
+        p.background(0);
+        p.fill(255);
+        p.textSize(size);
+        p.textAlign(p.CENTER, p.CENTER);
+        p.text('HI', p.width / 2, p.height / 2);
+      };
+    });
+    assert.ok(bounds.top > 0 && bounds.bottom < HEIGHT - 1, `${size}px text runs off the canvas`);
+    // p5 centres on an estimate of the cap height, so allow a little either way
+    assert.ok(Math.abs((bounds.top + bounds.bottom) / 2 - HEIGHT / 2) < size * 0.1, `${size}px text is off centre`);
+    assert.ok(Math.abs((bounds.left + bounds.right) / 2 - WIDTH / 2) < 2);
+  }
+});
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  defaultLocale,
+  getControlLabels,
+  getMessages,
+  getPointerHint,
+  isLocale,
+  localeAlternates,
+  localePath,
+  locales,
+  matchLocale,
+  switchLocale,
+} from '@/lib/i18n';
+
+test('matchLocale picks the best supported language by quality', () => {
+  assert.equal(matchLocale('ja'), 'ja');
+  assert.equal(matchLocale('ja-JP,ja;q=0.9,en;q=0.8'), 'ja');
+  assert.equal(matchLocale('en-US,en;q=0.9,ja;q=0.8'), 'en');
+  assert.equal(matchLocale('fr;q=0.9,ja;q=0.5,en;q=0.7'), 'en');
+  // Equal quality goes by the header's order
+  assert.equal(matchLocale('de, ja, en'), 'ja');
+});
+
+test('matchLocale falls back to the default locale', () => {
+  assert.equal(matchLocale(null), defaultLocale);
+  assert.equal(matchLocale(''), defaultLocale);
+  assert.equal(matchLocale('fr-FR,de'), defaultLocale);
+  // q=0 means "not this one"
+  assert.equal(matchLocale('ja;q=0'), defaultLocale);
+});
+
+test('isLocale only accepts supported locales', () => {
+  for (const locale of locales) assert.ok(isLocale(locale));
+  assert.equal(isLocale('fr'), false);
+  assert.equal(isLocale('JA'), false);
+  assert.equal(isLocale(null), false);
+});
+
+test('locale paths put the locale first', () => {
+  assert.equal(localePath('ja', '/'), '/ja');
+  assert.equal(localePath('en', '/art/voronoi'), '/en/art/voronoi');
+  assert.deepEqual(localeAlternates('/play'), { en: '/en/play', ja: '/ja/play' });
+});
+
+test('switchLocale swaps the prefix and keeps the rest of the path', () => {
+  assert.equal(switchLocale('/en/art/voronoi', 'ja'), '/ja/art/voronoi');
+  assert.equal(switchLocale('/ja', 'en'), '/en');
+  assert.equal(switchLocale('/en/', 'ja'), '/ja');
+  // Paths without a prefix gain one
+  assert.equal(switchLocale('/collections', 'ja'), '/ja/collections');
+});
+
+test('every locale has the same message keys', () => {
+  const shape = (value: unknown): unknown =>
+    typeof value === 'object' && value !== null
+      ? Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, shape(entry)]))
+      : typeof value;
+  const [first, ...rest] = locales;
+  for (const locale of rest) assert.deepEqual(shape(getMessages(locale)), shape(getMessages(first)));
+});
+
+test('sketch control labels and pointer hints come from the catalog', () => {
+  const t = getMessages('ja');
+  assert.equal(getControlLabels(t, 'flocking').numBoids, t.sketches.flocking.controls.numBoids);
+  assert.deepEqual(getControlLabels(t, 'kinetic-typography'), {});
+  assert.equal(getPointerHint(t, 'kinetic-typography'), t.sketches['kinetic-typography'].hint);
+  assert.equal(getPointerHint(t, 'flocking'), undefined);
+  assert.equal(getPointerHint(t, 'missing'), undefined);
+});
@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createPointerInput, type Gesture, type InputHooks, type SketchPointer } from '@/lib/input';
+
+// Node has no DOM events beyond Event itself; the wheel handler only reads this constant
+Object.assign(globalThis, { WheelEvent: { DOM_DELTA_PIXEL: 0, DOM_DELTA_LINE: 1, DOM_DELTA_PAGE: 2 } });
+
+/** Just enough of a canvas for pointer input: events, a style and a box at the origin */
+class FakeCanvas extends EventTarget {
+  style: Record<string, string> = {};
+  clientWidth = 100;
+  getBoundingClientRect() {
+    return { left: 0, top: 0, width: 100, height: 100 };
+  }
+  setPointerCapture() {}
+}
+
+/** An event carrying the given pointer or wheel fields */
+function domEvent(type: string, init: Record<string, unknown>) {
+  return Object.assign(new Event(type, { cancelable: true }), init);
+}
+
+/** A pointer input attached to a fresh canvas, recording what the hooks saw */
+function setup() {
+  const canvas = new FakeCanvas();
+  const calls: { hook: string; id?: number; pressed?: boolean; gesture?: Gesture }[] = [];
+  const record = (hook: string) => (pointer: SketchPointer) => calls.push({ hook, id: pointer.id, pressed: pointer.pressed });
+  const hooks: InputHooks = {
+    onPointerDown: record('down'),
+    onPointerMove: record('move'),
+    onPointerUp: record('up'),
+    onGesture: (gesture) => calls.push({ hook: 'gesture', gesture }),
+  };
+  const pointerInput = createPointerInput();
+  pointerInput.attach(canvas as unknown as HTMLCanvasElement, hooks);
+
+  const send = (type: string, init: Record<string, unknown>) =>
+    canvas.dispatchEvent(domEvent(type, { pointerId: 1, pointerType: 'mouse', isPrimary: true, ...init }));
+  return { canvas, calls, send, ...pointerInput };
+}
+
+test('a mouse drag is tracked from press to release', () => {
+  const { input, calls, send } = setup();
+
+  send('pointerdown', { clientX: 10, clientY: 20, buttons: 1 });
+  assert.equal(input.pointers.length, 1);
+  assert.equal(input.primary, input.pointers[0]);
+  assert.deepEqual([input.x, input.y, input.pressed], [10, 20, true]);
+  // No pressure sensing reads as half pressure while pressed
+  assert.equal(input.primary?.pressure, 0.5);
+
+  send('pointermove', { clientX: 15, clientY: 18, buttons: 1 });
+  assert.deepEqual([input.primary?.dx, input.primary?.dy], [5, -2]);
+  assert.deepEqual([input.x, input.y], [15, 18]);
+
+  send('pointerup', { clientX: 15, clientY: 18, buttons: 0 });
+  // The mouse is still over the canvas, just no longer pressed
+  assert.equal(input.pointers.length, 1);
+  assert.equal(input.pressed, false);
+  assert.deepEqual(
+    calls.map(({ hook, pressed }) => [hook, pressed]),
+    [['down', true], ['move', true], ['up', false]],
+  );
+});
+
+test('hovering pointers leave with the cursor, fingers when lifted', () => {
+  const { input, send } = setup();
+
+  send('pointermove', { clientX: 5, clientY: 5, buttons: 0 });
+  assert.equal(input.pointers.length, 1);
+  send('pointerleave', {});
+  assert.equal(input.pointers.length, 0);
+  assert.equal(input.primary, null);
+  // The last position is kept for sketches that follow the pointer
+  assert.deepEqual([input.x, input.y], [5, 5]);
+
+  send('pointerdown', { pointerId: 2, pointerType: 'touch', clientX: 1, clientY: 1, buttons: 1 });
+  assert.equal(input.pointers[0].type, 'touch');
+  send('pointerup', { pointerId: 2, pointerType: 'touch', buttons: 0 });
+  assert.equal(input.pointers.length, 0);
+});
+
+test('two fingers moving apart make a zoom gesture', () => {
+  const { calls, send } = setup();
+  const touch = (type: string, pointerId: number, clientX: number) =>
+    send(type, { pointerId, pointerType: 'touch', isPrimary: pointerId === 1, clientX, clientY: 50, buttons: 1 });
+
+  touch('pointerdown', 1, 40);
+  touch('pointerdown', 2, 60);
+  touch('pointermove', 2, 80);
+
+  const gestures = calls.filter(({ hook }) => hook === 'gesture').map(({ gesture }) => gesture);
+  assert.equal(gestures.length, 1);
+  assert.deepEqual(gestures[0], { x: 60, y: 50, zoom: 2, panX: 10, panY: 0 });
+});
+
+test('the page only stops scrolling over sketches that follow drags or gestures', () => {
+  const touchAction = (hooks: InputHooks, options?: { drags?: boolean }) => {
+    const canvas = new FakeCanvas();
+    createPointerInput().attach(canvas as unknown as HTMLCanvasElement, hooks, options);
+    return canvas.style.touchAction;
+  };
+
+  assert.equal(touchAction({ onPointerDown: () => {} }), 'pan-y');
+  assert.equal(touchAction({ onPointerDown: () => {} }, { drags: true }), 'none');
+  assert.equal(touchAction({ onPointerMove: () => {} }), 'none');
+  assert.equal(touchAction({ onGesture: () => {} }), 'none');
+});
+
+test('scrolling the wheel zooms out, and in when reversed', () => {
+  const { canvas, calls } = setup();
+
+  canvas.dispatchEvent(domEvent('wheel', { clientX: 30, clientY: 40, deltaY: 100, deltaMode: 0 }));
+  canvas.dispatchEvent(domEvent('wheel', { clientX: 30, clientY: 40, deltaY: -100, deltaMode: 0 }));
+
+  const [out, back] = calls.map(({ gesture }) => gesture!);
+  assert.deepEqual([out.x, out.y], [30, 40]);
+  assert.ok(out.zoom < 1);
+  assert.ok(Math.abs(out.zoom * back.zoom - 1) < 1e-9);
+});
+
+test('the autopilot steers a synthetic mouse until a real pointer arrives', () => {
+  const { input, calls, send, steer, update } = setup();
+
+  steer(0, 0, 0);
+  steer(10, 0, 100);
+  assert.equal(input.pointers.length, 1);
+  assert.equal(input.primary?.pressed, false);
+  // Half-way to 10 px / 0.1 s, by the velocity smoothing
+  assert.equal(input.primary?.vx, 50);
+  assert.deepEqual(
+    calls.map(({ hook }) => hook),
+    ['move', 'move'],
+  );
+
+  update(100 + 1000);
+  assert.equal(input.primary?.vx, 0);
+
+  send('pointermove', { clientX: 1, clientY: 1, buttons: 0 });
+  steer(20, 0, 200);
+  assert.equal(input.pointers.length, 1);
+  assert.equal(input.primary?.id, 1);
+});
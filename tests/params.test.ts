@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { getDefaultParams, hexToRgb, sanitizeParam, sanitizeParams, type ParamSchema } from '@/lib/params';
+
+const schema = {
+  count: { type: 'number', min: 1, max: 100, step: 1, default: 10 },
+  mode: { type: 'enum', options: ['calm', 'storm'], default: 'calm' },
+  tint: { type: 'color', default: '#ff8800' },
+  trails: { type: 'boolean', default: true },
+} satisfies ParamSchema;
+
+test('getDefaultParams takes every default from the schema', () => {
+  assert.deepEqual(getDefaultParams(schema), { count: 10, mode: 'calm', tint: '#ff8800', trails: true });
+  assert.deepEqual(getDefaultParams(undefined), {});
+});
+
+test('sanitizeParam clamps numbers and parses numeric text', () => {
+  assert.equal(sanitizeParam(schema.count, 50), 50);
+  assert.equal(sanitizeParam(schema.count, '25'), 25);
+  assert.equal(sanitizeParam(schema.count, 1000), 100);
+  assert.equal(sanitizeParam(schema.count, -3), 1);
+  assert.equal(sanitizeParam(schema.count, 'many'), 10);
+  assert.equal(sanitizeParam(schema.count, Infinity), 10);
+});
+
+test('sanitizeParam only accepts listed options', () => {
+  assert.equal(sanitizeParam(schema.mode, 'storm'), 'storm');
+  assert.equal(sanitizeParam(schema.mode, 'hail'), 'calm');
+  assert.equal(sanitizeParam(schema.mode, 1), 'calm');
+});
+
+test('sanitizeParam accepts #rrggbb colors and lowercases them', () => {
+  assert.equal(sanitizeParam(schema.tint, '#00AAFF'), '#00aaff');
+  assert.equal(sanitizeParam(schema.tint, '#0af'), '#ff8800');
+  assert.equal(sanitizeParam(schema.tint, 'red'), '#ff8800');
+});
+
+test('sanitizeParam reads booleans from query-style text', () => {
+  assert.equal(sanitizeParam(schema.trails, false), false);
+  assert.equal(sanitizeParam(schema.trails, 'false'), false);
+  assert.equal(sanitizeParam(schema.trails, '0'), false);
+  assert.equal(sanitizeParam(schema.trails, '1'), true);
+  assert.equal(sanitizeParam({ ...schema.trails, default: false }, 'yes'), false);
+});
+
+test('sanitizeParams fills in defaults and drops unknown keys', () => {
+  assert.deepEqual(sanitizeParams(schema, { count: '500', mode: 'storm', extra: 1 }), {
+    count: 100,
+    mode: 'storm',
+    tint: '#ff8800',
+    trails: true,
+  });
+  assert.deepEqual(sanitizeParams(undefined, { count: 5 }), {});
+});
+
+test('hexToRgb splits a color into channels', () => {
+  assert.deepEqual(hexToRgb('#ff8800'), { r: 255, g: 136, b: 0 });
+  assert.deepEqual(hexToRgb('#000000'), { r: 0, g: 0, b: 0 });
+});
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createSeed, parseSeed } from '@/lib/seed';
+
+test('parseSeed reads integers as they are', () => {
+  assert.equal(parseSeed('42'), 42);
+  assert.equal(parseSeed('  7 '), 7);
+  assert.equal(parseSeed('0'), 0);
+});
+
+test('parseSeed has no seed for missing or blank values', () => {
+  assert.equal(parseSeed(null), undefined);
+  assert.equal(parseSeed(undefined), undefined);
+  assert.equal(parseSeed(''), undefined);
+  assert.equal(parseSeed('   '), undefined);
+});
+
+test('parseSeed keeps very long digit strings finite', () => {
+  const seed = parseSeed('9'.repeat(400));
+  assert.ok(Number.isSafeInteger(seed), `got ${seed}`);
+  assert.equal(parseSeed(String(Number.MAX_SAFE_INTEGER + 5)), 5);
+});
+
+test('parseSeed hashes words to the same unsigned 32-bit seed every time', () => {
+  const seed = parseSeed('aurora');
+  assert.ok(Number.isInteger(seed) && seed! >= 0 && seed! < 2 ** 32);
+  assert.equal(parseSeed('aurora'), seed);
+  assert.equal(parseSeed(' aurora '), seed);
+  assert.notEqual(parseSeed('borealis'), seed);
+  // Signs and decimals aren't plain digits, so they are hashed too
+  assert.notEqual(parseSeed('-5'), -5);
+  assert.notEqual(parseSeed('1.5'), 1.5);
+});
+
+test('createSeed gives an integer that parses back to itself', () => {
+  const seed = createSeed();
+  assert.ok(Number.isInteger(seed) && seed >= 0);
+  assert.equal(parseSeed(String(seed)), seed);
+});
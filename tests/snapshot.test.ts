@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { decodeSnapshotHash, encodeSnapshotHash, parseSnapshot, snapshotToJson, type Snapshot } from '@/lib/snapshot';
+
+const snapshot: Snapshot = {
+  id: 'fourier-series',
+  seed: 1234,
+  params: { count: 10, mode: 'storm' },
+  data: { points: [[0.25, 0.5], [0.75, 0.5]] },
+};
+
+test('snapshots round-trip through JSON', () => {
+  assert.deepEqual(parseSnapshot(snapshotToJson(snapshot)), snapshot);
+});
+
+test('parseSnapshot rejects other versions and malformed data', () => {
+  const json = JSON.parse(snapshotToJson(snapshot));
+  assert.equal(parseSnapshot(JSON.stringify({ ...json, version: 99 })), null);
+  assert.equal(parseSnapshot(JSON.stringify({ ...json, seed: 1.5 })), null);
+  assert.equal(parseSnapshot(JSON.stringify({ ...json, seed: '1234' })), null);
+  assert.equal(parseSnapshot(JSON.stringify({ ...json, id: 3 })), null);
+  assert.equal(parseSnapshot(JSON.stringify({ ...json, params: [] })), null);
+  assert.equal(parseSnapshot('[]'), null);
+  assert.equal(parseSnapshot('{not json'), null);
+});
+
+test('snapshots round-trip through a URL fragment', async () => {
+  const hash = await encodeSnapshotHash(snapshot);
+  assert.match(hash, /^#snapshot=[\w-]+$/);
+  assert.deepEqual(await decodeSnapshotHash(hash), snapshot);
+});
+
+test('decodeSnapshotHash ignores other fragments and damaged ones', async () => {
+  assert.equal(await decodeSnapshotHash(''), null);
+  assert.equal(await decodeSnapshotHash('#top'), null);
+  assert.equal(await decodeSnapshotHash('#snapshot=not-deflate'), null);
+
+  const hash = await encodeSnapshotHash(snapshot);
+  assert.equal(await decodeSnapshotHash(hash.slice(0, -8)), null);
+});